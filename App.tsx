@@ -1,10 +1,53 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Upload, Scissors, Download, RefreshCw, Play, Pause, Zap, Activity, Flame, Wand2, Check, Mic, Power, Sliders, Volume2, Sparkles, ArrowRight, FileAudio, Loader2, ArrowLeft, AlertTriangle, ZoomIn, ZoomOut, List, Trash2, CheckSquare, Square, Save, Home, Star, Music, Waves, Layers, MousePointerClick, StopCircle } from 'lucide-react';
-import { decodeAudio, removeSilence, bufferToWav, bufferToMp3, enhanceAudio, AudioRegion } from './lib/audioProcessing';
-
-type ProcessingState = 'idle' | 'decoding' | 'processing' | 'enhancing' | 'done' | 'error';
+import { Undo2, Redo2, X, Upload, Scissors, Download, RefreshCw, Play, Pause, Zap, Activity, Flame, Wand2, Check, Mic, Power, Sliders, Volume2, Sparkles, ArrowRight, FileAudio, Loader2, ArrowLeft, AlertTriangle, ZoomIn, ZoomOut, List, Trash2, CheckSquare, Square, Save, Home, Star, Music, Waves, Layers, MousePointerClick, StopCircle, Plus, Wind, Eraser, AudioWaveform } from 'lucide-react';
+import { AudioEncodeOptions, AudioFormat, AudioRegion, ChannelLayout, CodecOptions, EnhanceOptions, FlacOptions, Mp3BitrateMode, Mp3Options, SilenceOptions, WavBitDepth, WavOptions } from './lib/audioProcessing';
+import { FlacBitDepth } from './lib/flac';
+import { AudioMetadata, BroadcastInfo, hasMetadata, Marker, readMetadata, retimeMetadata } from './lib/metadata';
+import { getUnsupportedCodecMessage, isWebCodecsFormatSupported, WebCodecsFormat } from './lib/webCodecsEncoder';
+import {
+  alignTracksInWorker,
+  analyzeLevelsInWorker,
+  decodeInWorker,
+  encodeInWorker,
+  enhanceInWorker,
+  detectHumInWorker,
+  learnNoiseProfileInWorker,
+  mixTracksInWorker,
+  normalizeTracksInWorker,
+  processStreamInWorker,
+  removeSilenceInWorker,
+  removeSilenceMultitrackInWorker,
+  renderMultitrackRegionsInWorker,
+  renderRegionsInWorker
+} from './lib/processingClient';
+import { createIdentityTimeMap, TimeMap } from './lib/timeMap';
+import { DETECTORS, DetectorMode } from './lib/silenceDetection';
+import { LevelAnalysis } from './lib/levelAnalysis';
+import { dropCommands, EMPTY_HISTORY, HistoryState, pushCommand, redoCommand, undoCommand } from './lib/commandHistory';
+import { findBoundaryNear, findRegionAt, moveBoundary, paintCut, toggleRegion } from './lib/regionEditing';
+import { exportCutList, CutListFormat, TimelineFrameRate } from './lib/cutListExport';
+import { createProgressTracker, isAbortError, ProcessingStage } from './lib/progress';
+import { estimateMemory, probeWav, WavInfo } from './lib/audioSource';
+import { BreathMode } from './lib/breathDetection';
+import { MultitrackRule } from './lib/multitrack';
+import { TrackAlignment } from './lib/alignment';
+import { LOUDNESS_PRESETS, LoudnessPreset, LoudnessReport } from './lib/loudness';
+import { NoiseProfile } from './lib/noiseReduction';
+import { HumProfile } from './lib/humRemoval';
+import {
+  BUILT_IN_PRESETS,
+  VOICE_PRESET,
+  isSameChain,
+  parsePreset,
+  serializePreset,
+  EnhancePreset,
+  EqBand
+} from './lib/enhancePresets';
+
+type ProcessingState = 'idle' | 'decoding' | 'aligning' | 'processing' | 'enhancing' | 'encoding' | 'done' | 'error';
 type SilenceMode = 0.7 | 0.8 | 1.0;
-type ExportFormat = 'wav' | 'mp3';
+type PauseMode = 'ratio' | 'target';
+type ExportFormat = AudioFormat | CutListFormat;
 type WorkflowStep = 'landing' | 'import' | 'config';
 
 interface BatchItem {
@@ -17,6 +60,89 @@ interface BatchItem {
   timestamp: number;
 }
 
+const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; timeline: boolean }[] = [
+  { id: 'wav', label: 'WAV', extension: 'wav', timeline: false },
+  { id: 'mp3', label: 'MP3', extension: 'mp3', timeline: false },
+  { id: 'flac', label: 'FLAC', extension: 'flac', timeline: false },
+  { id: 'm4a', label: 'M4A', extension: 'm4a', timeline: false },
+  { id: 'opus', label: 'Opus', extension: 'opus', timeline: false },
+  { id: 'edl', label: 'EDL', extension: 'edl', timeline: true },
+  { id: 'fcpxml', label: 'FCPXML', extension: 'fcpxml', timeline: true },
+  { id: 'premiere', label: 'Premiere', extension: 'xml', timeline: true },
+  { id: 'audacity', label: 'Labels', extension: 'txt', timeline: true },
+];
+
+const getExportFormat = (format: ExportFormat) => EXPORT_FORMATS.find(f => f.id === format)!;
+
+const isAudioFormat = (format: ExportFormat): format is AudioFormat => !getExportFormat(format).timeline;
+
+// Encoded by the browser, so only available where it has the codec
+const WEB_CODECS_FORMATS: WebCodecsFormat[] = ['m4a', 'opus'];
+
+const isWebCodecsFormat = (format: ExportFormat): format is WebCodecsFormat =>
+  (WEB_CODECS_FORMATS as ExportFormat[]).includes(format);
+
+const MULTITRACK_RULES: { id: MultitrackRule; label: string }[] = [
+  { id: 'all', label: 'All tracks are silent' },
+  { id: 'majority', label: 'Most tracks are silent' },
+  { id: 'primary', label: 'Track 1 is silent' },
+];
+
+const BREATH_MODES: { id: BreathMode; label: string }[] = [
+  { id: 'off', label: 'Leave alone' },
+  { id: 'mark', label: 'Mark only' },
+  { id: 'attenuate', label: 'Reduce' },
+  { id: 'remove', label: 'Remove' },
+];
+
+// Shorter selections hold too few frames for a stable noise profile
+const MIN_NOISE_SELECTION_SECONDS = 0.25;
+
+const DEFAULT_WAV_OPTIONS: WavOptions = { bitDepth: 16, sampleRate: null, channels: 'keep', dither: true };
+
+const WAV_BIT_DEPTHS: { id: WavBitDepth; label: string }[] = [
+  { id: 16, label: '16-bit' },
+  { id: 24, label: '24-bit' },
+  { id: 32, label: '32-bit float' },
+];
+
+const WAV_SAMPLE_RATES = [16000, 22050, 44100, 48000, 88200, 96000];
+
+const CHANNEL_LAYOUTS: { id: ChannelLayout; label: string }[] = [
+  { id: 'keep', label: 'As source' },
+  { id: 'mono', label: 'Mono' },
+  { id: 'stereo', label: 'Stereo' },
+];
+
+const DEFAULT_FLAC_OPTIONS: FlacOptions = { bitDepth: 16, channels: 'keep', dither: true };
+
+const FLAC_BIT_DEPTHS: FlacBitDepth[] = [16, 24];
+
+const DEFAULT_MP3_OPTIONS: Mp3Options = { mode: 'cbr', bitrate: 128, quality: 4, channels: 'keep' };
+
+const MP3_BITRATES = [64, 96, 128, 160, 192, 256, 320];
+
+const MP3_VBR_QUALITIES = [
+  { id: 0, label: 'V0 (best, ~256 kbps)' },
+  { id: 2, label: 'V2 (~192 kbps)' },
+  { id: 4, label: 'V4 (~160 kbps)' },
+  { id: 6, label: 'V6 (~112 kbps)' },
+  { id: 8, label: 'V8 (smallest, ~80 kbps)' },
+];
+
+const DEFAULT_CODEC_OPTIONS: Record<WebCodecsFormat, CodecOptions> = {
+  m4a: { bitrate: 128, channels: 'keep' },
+  opus: { bitrate: 64, channels: 'keep' },
+};
+
+// Opus holds up far lower than AAC, especially for speech
+const CODEC_BITRATES: Record<WebCodecsFormat, number[]> = {
+  m4a: [64, 96, 128, 160, 192, 256],
+  opus: [24, 32, 48, 64, 96, 128],
+};
+
+const TIMELINE_FRAME_RATES: TimelineFrameRate[] = ['23.976', '24', '25', '29.97', '29.97df', '30', '50', '59.94', '60'];
+
 const formatTime = (seconds: number) => {
   const mins = Math.floor(seconds / 60);
   const secs = Math.floor(seconds % 60);
@@ -24,6 +150,65 @@ const formatTime = (seconds: number) => {
   return `${mins}:${secs.toString().padStart(2, '0')}.${ms}`;
 };
 
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+
+  // Clean up URL after small delay
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  return `${Math.max(1, Math.round(bytes / 1024 ** 2))} MB`;
+};
+
+// BWF time references count from midnight
+const formatTimeOfDay = (seconds: number) => {
+  const total = Math.floor(seconds) % 86400;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+};
+
+const formatLoudness = (value: number, unit: string) => Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : '—';
+
+const USER_PRESETS_KEY = 'enhancePresets';
+
+// Saved presets that no longer parse are dropped rather than breaking the app
+const loadUserPresets = (): EnhancePreset[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(USER_PRESETS_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(text => {
+      try {
+        return [parsePreset(String(text))];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+const saveUserPresets = (presets: EnhancePreset[]) => {
+  localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(presets.map(serializePreset)));
+};
+
+// Above this estimate, WAV files skip full decoding and are processed in chunks
+const LONG_MODE_MEMORY_BYTES = 1.5 * 1024 ** 3;
+
+const formatEta = (seconds: number) => {
+  const s = Math.ceil(seconds);
+  if (s < 60) return `~${s}s left`;
+  return `~${Math.floor(s / 60)}m ${(s % 60).toString().padStart(2, '0')}s left`;
+};
+
 /**
  * Placeholder component for Google AdSense
  */
@@ -44,25 +229,149 @@ const WaveformVisualizer = ({
   height = 120, 
   color = '#22c55e', 
   label,
-  thresholdDb 
+  thresholdDb,
+  suggestedThresholdDb,
+  markers,
+  onRegionsChange,
+  selection,
+  onSelectionChange
 }: { 
   buffer: AudioBuffer | null, 
   regions?: AudioRegion[], 
   height?: number, 
   color?: string,
   label: string,
-  thresholdDb?: number
+  thresholdDb?: number,
+  suggestedThresholdDb?: number,
+  markers?: number[], // seconds
+  onRegionsChange?: (regions: AudioRegion[]) => void // Enables editing
+  selection?: [number, number] | null, // samples
+  onSelectionChange?: (selection: [number, number] | null) => void // Enables selecting, when not editing
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [zoom, setZoom] = useState(1);
   const [scroll, setScroll] = useState(0); // Normalized 0 to 1
 
+  // Editing: a draft is shown while dragging and committed on release
+  const [draftRegions, setDraftRegions] = useState<AudioRegion[] | null>(null);
+  const [paintRange, setPaintRange] = useState<[number, number] | null>(null);
+  const [hoverBoundary, setHoverBoundary] = useState(false);
+  const [draftSelection, setDraftSelection] = useState<[number, number] | null>(null);
+  const dragRef = useRef<
+    | { type: 'boundary', index: number }
+    | { type: 'pending', sample: number, x: number }
+    | { type: 'paint', from: number }
+    | { type: 'select', from: number, x: number }
+    | null
+  >(null);
+
+  const shownRegions = draftRegions || regions;
+  const shownSelection = draftSelection || selection;
+  const isSelecting = !onRegionsChange && !!onSelectionChange;
+
   // Reset view when buffer changes
   useEffect(() => {
     setZoom(1);
     setScroll(0);
   }, [buffer]);
 
+  // Same view window as the drawing code, for mapping mouse positions
+  const getView = () => {
+    const totalSamples = buffer ? buffer.length : 0;
+    const visibleSamples = Math.floor(totalSamples / zoom);
+    const maxStart = Math.max(0, totalSamples - visibleSamples);
+    const startSample = Math.floor(scroll * maxStart);
+    return { startSample, visibleSamples };
+  };
+
+  const eventToSample = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const { startSample, visibleSamples } = getView();
+    const x = e.clientX - rect.left;
+    return {
+      x,
+      sample: startSample + (x / rect.width) * visibleSamples,
+      // 5 screen pixels expressed in samples
+      tolerance: (5 / rect.width) * visibleSamples
+    };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (isSelecting) {
+      const { x, sample } = eventToSample(e);
+      dragRef.current = { type: 'select', from: sample, x };
+      return;
+    }
+    if (!onRegionsChange || !regions) return;
+    const { x, sample, tolerance } = eventToSample(e);
+    const boundary = findBoundaryNear(regions, sample, tolerance);
+
+    if (boundary !== -1) {
+      dragRef.current = { type: 'boundary', index: boundary };
+      setDraftRegions(regions);
+    } else {
+      dragRef.current = { type: 'pending', sample, x };
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (isSelecting) {
+      const drag = dragRef.current;
+      if (drag?.type !== 'select') return;
+      const { x, sample } = eventToSample(e);
+      if (Math.abs(x - drag.x) > 3) setDraftSelection([Math.min(drag.from, sample), Math.max(drag.from, sample)]);
+      return;
+    }
+    if (!onRegionsChange || !regions) return;
+    const { x, sample, tolerance } = eventToSample(e);
+    const drag = dragRef.current;
+
+    if (!drag) {
+      setHoverBoundary(findBoundaryNear(regions, sample, tolerance) !== -1);
+    } else if (drag.type === 'boundary') {
+      setDraftRegions(moveBoundary(regions, drag.index, sample));
+    } else if (drag.type === 'pending' && Math.abs(x - drag.x) > 3) {
+      dragRef.current = { type: 'paint', from: drag.sample };
+      setPaintRange([drag.sample, sample]);
+    } else if (drag.type === 'paint') {
+      setPaintRange([drag.from, sample]);
+    }
+  };
+
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (isSelecting) {
+      // A click without dragging clears the selection
+      if (dragRef.current?.type === 'select') onSelectionChange!(draftSelection);
+      dragRef.current = null;
+      setDraftSelection(null);
+      return;
+    }
+    if (!onRegionsChange || !regions) return;
+    const { sample } = eventToSample(e);
+    const drag = dragRef.current;
+    dragRef.current = null;
+
+    if (drag?.type === 'boundary' && draftRegions) {
+      onRegionsChange(draftRegions);
+    } else if (drag?.type === 'pending') {
+      const next = toggleRegion(regions, findRegionAt(regions, sample));
+      if (next !== regions) onRegionsChange(next);
+    } else if (drag?.type === 'paint') {
+      onRegionsChange(paintCut(regions, drag.from, sample));
+    }
+
+    setDraftRegions(null);
+    setPaintRange(null);
+  };
+
+  const handleMouseLeave = () => {
+    dragRef.current = null;
+    setDraftRegions(null);
+    setPaintRange(null);
+    setDraftSelection(null);
+    setHoverBoundary(false);
+  };
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas || !buffer) return;
@@ -162,16 +471,38 @@ const WaveformVisualizer = ({
       ctx.setLineDash([]);
     }
 
+    // Draw Auto-Calibrated Threshold (only when it differs from the active one)
+    if (suggestedThresholdDb !== undefined && suggestedThresholdDb !== thresholdDb) {
+      const yOffset = Math.pow(10, suggestedThresholdDb / 20) * amp;
+
+      ctx.beginPath();
+      ctx.strokeStyle = 'rgba(74, 222, 128, 0.6)'; // Brand-400
+      ctx.setLineDash([2, 6]);
+      ctx.lineWidth = 1;
+      ctx.moveTo(0, amp - yOffset);
+      ctx.lineTo(width, amp - yOffset);
+      ctx.moveTo(0, amp + yOffset);
+      ctx.lineTo(width, amp + yOffset);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
     // Draw Silence Overlays (Red Highlights)
-    if (regions && regions.length > 0) {
-      ctx.fillStyle = 'rgba(239, 68, 68, 0.3)'; // Red-500 with opacity
-      
-      for (const r of regions) {
-        if (!r.isSilence) continue;
+    // Manual cuts are stronger red, silences the user chose to keep are faint green,
+    // breaths are blue (stronger when they are cut)
+    if (shownRegions && shownRegions.length > 0) {
+      for (const r of shownRegions) {
+        if (!r.isSilence && !r.manual && !r.breath) continue;
         
         // Skip if region is completely outside view
         if (r.end < startSample || r.start > endSample) continue;
 
+        ctx.fillStyle = r.manual
+          ? r.isSilence ? 'rgba(239, 68, 68, 0.5)' : 'rgba(34, 197, 94, 0.15)'
+          : r.breath
+            ? r.isSilence ? 'rgba(56, 189, 248, 0.45)' : 'rgba(56, 189, 248, 0.25)' // Sky-400
+            : 'rgba(239, 68, 68, 0.3)'; // Red-500 with opacity
+
         // Map region coords to screen pixels
         // regionStart relative to window start
         const relStart = Math.max(0, r.start - startSample);
@@ -186,7 +517,43 @@ const WaveformVisualizer = ({
       }
     }
 
-  }, [buffer, regions, height, color, zoom, scroll, thresholdDb]);
+    // Draw Cut Being Painted
+    if (paintRange) {
+      const a = Math.min(paintRange[0], paintRange[1]) - startSample;
+      const b = Math.max(paintRange[0], paintRange[1]) - startSample;
+      ctx.fillStyle = 'rgba(239, 68, 68, 0.4)';
+      ctx.fillRect((a / visibleSamples) * width, 0, ((b - a) / visibleSamples) * width, height);
+    }
+
+    // Draw Selection
+    if (shownSelection) {
+      const a = ((shownSelection[0] - startSample) / visibleSamples) * width;
+      const b = ((shownSelection[1] - startSample) / visibleSamples) * width;
+      ctx.fillStyle = 'rgba(96, 165, 250, 0.25)'; // Blue-400
+      ctx.fillRect(a, 0, b - a, height);
+      ctx.strokeStyle = 'rgba(96, 165, 250, 0.8)';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(a, 0, b - a, height);
+    }
+
+    // Draw Splice Markers (where cuts landed in this timeline)
+    if (markers && markers.length > 0) {
+      ctx.beginPath();
+      ctx.strokeStyle = 'rgba(250, 204, 21, 0.6)'; // Yellow-400
+      ctx.lineWidth = 1;
+
+      for (const t of markers) {
+        const sample = t * buffer.sampleRate;
+        if (sample < startSample || sample > endSample) continue;
+
+        const x = ((sample - startSample) / visibleSamples) * width;
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+      }
+      ctx.stroke();
+    }
+
+  }, [buffer, shownRegions, paintRange, shownSelection, height, color, zoom, scroll, thresholdDb, suggestedThresholdDb, markers]);
 
   return (
     <div className="w-full mb-6 bg-black/20 rounded-xl p-3 border border-white/5">
@@ -231,7 +598,11 @@ const WaveformVisualizer = ({
         <canvas 
           ref={canvasRef} 
           className="w-full block"
-          style={{ height: `${height}px` }} 
+          style={{ height: `${height}px`, cursor: onRegionsChange ? (hoverBoundary ? 'col-resize' : 'crosshair') : isSelecting ? 'text' : undefined }} 
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseLeave}
         />
       </div>
 
@@ -256,6 +627,486 @@ const WaveformVisualizer = ({
   );
 };
 
+/**
+ * Level distribution of the decoded file across the threshold slider's range,
+ * with the noise floor, suggested and active thresholds marked.
+ */
+const LevelHistogram = ({ 
+  analysis, 
+  thresholdDb,
+  minDb = -60,
+  maxDb = -10,
+  height = 60 
+}: { 
+  analysis: LevelAnalysis, 
+  thresholdDb: number,
+  minDb?: number,
+  maxDb?: number,
+  height?: number 
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.getBoundingClientRect().width;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, width, height);
+
+    const bins = maxDb - minDb;
+    const barWidth = width / bins;
+    const xForDb = (db: number) => ((db - minDb) / bins) * width;
+
+    let peak = 1;
+    for (let db = minDb; db < maxDb; db++) {
+      peak = Math.max(peak, analysis.histogram[db - analysis.minDb] || 0);
+    }
+
+    // Bars (below the active threshold counts as silence)
+    for (let db = minDb; db < maxDb; db++) {
+      const count = analysis.histogram[db - analysis.minDb] || 0;
+      const h = (count / peak) * (height - 4);
+      ctx.fillStyle = db < thresholdDb ? 'rgba(239, 68, 68, 0.5)' : 'rgba(34, 197, 94, 0.6)';
+      ctx.fillRect(xForDb(db) + 0.5, height - h, Math.max(1, barWidth - 1), h);
+    }
+
+    const drawMarker = (db: number, style: string, dash: number[]) => {
+      if (db < minDb || db > maxDb) return;
+      ctx.beginPath();
+      ctx.strokeStyle = style;
+      ctx.setLineDash(dash);
+      ctx.lineWidth = 1;
+      ctx.moveTo(xForDb(db), 0);
+      ctx.lineTo(xForDb(db), height);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    };
+
+    drawMarker(analysis.noiseFloorDb, 'rgba(156, 163, 175, 0.6)', []);
+    drawMarker(analysis.suggestedThresholdDb, 'rgba(74, 222, 128, 0.9)', [2, 4]);
+    drawMarker(thresholdDb, 'rgba(255, 255, 255, 0.6)', [4, 4]);
+  }, [analysis, thresholdDb, minDb, maxDb, height]);
+
+  return (
+    <canvas 
+      ref={canvasRef} 
+      className="w-full block rounded-lg bg-black/40 border border-white/5"
+      style={{ height: `${height}px` }} 
+    />
+  );
+};
+
+/**
+ * Undo/Redo buttons. Tooltips name the step that would be undone/redone.
+ */
+const HistoryControls = ({ 
+  history, 
+  onUndo, 
+  onRedo 
+}: { 
+  history: HistoryState, 
+  onUndo: () => void, 
+  onRedo: () => void 
+}) => {
+  const lastDone = history.past[history.past.length - 1];
+  const nextRedo = history.future[0];
+
+  return (
+    <div className="flex items-center gap-1 bg-white/5 rounded-lg p-1 border border-white/10">
+      <button
+        onClick={onUndo}
+        disabled={!lastDone}
+        className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+        title={lastDone ? `Undo ${lastDone.label} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <Undo2 size={16} />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!nextRedo}
+        className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+        title={nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 size={16} />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * One number in the chain editor. Typing edits a local draft; the value is
+ * clamped to [min, max] and applied on blur or Enter. Empty input reverts.
+ */
+const ChainNumber = ({
+  label,
+  unit,
+  value,
+  min,
+  max,
+  step,
+  onChange
+}: {
+  label: string,
+  unit?: string,
+  value: number,
+  min: number,
+  max: number,
+  step: number,
+  onChange: (value: number) => void
+}) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const next = Number(draft);
+    setDraft(null);
+    if (draft.trim() === '' || !Number.isFinite(next)) return;
+    const clamped = Math.max(min, Math.min(max, next));
+    if (clamped !== value) onChange(clamped);
+  };
+
+  return (
+    <label className="flex items-center gap-1 text-[11px] text-gray-500">
+      <span>{label}</span>
+      <input
+        type="number"
+        value={draft ?? value}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+          else if (e.key === 'Escape') setDraft(null);
+        }}
+        className="w-16 bg-black/40 border border-white/10 rounded px-1 py-0.5 text-white font-mono"
+      />
+      {unit && <span>{unit}</span>}
+    </label>
+  );
+};
+
+/**
+ * Editor for every stage of an enhance chain. Each change produces a new preset.
+ */
+const ChainEditor = ({
+  chain,
+  onChange
+}: {
+  chain: EnhancePreset,
+  onChange: (chain: EnhancePreset) => void
+}) => {
+  const set = (patch: Partial<EnhancePreset>) => onChange({ ...chain, ...patch });
+
+  // A stage that can be switched off, with its fields when on
+  const stage = (title: string, enabled: boolean, onToggle: (on: boolean) => void, fields: React.ReactNode) => (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+      <label className="flex items-center gap-2 w-24 cursor-pointer group">
+        <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${enabled ? 'bg-blue-500 border-blue-500' : 'border-gray-500 group-hover:border-gray-400'}`}>
+          {enabled && <Check size={10} className="text-white" />}
+        </div>
+        <input type="checkbox" className="hidden" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+        <span className="text-xs text-gray-300 group-hover:text-white">{title}</span>
+      </label>
+      {enabled && fields}
+    </div>
+  );
+
+  const bandList = (title: string, key: 'bands' | 'deEss', fallback: EqBand) => (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-gray-300">
+        <span>{title}</span>
+        <button
+          onClick={() => set({ [key]: [...chain[key], fallback] })}
+          className="p-0.5 rounded text-gray-400 hover:text-white hover:bg-white/10"
+          title="Add band"
+        >
+          <Plus size={12} />
+        </button>
+      </div>
+      {chain[key].map((band, i) => {
+        const update = (patch: Partial<EqBand>) => set({ [key]: chain[key].map((b, j) => j === i ? { ...b, ...patch } : b) });
+        return (
+          <div key={i} className="flex flex-wrap items-center gap-x-3 gap-y-1 pl-2">
+            <ChainNumber label="Freq" unit="Hz" value={band.frequency} min={10} max={24000} step={10} onChange={frequency => update({ frequency })} />
+            <ChainNumber label="Gain" unit="dB" value={band.gain} min={-40} max={40} step={0.5} onChange={gain => update({ gain })} />
+            <ChainNumber label="Q" value={band.q} min={0.1} max={100} step={0.1} onChange={q => update({ q })} />
+            <button
+              onClick={() => set({ [key]: chain[key].filter((_, j) => j !== i) })}
+              className="p-0.5 rounded text-gray-500 hover:text-red-400"
+              title="Remove band"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 bg-black/20 rounded-lg p-3 border border-white/5">
+      {stage('High-pass', !!chain.highPass, on => set({ highPass: on ? { frequency: 85, q: 0.7 } : null }), chain.highPass && (
+        <>
+          <ChainNumber label="Freq" unit="Hz" value={chain.highPass.frequency} min={10} max={24000} step={5} onChange={frequency => set({ highPass: { ...chain.highPass!, frequency } })} />
+          <ChainNumber label="Q" value={chain.highPass.q} min={0.1} max={100} step={0.1} onChange={q => set({ highPass: { ...chain.highPass!, q } })} />
+        </>
+      ))}
+      {stage('Low shelf', !!chain.lowShelf, on => set({ lowShelf: on ? { frequency: 100, gain: 2 } : null }), chain.lowShelf && (
+        <>
+          <ChainNumber label="Freq" unit="Hz" value={chain.lowShelf.frequency} min={10} max={24000} step={5} onChange={frequency => set({ lowShelf: { ...chain.lowShelf!, frequency } })} />
+          <ChainNumber label="Gain" unit="dB" value={chain.lowShelf.gain} min={-40} max={40} step={0.5} onChange={gain => set({ lowShelf: { ...chain.lowShelf!, gain } })} />
+        </>
+      ))}
+      {bandList('EQ bands', 'bands', { frequency: 1000, gain: 0, q: 1 })}
+      {stage('De-esser', !!chain.deEsser, on => set({ deEsser: on ? VOICE_PRESET.deEsser : null }), chain.deEsser && (
+        <>
+          <ChainNumber label="From" unit="Hz" value={chain.deEsser.lowFrequency} min={1000} max={chain.deEsser.highFrequency - 100} step={100} onChange={lowFrequency => set({ deEsser: { ...chain.deEsser!, lowFrequency } })} />
+          <ChainNumber label="To" unit="Hz" value={chain.deEsser.highFrequency} min={chain.deEsser.lowFrequency + 100} max={24000} step={100} onChange={highFrequency => set({ deEsser: { ...chain.deEsser!, highFrequency } })} />
+          <ChainNumber label="Thresh" unit="dB" value={chain.deEsser.threshold} min={-40} max={0} step={1} onChange={threshold => set({ deEsser: { ...chain.deEsser!, threshold } })} />
+          <ChainNumber label="Amount" unit="dB" value={chain.deEsser.amount} min={0} max={24} step={0.5} onChange={amount => set({ deEsser: { ...chain.deEsser!, amount } })} />
+        </>
+      ))}
+      {bandList('De-ess notches (always on)', 'deEss', { frequency: 6500, gain: -5, q: 2.5 })}
+      {stage('High shelf', !!chain.highShelf, on => set({ highShelf: on ? { frequency: 12000, gain: -6 } : null }), chain.highShelf && (
+        <>
+          <ChainNumber label="Freq" unit="Hz" value={chain.highShelf.frequency} min={10} max={24000} step={100} onChange={frequency => set({ highShelf: { ...chain.highShelf!, frequency } })} />
+          <ChainNumber label="Gain" unit="dB" value={chain.highShelf.gain} min={-40} max={40} step={0.5} onChange={gain => set({ highShelf: { ...chain.highShelf!, gain } })} />
+        </>
+      ))}
+      {stage('Low-pass', !!chain.lowPass, on => set({ lowPass: on ? { frequency: 8000, q: 0.7 } : null }), chain.lowPass && (
+        <>
+          <ChainNumber label="Freq" unit="Hz" value={chain.lowPass.frequency} min={10} max={24000} step={100} onChange={frequency => set({ lowPass: { ...chain.lowPass!, frequency } })} />
+          <ChainNumber label="Q" value={chain.lowPass.q} min={0.1} max={100} step={0.1} onChange={q => set({ lowPass: { ...chain.lowPass!, q } })} />
+        </>
+      ))}
+      {stage('Compressor', !!chain.compressor, on => set({ compressor: on ? VOICE_PRESET.compressor : null }), chain.compressor && (
+        <>
+          <ChainNumber label="Thresh" unit="dB" value={chain.compressor.threshold} min={-100} max={0} step={1} onChange={threshold => set({ compressor: { ...chain.compressor!, threshold } })} />
+          <ChainNumber label="Ratio" value={chain.compressor.ratio} min={1} max={20} step={0.5} onChange={ratio => set({ compressor: { ...chain.compressor!, ratio } })} />
+          <ChainNumber label="Knee" unit="dB" value={chain.compressor.knee} min={0} max={40} step={1} onChange={knee => set({ compressor: { ...chain.compressor!, knee } })} />
+          <ChainNumber label="Attack" unit="ms" value={Math.round(chain.compressor.attack * 10000) / 10} min={0} max={1000} step={0.5} onChange={ms => set({ compressor: { ...chain.compressor!, attack: ms / 1000 } })} />
+          <ChainNumber label="Release" unit="ms" value={Math.round(chain.compressor.release * 10000) / 10} min={0} max={1000} step={10} onChange={ms => set({ compressor: { ...chain.compressor!, release: ms / 1000 } })} />
+        </>
+      ))}
+      <div className="flex items-center gap-3">
+        <span className="w-24 text-xs text-gray-300">Makeup gain</span>
+        <ChainNumber label="" unit="dB" value={chain.makeupGain} min={-40} max={40} step={0.5} onChange={makeupGain => set({ makeupGain })} />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Tags, broadcast details and markers read from the upload, edited before
+ * processing. Whatever is here is written into every export format that
+ * can hold it; markers move with the cut.
+ */
+const MetadataEditor = ({
+  metadata,
+  onChange
+}: {
+  metadata: AudioMetadata,
+  onChange: (metadata: AudioMetadata) => void
+}) => {
+  const set = (patch: Partial<AudioMetadata>) => onChange({ ...metadata, ...patch });
+  const broadcast = metadata.broadcast;
+  const setBroadcast = (patch: Partial<BroadcastInfo>) => broadcast && set({ broadcast: { ...broadcast, ...patch } });
+  const markers = metadata.markers ?? [];
+  const setMarkers = (next: Marker[]) => set({ markers: next });
+
+  const handleCover = async (file: File | undefined) => {
+    if (!file) return;
+    set({ cover: { mimeType: file.type || 'image/jpeg', data: new Uint8Array(await file.arrayBuffer()) } });
+  };
+
+  const field = 'bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white';
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <label className="col-span-2 flex flex-col gap-1 text-gray-400">
+          <span>Title</span>
+          <input type="text" value={metadata.title ?? ''} onChange={(e) => set({ title: e.target.value })} className={field} />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          <span>Artist</span>
+          <input type="text" value={metadata.artist ?? ''} onChange={(e) => set({ artist: e.target.value })} className={field} />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          <span>Album / Show</span>
+          <input type="text" value={metadata.album ?? ''} onChange={(e) => set({ album: e.target.value })} className={field} />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          <span>Episode</span>
+          <input
+            type="number"
+            min={0}
+            value={metadata.episode ?? ''}
+            onChange={(e) => set({ episode: e.target.value === '' ? null : Math.max(0, Math.floor(Number(e.target.value))) })}
+            className={field}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          <span>Date</span>
+          <input type="text" value={metadata.date ?? ''} onChange={(e) => set({ date: e.target.value })} className={field} placeholder="2024-05-01" />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          <span>Genre</span>
+          <input type="text" value={metadata.genre ?? ''} onChange={(e) => set({ genre: e.target.value })} className={field} />
+        </label>
+        <div className="flex flex-col gap-1 text-gray-400">
+          <span>Cover Art</span>
+          {metadata.cover ? (
+            <div className="flex items-center gap-2">
+              <span className="text-white">{Math.round(metadata.cover.data.length / 1024)} KB image</span>
+              <button onClick={() => set({ cover: null })} className="p-1 rounded text-gray-500 hover:text-red-400" title="Remove cover art">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ) : (
+            <label className={`${field} cursor-pointer text-gray-400 hover:text-white`}>
+              Choose image…
+              <input type="file" accept="image/jpeg,image/png" className="hidden" onChange={(e) => handleCover(e.target.files?.[0])} />
+            </label>
+          )}
+        </div>
+        <label className="col-span-2 md:col-span-4 flex flex-col gap-1 text-gray-400">
+          <span>Comment</span>
+          <input type="text" value={metadata.comment ?? ''} onChange={(e) => set({ comment: e.target.value })} className={field} />
+        </label>
+      </div>
+
+      {broadcast && (
+        <div className="pt-3 border-t border-white/5 grid grid-cols-2 md:grid-cols-4 gap-3">
+          <label className="col-span-2 flex flex-col gap-1 text-gray-400">
+            <span>BWF Description</span>
+            <input type="text" maxLength={256} value={broadcast.description} onChange={(e) => setBroadcast({ description: e.target.value })} className={field} />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-400">
+            <span>Originator</span>
+            <input type="text" maxLength={32} value={broadcast.originator} onChange={(e) => setBroadcast({ originator: e.target.value })} className={field} />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-400">
+            <span>Reference</span>
+            <input type="text" maxLength={32} value={broadcast.originatorReference} onChange={(e) => setBroadcast({ originatorReference: e.target.value })} className={field} />
+          </label>
+        </div>
+      )}
+
+      {(metadata.timeReference != null || metadata.ixml) && (
+        <p className="text-xs text-gray-500">
+          {metadata.timeReference != null && <>Starts at <span className="font-mono text-gray-300">{formatTimeOfDay(metadata.timeReference)}</span>; the time reference follows the cut. </>}
+          {metadata.ixml && 'iXML production data is kept.'}
+        </p>
+      )}
+
+      {markers.length > 0 && (
+        <div className="pt-3 border-t border-white/5 space-y-1">
+          <p className="text-xs text-gray-500">Markers ({markers.length}) — written as cues, chapters or chapter comments, moved to match the cut.</p>
+          <ul className="max-h-40 overflow-y-auto space-y-1">
+            {markers.map((m, i) => (
+              <li key={i} className="flex items-center gap-2">
+                <span className="w-16 text-xs font-mono text-gray-500">{formatTime(m.time)}</span>
+                <input
+                  type="text"
+                  value={m.label}
+                  onChange={(e) => setMarkers(markers.map((other, j) => (j === i ? { ...other, label: e.target.value } : other)))}
+                  className={`${field} flex-1`}
+                />
+                <button onClick={() => setMarkers(markers.filter((_, j) => j !== i))} className="p-1 text-gray-500 hover:text-red-400 transition-colors" title="Remove Marker">
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Export dialog for MP3 encoding settings. Edits stay local until applied,
+ * since every apply re-encodes the file. Tags come from the metadata panel.
+ */
+const Mp3ExportDialog = ({
+  options,
+  onApply,
+  onClose
+}: {
+  options: Mp3Options,
+  onApply: (options: Mp3Options) => void,
+  onClose: () => void
+}) => {
+  const [draft, setDraft] = useState<Mp3Options>(options);
+  const set = (patch: Partial<Mp3Options>) => setDraft({ ...draft, ...patch });
+
+  const field = 'bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div className="w-full max-w-lg bg-gray-800 border border-white/10 rounded-2xl p-6 space-y-5 text-sm" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold text-white">MP3 Export</h3>
+          <button onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/10" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1 text-gray-400">
+            <span>Bitrate Mode</span>
+            <select value={draft.mode ?? 'cbr'} onChange={(e) => set({ mode: e.target.value as Mp3BitrateMode })} className={field}>
+              <option value="cbr">Constant (CBR)</option>
+              <option value="vbr">Variable (VBR)</option>
+            </select>
+          </label>
+          {(draft.mode ?? 'cbr') === 'cbr' ? (
+            <label className="flex flex-col gap-1 text-gray-400">
+              <span>Bitrate</span>
+              <select value={draft.bitrate ?? 128} onChange={(e) => set({ bitrate: Number(e.target.value) })} className={field}>
+                {MP3_BITRATES.map(b => <option key={b} value={b}>{b} kbps</option>)}
+              </select>
+            </label>
+          ) : (
+            <label className="flex flex-col gap-1 text-gray-400">
+              <span>Quality</span>
+              <select value={draft.quality ?? 4} onChange={(e) => set({ quality: Number(e.target.value) })} className={field}>
+                {MP3_VBR_QUALITIES.map(q => <option key={q.id} value={q.id}>{q.label}</option>)}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1 text-gray-400">
+            <span>Channels</span>
+            <select value={draft.channels ?? 'keep'} onChange={(e) => set({ channels: e.target.value as ChannelLayout })} className={field}>
+              <option value="keep">As source</option>
+              <option value="mono">Mono (speech)</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10">
+            Cancel
+          </button>
+          <button onClick={() => onApply(draft)} className="px-4 py-2 rounded-lg bg-white text-black font-bold hover:bg-gray-200">
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 export default function App() {
   const [file, setFile] = useState<File | null>(null);
   
@@ -267,8 +1118,65 @@ export default function App() {
   const [silenceEnabled, setSilenceEnabled] = useState(true);
   const [enhanceEnabled, setEnhanceEnabled] = useState(false);
   const [mode, setMode] = useState<SilenceMode>(0.7);
+  const [pauseMode, setPauseMode] = useState<PauseMode>('ratio');
+  const [shortPauseMs, setShortPauseMs] = useState(400);
+  const [longPauseMs, setLongPauseMs] = useState(800);
+  const [longPauseThresholdMs, setLongPauseThresholdMs] = useState(1500);
+  const [minPauseMs, setMinPauseMs] = useState(0);
   const [thresholdDb, setThresholdDb] = useState(-35); // Default threshold
+  const [autoThreshold, setAutoThreshold] = useState(false);
+  const [levelAnalysis, setLevelAnalysis] = useState<LevelAnalysis | null>(null);
+  const [crossfadeMs, setCrossfadeMs] = useState(10);
+  const [detectorMode, setDetectorMode] = useState<DetectorMode>('peak');
+  const [hopSize, setHopSize] = useState(1024);
+  const [holdMs, setHoldMs] = useState(0);
+  const [snapZeroCrossings, setSnapZeroCrossings] = useState(true);
+  const [breathMode, setBreathMode] = useState<BreathMode>('off');
+  const [breathReductionDb, setBreathReductionDb] = useState(12);
   const [aggressiveRemoval, setAggressiveRemoval] = useState(false);
+  const [loudnessPreset, setLoudnessPreset] = useState<LoudnessPreset | 'off'>('podcast');
+  const [loudnessReport, setLoudnessReport] = useState<LoudnessReport | null>(null);
+  const [enhanceChain, setEnhanceChain] = useState<EnhancePreset>(VOICE_PRESET);
+  const [userPresets, setUserPresets] = useState<EnhancePreset[]>(loadUserPresets);
+  const [chainEditorOpen, setChainEditorOpen] = useState(false);
+  const [removeHum, setRemoveHum] = useState(false);
+  const [humAnalysis, setHumAnalysis] = useState<{ hum: HumProfile | null } | null>(null); // Of the original, for display
+  const [noiseReductionEnabled, setNoiseReductionEnabled] = useState(false);
+  const [noiseReductionDb, setNoiseReductionDb] = useState(12);
+  const [noiseSmoothing, setNoiseSmoothing] = useState(50); // %
+  const [noiseProfileSource, setNoiseProfileSource] = useState<'auto' | 'selection'>('auto');
+  const [noiseSelection, setNoiseSelection] = useState<[number, number] | null>(null); // Samples of the original
+  const presetInputRef = useRef<HTMLInputElement>(null);
+
+  // Undo/Redo for settings and region edits
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+
+  /**
+   * Applies a setting change and records it so it can be undone.
+   */
+  const track = <T,>(key: string, label: string, setter: (value: T) => void, oldValue: T, newValue: T) => {
+    if (Object.is(oldValue, newValue)) return;
+    setter(newValue);
+    setHistory(h => pushCommand(h, {
+      key,
+      label,
+      undo: () => setter(oldValue),
+      redo: () => setter(newValue),
+      timestamp: Date.now()
+    }));
+  };
+
+  // The threshold and its auto flag move together, so one undo restores both
+  const trackThreshold = (key: string, label: string, db: number, auto: boolean) => track(
+    key,
+    label,
+    (value: { db: number; auto: boolean }) => { setThresholdDb(value.db); setAutoThreshold(value.auto); },
+    { db: thresholdDb, auto: autoThreshold },
+    { db, auto }
+  );
+
+  const handleUndo = () => setHistory(undoCommand(history));
+  const handleRedo = () => setHistory(redoCommand(history));
 
   // Recording State
   const [isRecording, setIsRecording] = useState(false);
@@ -278,20 +1186,49 @@ export default function App() {
 
   const [status, setStatus] = useState<ProcessingState>('idle');
   const [progress, setProgress] = useState(0);
+  const [etaSeconds, setEtaSeconds] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [originalDuration, setOriginalDuration] = useState(0);
   const [newDuration, setNewDuration] = useState(0);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null); // Processed audio preview
   const [originalBlobUrl, setOriginalBlobUrl] = useState<string | null>(null); // For Compare
   const [errorMsg, setErrorMsg] = useState('');
   
   // Export Configuration
   const [exportFormat, setExportFormat] = useState<ExportFormat>('wav');
+  const [timelineFrameRate, setTimelineFrameRate] = useState<TimelineFrameRate>('25');
+  const [timelineStart, setTimelineStart] = useState('01:00:00:00');
+  const [wavOptions, setWavOptions] = useState<WavOptions>(DEFAULT_WAV_OPTIONS);
+  const [mp3Options, setMp3Options] = useState<Mp3Options>(DEFAULT_MP3_OPTIONS);
+  const [mp3DialogOpen, setMp3DialogOpen] = useState(false);
+  const [flacOptions, setFlacOptions] = useState<FlacOptions>(DEFAULT_FLAC_OPTIONS);
+  const [codecOptions, setCodecOptions] = useState(DEFAULT_CODEC_OPTIONS);
+  const [unsupportedFormats, setUnsupportedFormats] = useState<ExportFormat[]>([]);
   const [isEncoding, setIsEncoding] = useState(false);
+  const [metadata, setMetadata] = useState<AudioMetadata | null>(null); // Read from the upload, on its timeline
   
   // Waveform Data
   const [originalBuffer, setOriginalBuffer] = useState<AudioBuffer | null>(null);
   const [processedBuffer, setProcessedBuffer] = useState<AudioBuffer | null>(null);
   const [silenceRegions, setSilenceRegions] = useState<AudioRegion[]>([]);
+  const [timeMap, setTimeMap] = useState<TimeMap | null>(null);
+  const [regionsDirty, setRegionsDirty] = useState(false); // Edited since last render
+
+  // Long recordings: WAV files processed in chunks without a full decode
+  const [wavInfo, setWavInfo] = useState<WavInfo | null>(null);
+  const [longMode, setLongMode] = useState(false);
+  const [longResult, setLongResult] = useState<{ noiseFloorDb: number | null } | null>(null);
+
+  // Multitrack session: the main file is track 1, these follow it
+  const [extraTracks, setExtraTracks] = useState<File[]>([]);
+  const [multitrackRule, setMultitrackRule] = useState<MultitrackRule>('all');
+  const [trackBuffers, setTrackBuffers] = useState<AudioBuffer[]>([]); // Decoded sources, for re-rendering
+  const [processedTracks, setProcessedTracks] = useState<AudioBuffer[]>([]); // Stems
+  const [alignEnabled, setAlignEnabled] = useState(true);
+  const [alignDrift, setAlignDrift] = useState(false);
+  const [alignments, setAlignments] = useState<TrackAlignment[]>([]);
+  const [isRendering, setIsRendering] = useState(false);
 
   // Batch History State
   const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
@@ -301,8 +1238,10 @@ export default function App() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const isComparingRef = useRef(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const trackInputRef = useRef<HTMLInputElement>(null);
 
   const handleToolSelect = (intent: 'silence' | 'enhance') => {
     setUploadIntent(intent);
@@ -364,18 +1303,35 @@ export default function App() {
 
   const handleNewFile = (selectedFile: File) => {
     if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+    if (playbackUrl) URL.revokeObjectURL(playbackUrl);
     if (originalBlobUrl) URL.revokeObjectURL(originalBlobUrl);
     
     setFile(selectedFile);
     setOriginalBlobUrl(URL.createObjectURL(selectedFile));
     
     setDownloadUrl(null);
+    setPlaybackUrl(null);
     setStatus('idle');
     setNewDuration(0);
     setOriginalDuration(0);
     setOriginalBuffer(null);
+    setWavInfo(null);
+    setLongMode(false);
+    setLongResult(null);
+    setExtraTracks([]);
+    setTrackBuffers([]);
+    setProcessedTracks([]);
+    setAlignments([]);
+    setLoudnessReport(null);
+    setNoiseSelection(null);
+    setHumAnalysis(null);
+    setLevelAnalysis(null);
     setProcessedBuffer(null);
     setSilenceRegions([]);
+    setRegionsDirty(false);
+    setHistory(EMPTY_HISTORY);
+    setTimeMap(null);
+    setMetadata(null);
     setErrorMsg('');
     setIsPlaying(false);
     setProgress(0);
@@ -392,30 +1348,196 @@ export default function App() {
     e.target.value = '';
   };
 
-  const createBlobFromBuffer = async (buffer: AudioBuffer, format: ExportFormat): Promise<Blob> => {
-    if (format === 'mp3') {
-      return await bufferToMp3(buffer);
-    } else {
-      return await bufferToWav(buffer);
+  const handleTrackAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const added = e.target.files ? Array.from(e.target.files) : [];
+    if (added.length > 0) setExtraTracks(prev => [...prev, ...added]);
+    e.target.value = '';
+  };
+
+  // Current settings of every audio format, with `patch` applied. The
+  // metadata is moved onto the timeline of `map`, the cut being exported.
+  const getEncodeOptions = (patch: AudioEncodeOptions = {}, map: TimeMap | null = timeMap): AudioEncodeOptions => ({
+    wav: wavOptions,
+    mp3: mp3Options,
+    flac: flacOptions,
+    m4a: codecOptions.m4a,
+    opus: codecOptions.opus,
+    metadata: metadata && retimeMetadata(metadata, map),
+    ...patch
+  });
+
+  // A null buffer means a long recording: audio formats are re-rendered from the file
+  const createBlobFromBuffer = async (
+    buffer: AudioBuffer | null,
+    format: ExportFormat,
+    timeline = { frameRate: timelineFrameRate, startTimecode: timelineStart },
+    encoding: AudioEncodeOptions = getEncodeOptions(),
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> => {
+    if (isAudioFormat(format)) {
+      if (buffer) return await encodeInWorker(buffer, format, encoding, onProgress, signal);
+      if (!file) throw new Error("No file to render");
+      const result = await processStreamInWorker(
+        file,
+        {
+          silence: getSilenceOptions(),
+          regions: silenceEnabled ? silenceRegions : [],
+          gate: enhanceEnabled ? getStreamEnhanceOptions() : null,
+          noiseFloorDb: longResult?.noiseFloorDb ?? null,
+          format,
+          encoding,
+          metadata
+        },
+        enhanceEnabled ? getStreamEnhanceOptions() : null,
+        undefined,
+        onProgress,
+        signal
+      );
+      return result.blob;
     }
+
+    // Timeline formats describe the cut, so they are built from the source, not the output
+    const source = originalBuffer || buffer || wavInfo;
+    if (!source) throw new Error("Source audio is not available");
+    return exportCutList(format, {
+      fileName: file?.name || 'audio.wav',
+      sampleRate: source.sampleRate,
+      numberOfChannels: source.numberOfChannels,
+      timeMap: timeMap || createIdentityTimeMap(source.length, source.sampleRate)
+    }, timeline);
   };
 
-  const generateDownload = async (buffer: AudioBuffer, format: ExportFormat) => {
+  const generateDownload = async (
+    buffer: AudioBuffer | null,
+    format: ExportFormat,
+    timeline?: { frameRate: TimelineFrameRate, startTimecode: string },
+    encoding?: AudioEncodeOptions,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Blob | null> => {
     setIsEncoding(true);
-    await new Promise(r => setTimeout(r, 10));
 
     try {
-      const blob = await createBlobFromBuffer(buffer, format);
+      const blob = await createBlobFromBuffer(buffer, format, timeline, encoding, onProgress, signal);
       const url = URL.createObjectURL(blob);
       setDownloadUrl(url);
+      return blob;
     } catch (e) {
+      // Cancelling is not an encoding failure: let the caller unwind
+      if (isAbortError(e)) throw e;
       console.error("Encoding error", e);
-      setErrorMsg("Failed to encode audio.");
+      // Cut list and codec errors say what to do instead
+      const explained = getExportFormat(format).timeline || isWebCodecsFormat(format);
+      setErrorMsg(e instanceof Error && explained ? e.message : "Failed to encode audio.");
+      return null;
     } finally {
       setIsEncoding(false);
     }
   };
 
+  const getSilenceOptions = (): SilenceOptions => ({
+    removeRatio: mode,
+    pauseTargets: pauseMode === 'target' ? {
+      shortPause: shortPauseMs / 1000,
+      longPause: longPauseMs / 1000,
+      longPauseThreshold: longPauseThresholdMs / 1000,
+      minPause: minPauseMs / 1000
+    } : undefined,
+    thresholdDb: thresholdDb,
+    minSilenceDuration: 0.1,
+    padding: 0.05,
+    crossfadeDuration: crossfadeMs / 1000,
+    snapToZeroCrossings: snapZeroCrossings,
+    detector: detectorMode,
+    hopSize,
+    holdTime: holdMs / 1000,
+    breathMode,
+    breathReductionDb
+  });
+
+  // `noiseProfile` comes from `learnNoiseProfiles`; null skips noise reduction
+  const getEnhanceOptions = (noiseProfile: NoiseProfile | null = null): EnhanceOptions => ({
+    aggressiveGate: aggressiveRemoval,
+    removeHum,
+    chain: enhanceChain,
+    noiseReduction: noiseProfile && {
+      profile: noiseProfile,
+      reductionDb: noiseReductionDb,
+      smoothing: noiseSmoothing / 100
+    },
+    loudness: loudnessPreset === 'off' ? null : LOUDNESS_PRESETS[loudnessPreset].target
+  });
+
+  // Loudness normalization and noise reduction need the whole file, so long recordings go without
+  const getStreamEnhanceOptions = (): EnhanceOptions => ({ ...getEnhanceOptions(), loudness: null });
+
+  // One noise profile per source track, learned before cutting so the full pauses
+  // are there to learn from. The selection is on track 1's timeline, which aligned
+  // tracks share. Null entries when noise reduction is off.
+  const learnNoiseProfiles = async (sources: AudioBuffer[], signal?: AbortSignal): Promise<(NoiseProfile | null)[]> => {
+    if (!noiseReductionEnabled) return sources.map(() => null);
+    const range = noiseProfileSource === 'selection' && noiseSelection
+      ? { start: noiseSelection[0], end: noiseSelection[1] }
+      : null;
+    const profiles: NoiseProfile[] = [];
+    for (const source of sources) profiles.push(await learnNoiseProfileInWorker(source, range, signal));
+    return profiles;
+  };
+
+  const handleNoiseSelection = (selection: [number, number] | null) => {
+    const tooShort = !!selection && !!originalBuffer
+      && selection[1] - selection[0] < MIN_NOISE_SELECTION_SECONDS * originalBuffer.sampleRate;
+    setNoiseSelection(tooShort ? null : selection);
+  };
+
+  // Enhance presets: built-ins, plus the user's own kept in localStorage
+  const matchPreset = (list: EnhancePreset[]) => list.findIndex(p => p.name === enhanceChain.name && isSameChain(p, enhanceChain));
+  const selectedPreset = matchPreset(BUILT_IN_PRESETS) !== -1 ? `builtin-${matchPreset(BUILT_IN_PRESETS)}`
+    : matchPreset(userPresets) !== -1 ? `user-${matchPreset(userPresets)}`
+    : 'custom';
+
+  const updateUserPresets = (presets: EnhancePreset[]) => {
+    setUserPresets(presets);
+    saveUserPresets(presets);
+  };
+
+  const handlePresetSelect = (value: string) => {
+    const [kind, index] = value.split('-');
+    const preset = (kind === 'user' ? userPresets : BUILT_IN_PRESETS)[Number(index)];
+    if (preset) track('enhanceChain', 'Enhance preset', setEnhanceChain, enhanceChain, preset);
+  };
+
+  // Saving under an existing name replaces that preset
+  const handlePresetSave = () => {
+    const preset = { ...enhanceChain, name: enhanceChain.name.trim() || 'My Preset' };
+    updateUserPresets([...userPresets.filter(p => p.name !== preset.name), preset]);
+    setEnhanceChain(preset);
+  };
+
+  const handlePresetDelete = () => {
+    updateUserPresets(userPresets.filter(p => p.name !== enhanceChain.name));
+  };
+
+  const handlePresetExport = () => {
+    const fileName = `${enhanceChain.name.trim().replace(/[^\w-]+/g, '_') || 'preset'}.json`;
+    downloadBlob(new Blob([serializePreset(enhanceChain)], { type: 'application/json' }), fileName);
+  };
+
+  const handlePresetImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const presetFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!presetFile) return;
+    try {
+      const preset = parsePreset(await presetFile.text());
+      updateUserPresets([...userPresets.filter(p => p.name !== preset.name), preset]);
+      track('enhanceChain', 'Enhance preset', setEnhanceChain, enhanceChain, preset);
+      setErrorMsg('');
+    } catch (err) {
+      setErrorMsg(`Could not import the preset: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
   const handleProcess = async () => {
     setErrorMsg('');
     
@@ -426,81 +1548,337 @@ export default function App() {
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    if (longMode && wavInfo) {
+      if (extraTracks.length > 0) {
+        setErrorMsg("Long recording mode works on a single track. Remove the extra tracks or turn it off.");
+        setStatus('error');
+        return;
+      }
+      await processLongRecording(wavInfo, signal);
+      return;
+    }
+
+    const alignTracks = alignEnabled && extraTracks.length > 0;
+    const stages: ProcessingStage[] = ['decode'];
+    if (alignTracks) stages.push('align');
+    if (silenceEnabled) stages.push('detect');
+    if (enhanceEnabled) stages.push('enhance');
+    stages.push('encode');
+    const tracker = createProgressTracker(stages, update => {
+      setProgress(Math.round(update.overall * 100));
+      setEtaSeconds(update.etaSeconds);
+    });
+
     try {
       setStatus('decoding');
-      const audioBuffer = await decodeAudio(file);
-      setOriginalDuration(audioBuffer.duration);
+      const reportDecode = tracker.stage('decode');
+      // Usually already decoded for the config preview
+      const audioBuffer = originalBuffer || await decodeInWorker(file, null, signal);
+      let tracks = [audioBuffer];
+      for (const extra of extraTracks) {
+        reportDecode(tracks.length / (extraTracks.length + 1));
+        // Decoded at their own rate, so bring them to the first track's
+        tracks.push(await decodeInWorker(extra, audioBuffer.sampleRate, signal));
+      }
+      reportDecode(1);
       setOriginalBuffer(audioBuffer);
+      const isMultitrack = tracks.length > 1;
+
+      // 0. Put every track on the first track's timeline
+      let trackAlignments: TrackAlignment[] = [];
+      if (alignTracks) {
+        setStatus('aligning');
+        const aligned = await alignTracksInWorker(tracks, { estimateDrift: alignDrift }, tracker.stage('align'), signal);
+        tracks = aligned.buffers;
+        trackAlignments = aligned.alignments;
+      }
+      setAlignments(trackAlignments);
+      setOriginalDuration(Math.max(...tracks.map(t => t.duration)));
+
+      let finalBuffer = audioBuffer;
+      let stems = tracks;
+      let loudness: LoudnessReport | null = null;
+      let regions: AudioRegion[] = [];
+      let map = createIdentityTimeMap(audioBuffer.length, audioBuffer.sampleRate);
+
+      // 1. Silence Removal
+      if (silenceEnabled) {
+        setStatus('processing');
+        if (isMultitrack) {
+          const result = await removeSilenceMultitrackInWorker(tracks, getSilenceOptions(), multitrackRule, tracker.stage('detect'), signal);
+          stems = result.buffers;
+          regions = result.regions;
+          map = result.timeMap;
+        } else {
+          const result = await removeSilenceInWorker(audioBuffer, getSilenceOptions(), tracker.stage('detect'), signal);
+          finalBuffer = result.buffer;
+          regions = result.regions;
+          map = result.timeMap;
+        }
+      }
+
+      // 2. Enhancement
+      if (enhanceEnabled) {
+        setStatus('enhancing');
+        const profiles = await learnNoiseProfiles(tracks, signal);
+        if (isMultitrack) {
+          const enhanced = await enhanceTracks(stems, profiles, tracker.stage('enhance'), signal);
+          stems = enhanced.buffers;
+          loudness = enhanced.loudness;
+        } else {
+          const enhanced = await enhanceInWorker(finalBuffer, getEnhanceOptions(profiles[0]), tracker.stage('enhance'), signal);
+          finalBuffer = enhanced.buffer;
+          loudness = enhanced.loudness;
+        }
+      }
+
+      // Stems are exported separately; the preview plays their mix
+      if (isMultitrack) {
+        if (!silenceEnabled) map = createIdentityTimeMap(Math.max(...tracks.map(t => t.length)), audioBuffer.sampleRate);
+        finalBuffer = await mixTracksInWorker(stems, signal);
+      }
+      setTrackBuffers(isMultitrack ? tracks : []);
+      setProcessedTracks(isMultitrack ? stems : []);
+      setLoudnessReport(loudness);
+
+      // 3. Preview encode
+      setStatus('encoding');
+      const previewBlob = await generateDownload(finalBuffer, 'wav', undefined, getEncodeOptions({}, map), tracker.stage('encode'), signal);
+
+      setProcessedBuffer(finalBuffer);
+      setSilenceRegions(regions);
+      setRegionsDirty(false);
+      // Edits to the previous regions would bring back a detection that no longer applies
+      setHistory(h => dropCommands(h, 'regions-'));
+      setTimeMap(map);
+      setNewDuration(finalBuffer.duration);
+      
+      setExportFormat('wav');
+      if (previewBlob) setPlaybackUrl(URL.createObjectURL(previewBlob));
+      
+      setStatus('done');
+
+    } catch (err) {
+      if (isAbortError(err)) {
+        // Back to the settings, nothing half-done is kept
+        setStatus('idle');
+        return;
+      }
+      console.error(err);
+      setStatus('error');
+      setErrorMsg("Failed to process audio. Format might be unsupported or file corrupted.");
+    } finally {
+      abortRef.current = null;
+      setProgress(0);
+      setEtaSeconds(null);
+    }
+  };
+
+  // Chunked pipeline for long WAV recordings. Nothing is decoded up front;
+  // the result is only kept as the encoded preview.
+  const processLongRecording = async (info: WavInfo, signal: AbortSignal) => {
+    const stages: ProcessingStage[] = silenceEnabled ? ['detect'] : [];
+    const renderStage: ProcessingStage = enhanceEnabled ? 'enhance' : 'encode';
+    stages.push(renderStage);
+    const tracker = createProgressTracker(stages, update => {
+      setProgress(Math.round(update.overall * 100));
+      setEtaSeconds(update.etaSeconds);
+    });
+
+    let reportRender: ((progress: number) => void) | null = null;
+    const onRenderProgress = (p: number) => {
+      if (!reportRender) {
+        setStatus(enhanceEnabled ? 'enhancing' : 'encoding');
+        reportRender = tracker.stage(renderStage);
+      }
+      reportRender(p);
+    };
+
+    try {
+      setStatus(silenceEnabled ? 'processing' : enhanceEnabled ? 'enhancing' : 'encoding');
+      setOriginalDuration(info.length / info.sampleRate);
+      const enhance = enhanceEnabled ? getStreamEnhanceOptions() : null;
+
+      const result = await processStreamInWorker(
+        file!,
+        { silence: getSilenceOptions(), regions: silenceEnabled ? null : [], gate: enhance, noiseFloorDb: null, format: 'wav', encoding: getEncodeOptions(), metadata },
+        enhance,
+        silenceEnabled ? tracker.stage('detect') : undefined,
+        onRenderProgress,
+        signal
+      );
+
+      setProcessedBuffer(null);
+      setLoudnessReport(null);
+      setLongResult({ noiseFloorDb: result.noiseFloorDb });
+      setSilenceRegions(silenceEnabled ? result.regions : []);
+      setRegionsDirty(false);
+      setHistory(h => dropCommands(h, 'regions-'));
+      setTimeMap(result.timeMap);
+      setNewDuration(result.timeMap.processedDuration);
+
+      setExportFormat('wav');
+      setDownloadUrl(URL.createObjectURL(result.blob));
+      setPlaybackUrl(URL.createObjectURL(result.blob));
+
+      setStatus('done');
+    } catch (err) {
+      if (isAbortError(err)) {
+        setStatus('idle');
+        return;
+      }
+      console.error(err);
+      setStatus('error');
+      setErrorMsg("Failed to process the recording. Long recording mode needs an uncompressed WAV file.");
+    } finally {
+      abortRef.current = null;
+      setProgress(0);
+      setEtaSeconds(null);
+    }
+  };
+
+  // Enhances each stem in turn, with progress spread evenly across them.
+  // Loudness is set afterwards for the session as a whole.
+  const enhanceTracks = async (
+    buffers: AudioBuffer[],
+    noiseProfiles: (NoiseProfile | null)[],
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<{ buffers: AudioBuffer[]; loudness: LoudnessReport | null }> => {
+    const target = getEnhanceOptions().loudness;
+    const chainShare = target ? 0.8 : 1;
+    const enhanced: AudioBuffer[] = [];
+    for (let i = 0; i < buffers.length; i++) {
+      const onTrackProgress = onProgress && ((p: number) => onProgress(chainShare * (i + p) / buffers.length));
+      const options = { ...getEnhanceOptions(noiseProfiles[i]), loudness: null };
+      enhanced.push((await enhanceInWorker(buffers[i], options, onTrackProgress, signal)).buffer);
+    }
+    if (!target) return { buffers: enhanced, loudness: null };
+    return await normalizeTracksInWorker(enhanced, target, onProgress && (p => onProgress(chainShare + p * (1 - chainShare))), signal);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // Manual region edits on the results page
+  const handleRegionsEdit = (regions: AudioRegion[]) => {
+    const applyRegions = (next: AudioRegion[]) => {
+      setSilenceRegions(next);
+      setRegionsDirty(true);
+    };
+    // Unique key: separate clicks are separate undo steps
+    track(`regions-${Date.now()}`, 'Edit regions', applyRegions, silenceRegions, regions);
+  };
 
-      let finalBuffer = audioBuffer;
-      let regions: AudioRegion[] = [];
+  // Re-render from the edited regions. Detection and decoding are not repeated.
+  const handleApplyEdits = async () => {
+    if (!originalBuffer || !silenceEnabled) return;
+    setErrorMsg('');
+    setIsRendering(true);
 
-      // 1. Silence Removal
-      if (silenceEnabled) {
-        setStatus('processing');
-        await new Promise(r => setTimeout(r, 50));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
 
-        let result = await removeSilence(audioBuffer, {
-          removeRatio: mode,
-          thresholdDb: thresholdDb,
-          minSilenceDuration: 0.1,
-          padding: 0.05
-        }, (p) => setProgress(Math.round(p * 100)));
+    // Rendering the cuts stands in for detection
+    const stages: ProcessingStage[] = enhanceEnabled ? ['detect', 'enhance', 'encode'] : ['detect', 'encode'];
+    const tracker = createProgressTracker(stages, update => {
+      setProgress(Math.round(update.overall * 100));
+      setEtaSeconds(update.etaSeconds);
+    });
 
-        finalBuffer = result.buffer;
-        regions = result.regions;
+    try {
+      let finalBuffer: AudioBuffer;
+      let stems: AudioBuffer[] = [];
+      let loudness: LoudnessReport | null = null;
+      let result: { timeMap: TimeMap };
+      if (trackBuffers.length > 1) {
+        const rendered = await renderMultitrackRegionsInWorker(trackBuffers, silenceRegions, getSilenceOptions(), tracker.stage('detect'), signal);
+        const enhanced = enhanceEnabled
+          ? await enhanceTracks(rendered.buffers, await learnNoiseProfiles(trackBuffers, signal), tracker.stage('enhance'), signal)
+          : { buffers: rendered.buffers, loudness: null };
+        finalBuffer = await mixTracksInWorker(enhanced.buffers, signal);
+        stems = enhanced.buffers;
+        loudness = enhanced.loudness;
+        result = rendered;
+      } else {
+        const rendered = await renderRegionsInWorker(originalBuffer, silenceRegions, getSilenceOptions(), tracker.stage('detect'), signal);
+        finalBuffer = rendered.buffer;
+        if (enhanceEnabled) {
+          const [profile] = await learnNoiseProfiles([originalBuffer], signal);
+          const enhanced = await enhanceInWorker(finalBuffer, getEnhanceOptions(profile), tracker.stage('enhance'), signal);
+          finalBuffer = enhanced.buffer;
+          loudness = enhanced.loudness;
+        }
+        result = rendered;
       }
 
-      // 2. Enhancement
-      if (enhanceEnabled) {
-        setStatus('enhancing');
-        await new Promise(r => setTimeout(r, 20));
-        finalBuffer = await enhanceAudio(finalBuffer, { aggressiveGate: aggressiveRemoval });
-      }
+      const previewBlob = await generateDownload(finalBuffer, 'wav', undefined, getEncodeOptions({}, result.timeMap), tracker.stage('encode'), signal);
 
+      // Nothing is replaced until the whole render is through, so a cancel keeps the previous result
+      if (trackBuffers.length > 1) setProcessedTracks(stems);
+      if (enhanceEnabled) setLoudnessReport(loudness);
       setProcessedBuffer(finalBuffer);
-      setSilenceRegions(regions);
+      setTimeMap(result.timeMap);
       setNewDuration(finalBuffer.duration);
-      
-      setExportFormat('wav');
-      await generateDownload(finalBuffer, 'wav');
-      
-      setStatus('done');
+      setRegionsDirty(false);
 
+      if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+      if (playbackUrl) URL.revokeObjectURL(playbackUrl);
+      setDownloadUrl(null);
+      setPlaybackUrl(previewBlob ? URL.createObjectURL(previewBlob) : null);
+      setIsPlaying(false);
+      setExportFormat('wav');
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error(err);
-      setStatus('error');
-      setErrorMsg("Failed to process audio. Format might be unsupported or file corrupted.");
+      setErrorMsg("Failed to apply edits.");
+    } finally {
+      abortRef.current = null;
+      setProgress(0);
+      setEtaSeconds(null);
+      setIsRendering(false);
     }
   };
 
   // Compare Functionality
+  // The two sources live on different timelines, so positions are translated
+  // through the time map rather than copied across.
   const handleCompareDown = () => {
-    if (!audioRef.current || !originalBlobUrl) return;
+    if (!audioRef.current || !originalBlobUrl || isComparingRef.current) return;
     // Save current playing state and time
     const wasPlaying = !audioRef.current.paused;
     const currTime = audioRef.current.currentTime;
+    isComparingRef.current = true;
     
     // Switch to original
     audioRef.current.src = originalBlobUrl;
-    audioRef.current.currentTime = currTime;
+    audioRef.current.currentTime = timeMap ? timeMap.toOriginal(currTime) : currTime;
     if (wasPlaying) audioRef.current.play();
   };
 
   const handleCompareUp = () => {
-    if (!audioRef.current || !downloadUrl) return;
+    if (!audioRef.current || !playbackUrl || !isComparingRef.current) return;
     const wasPlaying = !audioRef.current.paused;
     const currTime = audioRef.current.currentTime;
+    isComparingRef.current = false;
     
     // Switch back to processed
-    audioRef.current.src = downloadUrl;
-    audioRef.current.currentTime = currTime;
+    audioRef.current.src = playbackUrl;
+    const processedTime = timeMap ? timeMap.toProcessed(currTime) : currTime;
+    audioRef.current.currentTime = processedTime;
+    setCurrentTime(processedTime);
     if (wasPlaying) audioRef.current.play();
   };
 
   // Batch Operations
   const handleAddToBatch = async () => {
-    if (!processedBuffer || !file) return;
+    if ((!processedBuffer && !longResult) || !file) return;
 
     setIsEncoding(true);
     try {
@@ -509,7 +1887,7 @@ export default function App() {
       
       const newItem: BatchItem = {
         id: Math.random().toString(36).substring(7),
-        fileName: `processed_${file.name.replace(/\.[^/.]+$/, "")}.${exportFormat}`,
+        fileName: `processed_${file.name.replace(/\.[^/.]+$/, "")}.${getExportFormat(exportFormat).extension}`,
         originalDuration,
         newDuration,
         blob,
@@ -525,8 +1903,10 @@ export default function App() {
       setStatus('idle');
       setWorkflowStep('import');
       if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+      if (playbackUrl) URL.revokeObjectURL(playbackUrl);
       if (originalBlobUrl) URL.revokeObjectURL(originalBlobUrl);
       setDownloadUrl(null);
+      setPlaybackUrl(null);
       setOriginalBlobUrl(null);
 
     } catch (e) {
@@ -567,32 +1947,96 @@ export default function App() {
   const downloadBatch = () => {
     batchItems.forEach(item => {
       if (selectedBatchIds.has(item.id)) {
-        const url = URL.createObjectURL(item.blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = item.fileName;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        
-        // Clean up URL after small delay
-        setTimeout(() => URL.revokeObjectURL(url), 1000);
+        downloadBlob(item.blob, item.fileName);
       }
     });
   };
 
+  // Each stem downloads as its own file, in the chosen audio format (WAV for cut lists)
+  const handleDownloadStems = async () => {
+    if (processedTracks.length === 0) return;
+    const format = isAudioFormat(exportFormat) ? exportFormat : 'wav';
+    const names = [file, ...extraTracks].map((f, i) => f ? f.name.replace(/\.[^/.]+$/, "") : `track_${i + 1}`);
+
+    setIsEncoding(true);
+    try {
+      for (let i = 0; i < processedTracks.length; i++) {
+        const blob = await encodeInWorker(processedTracks[i], format, getEncodeOptions());
+        downloadBlob(blob, `processed_${names[i]}.${format}`);
+      }
+    } catch (e) {
+      console.error("Stem export failed", e);
+      setErrorMsg(e instanceof Error && isWebCodecsFormat(format) ? e.message : "Failed to export stems.");
+    } finally {
+      setIsEncoding(false);
+    }
+  };
+
   // When user changes format, regenerate
   const handleFormatChange = async (format: ExportFormat) => {
-    if (format === exportFormat || !processedBuffer) return;
+    if (format === exportFormat || (!processedBuffer && !longResult)) return;
+    if (isWebCodecsFormat(format) && unsupportedFormats.includes(format)) {
+      setErrorMsg(getUnsupportedCodecMessage(format));
+      return;
+    }
+    setErrorMsg('');
     setExportFormat(format);
     if (downloadUrl) URL.revokeObjectURL(downloadUrl);
     setDownloadUrl(null);
     await generateDownload(processedBuffer, format);
   };
 
+  // WAV settings only affect WAV downloads (and stems)
+  const handleWavOptionsChange = async (patch: Partial<WavOptions>) => {
+    const next = { ...wavOptions, ...patch };
+    setWavOptions(next);
+    if ((!processedBuffer && !longResult) || exportFormat !== 'wav') return;
+    if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+    setDownloadUrl(null);
+    await generateDownload(processedBuffer, 'wav', undefined, getEncodeOptions({ wav: next }));
+  };
+
+  const handleMp3OptionsApply = async (next: Mp3Options) => {
+    setMp3Options(next);
+    setMp3DialogOpen(false);
+    if ((!processedBuffer && !longResult) || exportFormat !== 'mp3') return;
+    if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+    setDownloadUrl(null);
+    await generateDownload(processedBuffer, 'mp3', undefined, getEncodeOptions({ mp3: next }));
+  };
+
+  const handleFlacOptionsChange = async (patch: Partial<FlacOptions>) => {
+    const next = { ...flacOptions, ...patch };
+    setFlacOptions(next);
+    if ((!processedBuffer && !longResult) || exportFormat !== 'flac') return;
+    if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+    setDownloadUrl(null);
+    await generateDownload(processedBuffer, 'flac', undefined, getEncodeOptions({ flac: next }));
+  };
+
+  const handleCodecOptionsChange = async (format: WebCodecsFormat, patch: Partial<CodecOptions>) => {
+    const next = { ...codecOptions, [format]: { ...codecOptions[format], ...patch } };
+    setCodecOptions(next);
+    if ((!processedBuffer && !longResult) || exportFormat !== format) return;
+    if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+    setDownloadUrl(null);
+    await generateDownload(processedBuffer, format, undefined, getEncodeOptions({ [format]: next[format] }));
+  };
+
+  // Timeline settings only affect the NLE formats
+  const handleTimelineChange = async (frameRate: TimelineFrameRate, startTimecode: string) => {
+    setTimelineFrameRate(frameRate);
+    setTimelineStart(startTimecode);
+    if ((!processedBuffer && !longResult) || !getExportFormat(exportFormat).timeline) return;
+    if (!/^\d{2}[:;]\d{2}[:;]\d{2}[:;]\d{2}$/.test(startTimecode)) return;
+    if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+    setDownloadUrl(null);
+    await generateDownload(processedBuffer, exportFormat, { frameRate, startTimecode });
+  };
+
   const togglePlayback = async () => {
     const audio = audioRef.current;
-    if (!audio || !downloadUrl) return;
+    if (!audio || !playbackUrl) return;
     
     if (isPlaying) {
       audio.pause();
@@ -619,20 +2063,128 @@ export default function App() {
     }
   };
 
+  // Keyboard shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave native undo alone inside text fields
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type === 'text'))) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        setHistory(undoCommand(history));
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        setHistory(redoCommand(history));
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [history]);
+
+  // Decode as soon as a file is chosen so the config step can preview and calibrate.
+  // WAV files too large to decode switch to long recording mode instead.
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+
+    probeWav(file)
+      .then(info => {
+        if (cancelled) return;
+        setWavInfo(info);
+        if (info && estimateMemory(info, { silence: true, enhance: true }).inMemory > LONG_MODE_MEMORY_BYTES) {
+          setLongMode(true);
+          setOriginalDuration(info.length / info.sampleRate);
+          return;
+        }
+        return decodeInWorker(file).then(buffer => {
+          if (cancelled) return;
+          setOriginalBuffer(buffer);
+          setOriginalDuration(buffer.duration);
+        });
+      })
+      .catch(err => console.warn("Preview decode failed, will retry on process:", err));
+
+    readMetadata(file)
+      .then(found => {
+        if (!cancelled) setMetadata(found);
+      })
+      .catch(err => console.warn("Could not read metadata:", err));
+
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // Browser codecs vary by platform; ask once which export formats can be offered
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(WEB_CODECS_FORMATS.map(async format => (await isWebCodecsFormatSupported(format)) ? null : format))
+      .then(results => {
+        if (!cancelled) setUnsupportedFormats(results.filter((f): f is WebCodecsFormat => f !== null));
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const selectingNoise = enhanceEnabled && noiseReductionEnabled && noiseProfileSource === 'selection' && !longMode;
+
+  const memorySource = wavInfo || originalBuffer;
+  const memoryEstimate = memorySource && estimateMemory(memorySource, { silence: silenceEnabled, enhance: enhanceEnabled });
+
+  // Calibrate against the same measure the selected detector uses
+  const levelMeasure = detectorMode === 'peak' ? 'peak' : 'rms';
+  useEffect(() => {
+    if (!originalBuffer) return;
+    let cancelled = false;
+
+    analyzeLevelsInWorker(originalBuffer, levelMeasure).then(analysis => {
+      if (!cancelled) setLevelAnalysis(analysis);
+    }).catch(err => {
+      // Cancelling a run restarts the worker, which also drops this job
+      if (!isAbortError(err)) console.error("Level analysis failed", err);
+    });
+
+    return () => { cancelled = true; };
+  }, [originalBuffer, levelMeasure]);
+
+  // The hum toggle shows what was found; enhancement detects again on the audio it gets
+  useEffect(() => {
+    if (!originalBuffer) return;
+    let cancelled = false;
+
+    detectHumInWorker(originalBuffer).then(hum => {
+      if (!cancelled) setHumAnalysis({ hum });
+    }).catch(err => {
+      if (!isAbortError(err)) console.error("Hum detection failed", err);
+    });
+
+    return () => { cancelled = true; };
+  }, [originalBuffer]);
+
+  // Toggling auto records the suggestion itself; this only applies an analysis that lands while auto is on
+  useEffect(() => {
+    if (autoThreshold && levelAnalysis) {
+      setThresholdDb(levelAnalysis.suggestedThresholdDb);
+    }
+  }, [autoThreshold, levelAnalysis]);
+
   useEffect(() => {
-    if (audioRef.current && downloadUrl) {
-      audioRef.current.src = downloadUrl;
+    if (audioRef.current && playbackUrl) {
+      audioRef.current.src = playbackUrl;
       audioRef.current.load();
+      isComparingRef.current = false;
       setCurrentTime(0);
     }
-  }, [downloadUrl]);
+  }, [playbackUrl]);
 
   useEffect(() => {
     return () => {
       if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+      if (playbackUrl) URL.revokeObjectURL(playbackUrl);
       if (originalBlobUrl) URL.revokeObjectURL(originalBlobUrl);
     };
-  }, [downloadUrl, originalBlobUrl]);
+  }, [downloadUrl, playbackUrl, originalBlobUrl]);
 
   return (
     <div className="min-h-screen bg-dark-900 text-white font-sans selection:bg-brand-500 selection:text-white flex flex-col items-center justify-center p-4 overflow-hidden relative">
@@ -829,7 +2381,7 @@ export default function App() {
         )}
 
         {/* STEP 3: CONFIGURATION DASHBOARD */}
-        {workflowStep === 'config' && file && status === 'idle' && (
+        {workflowStep === 'config' && file && (status === 'idle' || status === 'error') && (
           <div className="space-y-6 animate-fade-in">
              <div className="flex gap-4">
                <button 
@@ -847,6 +2399,10 @@ export default function App() {
                 <Home size={16} />
                 <span>Home</span>
               </button>
+
+               <div className="ml-auto mb-4">
+                 <HistoryControls history={history} onUndo={handleUndo} onRedo={handleRedo} />
+               </div>
              </div>
 
             {/* File Info Bar - Added Waveform Preview with Threshold */}
@@ -873,26 +2429,173 @@ export default function App() {
                     <RefreshCw size={20} />
                   </button>
                </div>
+
+               {/* Memory estimate, and chunked processing for WAV files */}
+               {memoryEstimate && (
+                  <div className="flex flex-wrap items-center justify-between gap-3 pt-3 border-t border-white/5 text-xs">
+                     <span className={!longMode && memoryEstimate.inMemory > LONG_MODE_MEMORY_BYTES ? 'text-yellow-400' : 'text-gray-500'}>
+                        Estimated memory <span className="font-mono">{formatBytes(longMode ? memoryEstimate.streaming : memoryEstimate.inMemory)}</span>
+                        {longMode ? ` + ${formatBytes(memoryEstimate.output)} result` : !wavInfo && memoryEstimate.inMemory > LONG_MODE_MEMORY_BYTES ? ' · Convert to WAV for long recording mode' : ''}
+                     </span>
+                     {wavInfo && (
+                        <label className="flex items-center gap-2 cursor-pointer group">
+                           <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${longMode ? 'bg-brand-500 border-brand-500' : 'border-gray-500 group-hover:border-gray-400'}`}>
+                              {longMode && <Check size={12} className="text-black" />}
+                           </div>
+                           <input
+                              type="checkbox"
+                              className="hidden"
+                              checked={longMode}
+                              onChange={(e) => track('longMode', 'Long recording mode', setLongMode, longMode, e.target.checked)}
+                           />
+                           <span className="text-gray-400 group-hover:text-white" title="Processes the file in chunks straight from disk. Waveforms and region editing are not available.">Long recording mode</span>
+                        </label>
+                     )}
+                  </div>
+               )}
                
-               {/* Pre-process visualization to show threshold */}
-               {originalBuffer && silenceEnabled && (
+               {/* Pre-process visualization to show threshold, and to pick the noise sample */}
+               {originalBuffer && (silenceEnabled || selectingNoise) && (
                   <div className="mt-4 pt-4 border-t border-white/5">
-                     <p className="text-xs text-gray-500 mb-2 uppercase tracking-wider font-semibold">Preview & Threshold Adjustment</p>
+                     <p className="text-xs text-gray-500 mb-2 uppercase tracking-wider font-semibold">
+                        {silenceEnabled ? 'Preview & Threshold Adjustment' : 'Preview'}
+                     </p>
+                     {selectingNoise && (
+                        <p className="text-xs text-blue-300/80 mb-2">Drag across a stretch with only background noise to learn the noise profile from it.</p>
+                     )}
                      <WaveformVisualizer 
                         buffer={originalBuffer} 
                         label="" 
                         color="#555" 
                         height={80} 
-                        thresholdDb={thresholdDb}
+                        thresholdDb={silenceEnabled ? thresholdDb : undefined}
+                        suggestedThresholdDb={silenceEnabled ? levelAnalysis?.suggestedThresholdDb : undefined}
+                        selection={selectingNoise ? noiseSelection : null}
+                        onSelectionChange={selectingNoise ? handleNoiseSelection : undefined}
                      />
-                     <div className="flex justify-between text-xs text-gray-500 px-1">
-                        <span>Quiet (-60dB)</span>
-                        <span>Loud (-10dB)</span>
-                     </div>
+                     {silenceEnabled && levelAnalysis && (
+                        <div className="space-y-1">
+                           <LevelHistogram analysis={levelAnalysis} thresholdDb={thresholdDb} />
+                           <div className="flex flex-wrap justify-between gap-2 text-[10px] text-gray-500 px-1 font-mono">
+                              <span>Noise floor {levelAnalysis.noiseFloorDb.toFixed(1)}dB</span>
+                              <span className="text-brand-400">Suggested {levelAnalysis.suggestedThresholdDb}dB</span>
+                              <span>Speech {levelAnalysis.speechLevelDb.toFixed(1)}dB</span>
+                           </div>
+                        </div>
+                     )}
+                     {silenceEnabled && (
+                        <div className="flex justify-between text-xs text-gray-500 px-1">
+                           <span>Quiet (-60dB)</span>
+                           <span>Loud (-10dB)</span>
+                        </div>
+                     )}
+                  </div>
+               )}
+            </div>
+
+            {/* Multitrack Session */}
+            <div className="bg-white/5 p-4 rounded-xl border border-white/5 space-y-3">
+               <input
+                  ref={trackInputRef}
+                  type="file"
+                  multiple
+                  accept="audio/*,.mp3,.wav,.m4a,.aac,.ogg,.flac,.aiff"
+                  onChange={handleTrackAdd}
+                  className="hidden"
+               />
+               <div className="flex items-center justify-between gap-3">
+                  <div>
+                     <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold">Multitrack Session</p>
+                     <p className="text-xs text-gray-500 mt-1">Add the other mics of this recording. Every track gets the same cuts, so the stems stay in sync.</p>
                   </div>
+                  <button
+                     onClick={() => trackInputRef.current?.click()}
+                     className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-sm text-gray-300 hover:text-white hover:bg-white/10 transition-all shrink-0"
+                  >
+                     <Plus size={14} />
+                     Add Track
+                  </button>
+               </div>
+               {extraTracks.length > 0 && (
+                  <>
+                     <ul className="space-y-1 text-sm">
+                        <li className="flex items-center gap-2 text-gray-300">
+                           <span className="w-6 text-xs font-mono text-gray-500">1</span>
+                           <span className="truncate">{file.name}</span>
+                        </li>
+                        {extraTracks.map((t, i) => (
+                           <li key={`${t.name}-${i}`} className="flex items-center gap-2 text-gray-300">
+                              <span className="w-6 text-xs font-mono text-gray-500">{i + 2}</span>
+                              <span className="truncate flex-1">{t.name}</span>
+                              <button
+                                 onClick={() => setExtraTracks(prev => prev.filter((_, j) => j !== i))}
+                                 className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                                 title="Remove Track"
+                              >
+                                 <Trash2 size={14} />
+                              </button>
+                           </li>
+                        ))}
+                     </ul>
+                     {silenceEnabled && (
+                        <label className="flex items-center gap-2 text-sm text-gray-400">
+                           <span>Cut when</span>
+                           <select
+                              value={multitrackRule}
+                              onChange={(e) => track('multitrackRule', 'Multitrack cut rule', setMultitrackRule, multitrackRule, e.target.value as MultitrackRule)}
+                              className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white"
+                           >
+                              {MULTITRACK_RULES.map(r => (
+                                 <option key={r.id} value={r.id}>{r.label}</option>
+                              ))}
+                           </select>
+                        </label>
+                     )}
+                     <div className="flex flex-wrap gap-x-6 gap-y-2">
+                        <label className="flex items-center gap-3 cursor-pointer group">
+                           <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${alignEnabled ? 'bg-brand-500 border-brand-500' : 'border-gray-500 group-hover:border-gray-400'}`}>
+                              {alignEnabled && <Check size={14} className="text-black" />}
+                           </div>
+                           <input
+                              type="checkbox"
+                              className="hidden"
+                              checked={alignEnabled}
+                              onChange={(e) => track('alignEnabled', 'Align tracks', setAlignEnabled, alignEnabled, e.target.checked)}
+                           />
+                           <span className="text-sm text-gray-300 group-hover:text-white" title="Finds the offset between tracks started by hand and lines them up before cutting">Align tracks automatically</span>
+                        </label>
+                        {alignEnabled && (
+                           <label className="flex items-center gap-3 cursor-pointer group">
+                              <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${alignDrift ? 'bg-brand-500 border-brand-500' : 'border-gray-500 group-hover:border-gray-400'}`}>
+                                 {alignDrift && <Check size={14} className="text-black" />}
+                              </div>
+                              <input
+                                 type="checkbox"
+                                 className="hidden"
+                                 checked={alignDrift}
+                                 onChange={(e) => track('alignDrift', 'Correct clock drift', setAlignDrift, alignDrift, e.target.checked)}
+                              />
+                              <span className="text-sm text-gray-300 group-hover:text-white" title="For long recordings on separate devices whose clocks run at slightly different speeds">Correct clock drift</span>
+                           </label>
+                        )}
+                     </div>
+                  </>
                )}
             </div>
 
+            {/* Metadata carried over from the upload */}
+            {metadata && (
+               <div className="bg-white/5 p-4 rounded-xl border border-white/5 space-y-3">
+                  <div>
+                     <p className="text-xs text-gray-500 uppercase tracking-wider font-semibold">Metadata</p>
+                     <p className="text-xs text-gray-500 mt-1">
+                        {hasMetadata(metadata) ? 'Found in the file and written back into the export.' : 'No tags in this file. Anything entered here is written into the export.'}
+                     </p>
+                  </div>
+                  <MetadataEditor metadata={metadata} onChange={setMetadata} />
+               </div>
+            )}
+
             {/* Config Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               
@@ -907,7 +2610,7 @@ export default function App() {
                     <h3 className="font-bold text-lg">Silence Remover</h3>
                   </div>
                   <button 
-                    onClick={() => setSilenceEnabled(!silenceEnabled)}
+                    onClick={() => track('silenceEnabled', 'Silence remover', setSilenceEnabled, silenceEnabled, !silenceEnabled)}
                     className={`w-12 h-6 rounded-full transition-colors relative ${silenceEnabled ? 'bg-brand-500' : 'bg-gray-700'}`}
                   >
                     <div className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${silenceEnabled ? 'translate-x-6' : 'translate-x-0'}`} />
@@ -917,26 +2620,58 @@ export default function App() {
                 {/* Panel Body */}
                 <div className={`p-5 space-y-6 flex-1 transition-all ${silenceEnabled ? 'opacity-100' : 'opacity-30 pointer-events-none'}`}>
                   
-                  {/* Option 1: Ratio Buttons (Preserved Core Function) */}
+                  {/* Option 1: Ratio Buttons (Preserved Core Function) or Target Pause Lengths */}
                   <div className="space-y-2">
-                    <div className="text-sm text-gray-400 flex items-center gap-2">
-                        <Sliders size={14} />
-                        <span>Aggressiveness (Amount Removed)</span>
+                    <div className="flex items-center justify-between">
+                      <div className="text-sm text-gray-400 flex items-center gap-2">
+                          <Sliders size={14} />
+                          <span>{pauseMode === 'ratio' ? 'Aggressiveness (Amount Removed)' : 'Target Pause Length'}</span>
+                      </div>
+                      <div className="flex bg-black/30 rounded-lg p-0.5 text-[10px] font-bold">
+                        <button onClick={() => track('pauseMode', 'Pause mode', setPauseMode, pauseMode, 'ratio')} className={`px-2 py-1 rounded-md transition-all ${pauseMode === 'ratio' ? 'bg-brand-500 text-black' : 'text-gray-400 hover:text-white'}`}>RATIO</button>
+                        <button onClick={() => track('pauseMode', 'Pause mode', setPauseMode, pauseMode, 'target')} className={`px-2 py-1 rounded-md transition-all ${pauseMode === 'target' ? 'bg-brand-500 text-black' : 'text-gray-400 hover:text-white'}`}>TARGET</button>
+                      </div>
                     </div>
+                    {pauseMode === 'ratio' ? (
                     <div className="grid grid-cols-3 gap-3">
-                        <button onClick={() => setMode(0.7)} className={`flex flex-col items-center justify-center p-3 rounded-xl border transition-all ${mode === 0.7 ? 'bg-brand-500 text-black border-brand-500' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>
+                        <button onClick={() => track('mode', 'Amount removed', setMode, mode, 0.7)} className={`flex flex-col items-center justify-center p-3 rounded-xl border transition-all ${mode === 0.7 ? 'bg-brand-500 text-black border-brand-500' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>
                         <span className="font-bold text-lg">70%</span>
                         <span className="text-[10px] opacity-75">Balanced</span>
                         </button>
-                        <button onClick={() => setMode(0.8)} className={`flex flex-col items-center justify-center p-3 rounded-xl border transition-all ${mode === 0.8 ? 'bg-brand-500 text-black border-brand-500' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>
+                        <button onClick={() => track('mode', 'Amount removed', setMode, mode, 0.8)} className={`flex flex-col items-center justify-center p-3 rounded-xl border transition-all ${mode === 0.8 ? 'bg-brand-500 text-black border-brand-500' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>
                         <span className="font-bold text-lg">80%</span>
                         <span className="text-[10px] opacity-75">Fast</span>
                         </button>
-                        <button onClick={() => setMode(1.0)} className={`flex flex-col items-center justify-center p-3 rounded-xl border transition-all ${mode === 1.0 ? 'bg-brand-500 text-black border-brand-500' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>
+                        <button onClick={() => track('mode', 'Amount removed', setMode, mode, 1.0)} className={`flex flex-col items-center justify-center p-3 rounded-xl border transition-all ${mode === 1.0 ? 'bg-brand-500 text-black border-brand-500' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>
                         <Flame size={16} className="mb-1" />
                         <span className="text-[10px] font-bold">MAX</span>
                         </button>
                     </div>
+                    ) : (
+                    <div className="space-y-2 text-xs text-gray-400">
+                      {([
+                        ['Short pauses up to', shortPauseMs, setShortPauseMs, 100, 2000],
+                        ['Long pauses up to', longPauseMs, setLongPauseMs, 100, 4000],
+                        ['Long pause starts at', longPauseThresholdMs, setLongPauseThresholdMs, 500, 5000],
+                        ['Lengthen pauses below', minPauseMs, setMinPauseMs, 0, 1000],
+                      ] as [string, number, (v: number) => void, number, number][]).map(([label, value, setValue, min, max]) => (
+                        <label key={label} className="flex items-center justify-between gap-3">
+                          <span className="w-36 shrink-0">{label}</span>
+                          <input 
+                            type="range" 
+                            min={min} 
+                            max={max} 
+                            step="50" 
+                            value={value}
+                            onChange={(e) => track(label, label, setValue, value, Number(e.target.value))}
+                            className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                          />
+                          <span className="w-14 text-right text-brand-400 font-mono">{value === 0 ? 'Off' : `${value}ms`}</span>
+                        </label>
+                      ))}
+                      <p className="text-gray-500">Rushed gaps are padded with room tone from the longest silence in the file.</p>
+                    </div>
+                    )}
                   </div>
 
                   {/* Option 2: New Visual Threshold Slider */}
@@ -946,7 +2681,17 @@ export default function App() {
                            <Volume2 size={14} />
                            <span>Sensitivity Threshold</span>
                         </div>
-                        <span className="text-brand-400 font-mono">{thresholdDb}dB</span>
+                        <div className="flex items-center gap-2">
+                           <button
+                              onClick={() => trackThreshold('autoThreshold', 'Auto threshold', autoThreshold || !levelAnalysis ? thresholdDb : levelAnalysis.suggestedThresholdDb, !autoThreshold)}
+                              disabled={!levelAnalysis}
+                              className={`px-2 py-0.5 rounded-md text-[10px] font-bold border transition-all disabled:opacity-40 ${autoThreshold ? 'bg-brand-500 text-black border-brand-500' : 'border-white/20 text-gray-400 hover:text-white'}`}
+                              title="Calibrate from the file's noise floor and speech levels"
+                           >
+                              AUTO
+                           </button>
+                           <span className="text-brand-400 font-mono">{thresholdDb}dB</span>
+                        </div>
                      </div>
                      <input 
                         type="range" 
@@ -954,7 +2699,7 @@ export default function App() {
                         max="-10" 
                         step="1" 
                         value={thresholdDb}
-                        onChange={(e) => setThresholdDb(Number(e.target.value))}
+                        onChange={(e) => trackThreshold('thresholdDb', 'Threshold', Number(e.target.value), false)}
                         className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
                      />
                      <p className="text-xs text-gray-500">
@@ -962,6 +2707,118 @@ export default function App() {
                      </p>
                   </div>
 
+                  {/* Option 3: Detection Method */}
+                  <div className="space-y-3 pt-4 border-t border-white/10">
+                     <div className="text-sm text-gray-400 flex items-center gap-2">
+                        <Activity size={14} />
+                        <span>Detection Method</span>
+                     </div>
+                     <div className="grid grid-cols-4 gap-2">
+                        {(Object.keys(DETECTORS) as DetectorMode[]).map(m => (
+                          <button 
+                            key={m}
+                            onClick={() => track('detectorMode', 'Detection method', setDetectorMode, detectorMode, m)} 
+                            className={`p-2 rounded-lg border text-xs font-bold transition-all ${detectorMode === m ? 'bg-brand-500 text-black border-brand-500' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                          >
+                            {DETECTORS[m].label}
+                          </button>
+                        ))}
+                     </div>
+                     <div className="grid grid-cols-2 gap-4 text-xs text-gray-400">
+                        <label className="flex items-center justify-between gap-2">
+                           <span>Hop Size</span>
+                           <select
+                              value={hopSize}
+                              onChange={(e) => track('hopSize', 'Hop size', setHopSize, hopSize, Number(e.target.value))}
+                              className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white"
+                           >
+                              {[256, 512, 1024, 2048, 4096].map(h => <option key={h} value={h}>{h}</option>)}
+                           </select>
+                        </label>
+                        <label className="flex items-center justify-between gap-2">
+                           <span>Hold <span className="text-brand-400 font-mono">{holdMs}ms</span></span>
+                           <input 
+                              type="range" 
+                              min="0" 
+                              max="500" 
+                              step="10" 
+                              value={holdMs}
+                              onChange={(e) => track('holdMs', 'Hold time', setHoldMs, holdMs, Number(e.target.value))}
+                              className="w-24 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                           />
+                        </label>
+                     </div>
+                     <p className="text-xs text-gray-500">
+                        RMS and Hysteresis ignore clicks and noisy floors. Voice listens for speech only.
+                     </p>
+                  </div>
+
+                  {/* Option 4: Splice Smoothing */}
+                  <div className="space-y-3 pt-4 border-t border-white/10">
+                     <div className="flex justify-between items-center text-sm">
+                        <div className="flex items-center gap-2 text-gray-400">
+                           <Waves size={14} />
+                           <span>Crossfade at Cuts</span>
+                        </div>
+                        <span className="text-brand-400 font-mono">{crossfadeMs === 0 ? 'Off' : `${crossfadeMs}ms`}</span>
+                     </div>
+                     <input 
+                        type="range" 
+                        min="0" 
+                        max="50" 
+                        step="1" 
+                        value={crossfadeMs}
+                        onChange={(e) => track('crossfadeMs', 'Crossfade', setCrossfadeMs, crossfadeMs, Number(e.target.value))}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                     />
+                     <label className="flex items-center gap-3 cursor-pointer group">
+                        <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${snapZeroCrossings ? 'bg-brand-500 border-brand-500' : 'border-gray-500 group-hover:border-gray-400'}`}>
+                           {snapZeroCrossings && <Check size={14} className="text-black" />}
+                        </div>
+                        <input 
+                           type="checkbox" 
+                           className="hidden" 
+                           checked={snapZeroCrossings}
+                           onChange={(e) => track('snapZeroCrossings', 'Zero-crossing snap', setSnapZeroCrossings, snapZeroCrossings, e.target.checked)}
+                        />
+                        <span className="text-sm text-gray-300 group-hover:text-white">Snap cuts to zero crossings</span>
+                     </label>
+                  </div>
+
+                  {/* Option 5: Breaths */}
+                  <div className="space-y-3 pt-4 border-t border-white/10">
+                     <div className="flex justify-between items-center text-sm">
+                        <div className="flex items-center gap-2 text-gray-400">
+                           <Wind size={14} />
+                           <span>Breaths</span>
+                        </div>
+                        <select
+                           value={breathMode}
+                           onChange={(e) => track('breathMode', 'Breaths', setBreathMode, breathMode, e.target.value as BreathMode)}
+                           className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-white"
+                        >
+                           {BREATH_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                        </select>
+                     </div>
+                     {breathMode === 'attenuate' && (
+                        <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                           <span>Reduce by <span className="text-brand-400 font-mono">{breathReductionDb}dB</span></span>
+                           <input 
+                              type="range" 
+                              min="3" 
+                              max="30" 
+                              step="1" 
+                              value={breathReductionDb}
+                              onChange={(e) => track('breathReductionDb', 'Breath reduction', setBreathReductionDb, breathReductionDb, Number(e.target.value))}
+                              className="w-32 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                           />
+                        </label>
+                     )}
+                     <p className="text-xs text-gray-500">
+                        Finds short, quiet, noisy sounds between phrases. Breaths show in blue on the waveform.
+                     </p>
+                  </div>
+
                 </div>
               </div>
 
@@ -976,7 +2833,7 @@ export default function App() {
                     <h3 className="font-bold text-lg">Voice Enhancer</h3>
                   </div>
                   <button 
-                    onClick={() => setEnhanceEnabled(!enhanceEnabled)}
+                    onClick={() => track('enhanceEnabled', 'Voice enhancer', setEnhanceEnabled, enhanceEnabled, !enhanceEnabled)}
                     className={`w-12 h-6 rounded-full transition-colors relative ${enhanceEnabled ? 'bg-blue-500' : 'bg-gray-700'}`}
                   >
                     <div className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${enhanceEnabled ? 'translate-x-6' : 'translate-x-0'}`} />
@@ -988,7 +2845,7 @@ export default function App() {
                    <div className="flex items-start justify-between mb-4">
                      <div className="space-y-1">
                         <span className="text-xs uppercase tracking-wider text-blue-400 font-bold">Adobe Podcast Style</span>
-                        <h4 className="text-white font-medium">Balanced Studio Voice</h4>
+                        <h4 className="text-white font-medium">{enhanceChain.name}</h4>
                      </div>
                      <Sparkles className="text-blue-400" size={20} />
                    </div>
@@ -1001,10 +2858,83 @@ export default function App() {
                        </div>
                        <div className="flex items-center gap-3 text-sm text-gray-400">
                           <div className="w-1.5 h-1.5 rounded-full bg-blue-500"></div>
-                          <span>Triple De-Esser (Kills SSS/SHH/ZZZ)</span>
+                          <span>{enhanceChain.deEsser ? 'Dynamic De-Esser (Only Ducks SSS/SHH/ZZZ)' : enhanceChain.deEss.length > 0 ? 'Static De-Ess Notches' : 'No De-Essing'}</span>
                        </div>
                      </div>
 
+                     <div className="pt-3 border-t border-white/10 space-y-2">
+                        <div className="flex items-center gap-2">
+                           <select
+                              value={selectedPreset}
+                              onChange={(e) => handlePresetSelect(e.target.value)}
+                              className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-white"
+                           >
+                              {BUILT_IN_PRESETS.map((p, i) => <option key={`builtin-${i}`} value={`builtin-${i}`}>{p.name}</option>)}
+                              {userPresets.map((p, i) => <option key={`user-${i}`} value={`user-${i}`}>{p.name} (saved)</option>)}
+                              {selectedPreset === 'custom' && <option value="custom">{enhanceChain.name} (edited)</option>}
+                           </select>
+                           <button
+                              onClick={() => setChainEditorOpen(!chainEditorOpen)}
+                              className={`p-1.5 rounded-lg border transition-colors ${chainEditorOpen ? 'bg-blue-500 text-white border-blue-500' : 'border-white/10 text-gray-400 hover:text-white hover:bg-white/10'}`}
+                              title="Edit the filter chain"
+                           >
+                              <Sliders size={14} />
+                           </button>
+                           <button
+                              onClick={handlePresetSave}
+                              className="p-1.5 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/10"
+                              title="Save as a preset"
+                           >
+                              <Save size={14} />
+                           </button>
+                           <button
+                              onClick={handlePresetExport}
+                              className="p-1.5 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/10"
+                              title="Export as JSON"
+                           >
+                              <Download size={14} />
+                           </button>
+                           <button
+                              onClick={() => presetInputRef.current?.click()}
+                              className="p-1.5 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/10"
+                              title="Import a JSON preset"
+                           >
+                              <Upload size={14} />
+                           </button>
+                           {selectedPreset.startsWith('user-') && (
+                              <button
+                                 onClick={handlePresetDelete}
+                                 className="p-1.5 rounded-lg border border-white/10 text-gray-400 hover:text-red-400 hover:bg-white/10"
+                                 title="Delete this preset"
+                              >
+                                 <Trash2 size={14} />
+                              </button>
+                           )}
+                           <input
+                              ref={presetInputRef}
+                              type="file"
+                              accept="application/json,.json"
+                              className="hidden"
+                              onChange={handlePresetImport}
+                           />
+                        </div>
+                        {chainEditorOpen && (
+                           <>
+                              <input
+                                 type="text"
+                                 value={enhanceChain.name}
+                                 onChange={(e) => track('enhanceChain', 'Enhance chain', setEnhanceChain, enhanceChain, { ...enhanceChain, name: e.target.value })}
+                                 className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-white"
+                                 placeholder="Preset name"
+                              />
+                              <ChainEditor
+                                 chain={enhanceChain}
+                                 onChange={(chain) => track('enhanceChain', 'Enhance chain', setEnhanceChain, enhanceChain, chain)}
+                              />
+                           </>
+                        )}
+                     </div>
+
                      <div className="pt-3 border-t border-white/10">
                         <label className="flex items-center gap-3 cursor-pointer group">
                            <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${aggressiveRemoval ? 'bg-blue-500 border-blue-500' : 'border-gray-500 group-hover:border-gray-400'}`}>
@@ -1014,13 +2944,137 @@ export default function App() {
                               type="checkbox" 
                               className="hidden" 
                               checked={aggressiveRemoval}
-                              onChange={(e) => setAggressiveRemoval(e.target.checked)}
+                              onChange={(e) => track('aggressiveRemoval', 'Aggressive background removal', setAggressiveRemoval, aggressiveRemoval, e.target.checked)}
                            />
                            <div>
                               <span className="block text-sm font-bold text-gray-300 group-hover:text-white">Aggressive Background Removal</span>
-                              <span className="block text-xs text-gray-500">Cuts background voices but might sound drier.</span>
+                              <span className="block text-xs text-gray-500">Gates background voices and noise much harder. Pair with the Noisy Room profile to also trim rumble and hiss.</span>
+                           </div>
+                        </label>
+                     </div>
+
+                     <div className="pt-3 border-t border-white/10">
+                        <label className="flex items-center gap-3 cursor-pointer group">
+                           <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${removeHum ? 'bg-blue-500 border-blue-500' : 'border-gray-500 group-hover:border-gray-400'}`}>
+                              {removeHum && <Check size={14} className="text-white" />}
+                           </div>
+                           <input 
+                              type="checkbox" 
+                              className="hidden" 
+                              checked={removeHum}
+                              onChange={(e) => track('removeHum', 'Hum removal', setRemoveHum, removeHum, e.target.checked)}
+                           />
+                           <div>
+                              <span className="flex items-center gap-2 text-sm font-bold text-gray-300 group-hover:text-white">
+                                 <AudioWaveform size={14} />
+                                 Mains Hum Removal
+                              </span>
+                              <span className="block text-xs text-gray-500">
+                                 {!humAnalysis
+                                    ? 'Finds 50/60 Hz hum and its harmonics, and notches them out.'
+                                    : humAnalysis.hum
+                                       ? `Found ${humAnalysis.hum.fundamental.toFixed(1)} Hz hum with ${humAnalysis.hum.harmonics.length} harmonics in this file.`
+                                       : 'No hum found in this file, so nothing would be removed.'}
+                              </span>
+                           </div>
+                        </label>
+                     </div>
+
+                     <div className="pt-3 border-t border-white/10 space-y-2">
+                        <label className="flex items-center gap-3 cursor-pointer group">
+                           <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${noiseReductionEnabled ? 'bg-blue-500 border-blue-500' : 'border-gray-500 group-hover:border-gray-400'}`}>
+                              {noiseReductionEnabled && <Check size={14} className="text-white" />}
+                           </div>
+                           <input 
+                              type="checkbox" 
+                              className="hidden" 
+                              checked={noiseReductionEnabled}
+                              onChange={(e) => track('noiseReductionEnabled', 'Noise reduction', setNoiseReductionEnabled, noiseReductionEnabled, e.target.checked)}
+                           />
+                           <div>
+                              <span className="flex items-center gap-2 text-sm font-bold text-gray-300 group-hover:text-white">
+                                 <Eraser size={14} />
+                                 Spectral Noise Reduction
+                              </span>
+                              <span className="block text-xs text-gray-500">
+                                 {longMode
+                                    ? 'Needs the whole file, so it is skipped in long recording mode.'
+                                    : 'Learns the background hiss and hum, then removes it under the speech too.'}
+                              </span>
                            </div>
                         </label>
+                        {noiseReductionEnabled && (
+                           <div className="space-y-2 pl-8">
+                              <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                                 <span>Noise profile</span>
+                                 <select
+                                    value={noiseProfileSource}
+                                    onChange={(e) => track('noiseProfileSource', 'Noise profile', setNoiseProfileSource, noiseProfileSource, e.target.value as 'auto' | 'selection')}
+                                    className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-white"
+                                 >
+                                    <option value="auto">Quietest sections</option>
+                                    <option value="selection">Selected region</option>
+                                 </select>
+                              </label>
+                              {noiseProfileSource === 'selection' && (
+                                 <p className="text-xs text-gray-500">
+                                    {noiseSelection && originalBuffer
+                                       ? `Learning from ${formatTime(noiseSelection[0] / originalBuffer.sampleRate)}–${formatTime(noiseSelection[1] / originalBuffer.sampleRate)}.`
+                                       : 'Select a noise-only stretch on the waveform preview. Until then the quietest sections are used.'}
+                                 </p>
+                              )}
+                              <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                                 <span>Reduce by <span className="text-blue-400 font-mono">{noiseReductionDb}dB</span></span>
+                                 <input 
+                                    type="range" 
+                                    min="3" 
+                                    max="30" 
+                                    step="1" 
+                                    value={noiseReductionDb}
+                                    onChange={(e) => track('noiseReductionDb', 'Noise reduction amount', setNoiseReductionDb, noiseReductionDb, Number(e.target.value))}
+                                    className="w-32 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                 />
+                              </label>
+                              <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                                 <span title="Smooths the reduction over time and frequency to avoid watery, warbling artifacts">Smoothing <span className="text-blue-400 font-mono">{noiseSmoothing}%</span></span>
+                                 <input 
+                                    type="range" 
+                                    min="0" 
+                                    max="100" 
+                                    step="5" 
+                                    value={noiseSmoothing}
+                                    onChange={(e) => track('noiseSmoothing', 'Noise reduction smoothing', setNoiseSmoothing, noiseSmoothing, Number(e.target.value))}
+                                    className="w-32 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                 />
+                              </label>
+                           </div>
+                        )}
+                     </div>
+
+                     <div className="pt-3 border-t border-white/10 space-y-2">
+                        <label className="flex items-center justify-between gap-2 text-sm">
+                           <span className="flex items-center gap-2 text-gray-400">
+                              <Volume2 size={14} />
+                              Loudness
+                           </span>
+                           <select
+                              value={loudnessPreset}
+                              onChange={(e) => track('loudnessPreset', 'Loudness target', setLoudnessPreset, loudnessPreset, e.target.value as LoudnessPreset | 'off')}
+                              className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-white"
+                           >
+                              {(Object.keys(LOUDNESS_PRESETS) as LoudnessPreset[]).map(p => (
+                                 <option key={p} value={p}>{LOUDNESS_PRESETS[p].label} ({LOUDNESS_PRESETS[p].target.integrated} LUFS)</option>
+                              ))}
+                              <option value="off">Off</option>
+                           </select>
+                        </label>
+                        <p className="text-xs text-gray-500">
+                           {longMode
+                              ? 'Needs the whole file, so it is skipped in long recording mode.'
+                              : loudnessPreset === 'off'
+                                 ? 'Output level is left as the compressor made it.'
+                                 : `Peaks are held under ${LOUDNESS_PRESETS[loudnessPreset].target.truePeak} dBTP by a true-peak limiter.`}
+                        </p>
                      </div>
                    </div>
                  </div>
@@ -1028,6 +3082,13 @@ export default function App() {
 
             </div>
 
+            {errorMsg && (
+              <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 flex items-start gap-3">
+                <AlertTriangle className="text-red-500 shrink-0 mt-0.5" size={20} />
+                <p className="text-sm text-red-200/90">{errorMsg}</p>
+              </div>
+            )}
+
             {/* Action Area */}
             <button
               onClick={handleProcess}
@@ -1044,7 +3105,7 @@ export default function App() {
         )}
 
         {/* Processing State */}
-        {(status === 'decoding' || status === 'processing' || status === 'enhancing') && (
+        {(status === 'decoding' || status === 'aligning' || status === 'processing' || status === 'enhancing' || status === 'encoding') && (
           <div className="py-12 flex flex-col items-center justify-center space-y-6">
             <div className="relative w-24 h-24">
               <div className="absolute inset-0 border-4 border-white/10 rounded-full"></div>
@@ -1057,13 +3118,31 @@ export default function App() {
             <div className="text-center">
               <h3 className="text-xl font-bold flex items-center justify-center gap-2">
                 {status === 'decoding' && 'Importing Audio...'}
+                {status === 'aligning' && 'Aligning Tracks...'}
                 {status === 'processing' && 'Eliminating Silence...'}
                 {status === 'enhancing' && 'Enhancing Audio...'}
+                {status === 'encoding' && 'Preparing Preview...'}
               </h3>
-              {progress > 0 && status === 'processing' && (
-                <p className="text-brand-400 font-mono mt-1">{progress}%</p>
-              )}
             </div>
+            <div className="w-full max-w-md space-y-2">
+              <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-[width] duration-200 ${status === 'enhancing' ? 'bg-blue-500' : 'bg-brand-500'}`}
+                  style={{ width: `${progress}%` }}
+                />
+              </div>
+              <div className="flex justify-between text-xs font-mono text-gray-400">
+                <span>{progress}%</span>
+                <span>{etaSeconds !== null ? formatEta(etaSeconds) : 'Estimating...'}</span>
+              </div>
+            </div>
+            <button
+              onClick={handleCancel}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-gray-300 hover:text-white hover:bg-white/10 transition-colors text-sm"
+            >
+              <X size={16} />
+              Cancel
+            </button>
           </div>
         )}
 
@@ -1102,27 +3181,65 @@ export default function App() {
             </div>
 
             {/* Visualizer Section */}
+            {!processedBuffer ? (
+              <div className="bg-black/20 rounded-2xl p-6 border border-white/5 flex items-start gap-3 text-sm text-gray-400">
+                 <Layers className="text-gray-500 shrink-0 mt-0.5" size={20} />
+                 <p>Processed in long recording mode. Waveforms and region editing are not available; exports and cut lists use the detected regions.</p>
+              </div>
+            ) : (
             <div className="bg-black/20 rounded-2xl p-6 border border-white/5 space-y-2">
+               <div className="flex justify-end">
+                 <HistoryControls history={history} onUndo={handleUndo} onRedo={handleRedo} />
+               </div>
                <div>
                  <WaveformVisualizer 
                    buffer={originalBuffer} 
                    regions={silenceRegions}
-                   label="Original (Red areas removed)"
+                   label={silenceEnabled ? (processedTracks.length > 1 ? 'Track 1 · ' : '') + 'Original (Red areas removed) · Click red to keep, drag edges to adjust, drag to cut' : 'Original'}
                    color="#555"
+                   onRegionsChange={silenceEnabled ? handleRegionsEdit : undefined}
                  />
+                 {regionsDirty && (
+                   <div className="flex items-center justify-between gap-3 -mt-3 mb-6 bg-brand-500/10 border border-brand-500/20 rounded-xl px-4 py-2">
+                     <span className="text-sm text-brand-300">
+                       {isRendering
+                         ? `Applying edits... ${progress}% · ${etaSeconds !== null ? formatEta(etaSeconds) : 'Estimating...'}`
+                         : 'Regions edited. Apply to rebuild the result.'}
+                     </span>
+                     {isRendering ? (
+                       <button
+                         onClick={handleCancel}
+                         className="flex items-center gap-2 px-4 py-1.5 rounded-lg bg-white/5 border border-white/10 text-gray-300 hover:text-white hover:bg-white/10 transition-colors text-sm"
+                       >
+                         <X size={14} />
+                         Cancel
+                       </button>
+                     ) : (
+                       <button
+                         onClick={handleApplyEdits}
+                         className="flex items-center gap-2 px-4 py-1.5 rounded-lg bg-brand-500 text-black text-sm font-bold hover:bg-brand-400 transition-all"
+                       >
+                         <RefreshCw size={14} />
+                         Apply Edits
+                       </button>
+                     )}
+                   </div>
+                 )}
                </div>
                <div>
                   <WaveformVisualizer 
                    buffer={processedBuffer} 
-                   label="Final Result"
+                   label="Final Result (Yellow lines mark cuts)"
                    color={enhanceEnabled ? '#3b82f6' : '#22c55e'}
+                   markers={timeMap?.splicePoints}
                  />
                </div>
             </div>
+            )}
 
             {/* Audio Player */}
             <div className="bg-white/5 rounded-2xl p-6 border border-white/5">
-              <audio ref={audioRef} onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)} onEnded={() => setIsPlaying(false)} className="hidden" />
+              <audio ref={audioRef} onTimeUpdate={(e) => { if (!isComparingRef.current) setCurrentTime(e.currentTarget.currentTime); }} onEnded={() => setIsPlaying(false)} className="hidden" />
               
               <div className="flex items-center gap-4">
                 <button 
@@ -1167,29 +3284,233 @@ export default function App() {
             {/* Export & Reset */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                {/* Format Toggle */}
-               <div className="flex bg-white/5 rounded-xl p-1 border border-white/10 h-14 col-span-1">
-                  <button 
-                    onClick={() => handleFormatChange('wav')}
-                    className={`flex-1 rounded-lg text-sm font-bold transition-all ${exportFormat === 'wav' ? 'bg-white text-black shadow-sm' : 'text-gray-400 hover:text-white'}`}
-                  >
-                    WAV
-                  </button>
-                  <button 
-                    onClick={() => handleFormatChange('mp3')}
-                    className={`flex-1 rounded-lg text-sm font-bold transition-all ${exportFormat === 'mp3' ? 'bg-white text-black shadow-sm' : 'text-gray-400 hover:text-white'}`}
-                  >
-                    MP3
-                  </button>
+               <div className="flex bg-white/5 rounded-xl p-1 border border-white/10 h-14 col-span-1 overflow-x-auto">
+                  {EXPORT_FORMATS.map(f => {
+                    const unsupported = isWebCodecsFormat(f.id) && unsupportedFormats.includes(f.id) ? getUnsupportedCodecMessage(f.id) : null;
+                    return (
+                      <button 
+                        key={f.id}
+                        onClick={() => handleFormatChange(f.id)}
+                        className={`flex-1 px-2 rounded-lg text-sm font-bold transition-all whitespace-nowrap ${exportFormat === f.id ? 'bg-white text-black shadow-sm' : 'text-gray-400 hover:text-white'} ${unsupported ? 'opacity-40' : ''}`}
+                        title={f.timeline ? 'Cut list for video editors' : unsupported ?? undefined}
+                      >
+                        {f.label}
+                      </button>
+                    );
+                  })}
                </div>
 
                <a 
                 href={downloadUrl || '#'} 
-                download={`processed_audio.${exportFormat}`}
+                download={`processed_audio.${getExportFormat(exportFormat).extension}`}
                 className={`flex items-center justify-center gap-2 bg-white text-black font-bold h-14 rounded-xl hover:bg-gray-200 transition-all ${isEncoding ? 'opacity-75 pointer-events-none' : ''}`}
               >
                 {isEncoding ? <Loader2 size={20} className="animate-spin" /> : <Download size={20} />}
                 Download Current
               </a>
+
+              {processedTracks.length > 1 && (
+                <button
+                  onClick={handleDownloadStems}
+                  disabled={isEncoding}
+                  className="col-span-1 md:col-span-2 flex items-center justify-center gap-2 bg-white/5 text-gray-300 hover:text-white font-bold h-14 rounded-xl hover:bg-white/10 transition-all border border-white/10 disabled:opacity-60"
+                >
+                  <Layers size={20} />
+                  Download {processedTracks.length} Stems ({getExportFormat(isAudioFormat(exportFormat) ? exportFormat : 'wav').label})
+                </button>
+              )}
+
+              {alignments.length > 1 && processedBuffer && (
+                <div className="col-span-1 md:col-span-2 bg-white/5 rounded-xl p-3 border border-white/10 text-xs text-gray-400 space-y-1 font-mono">
+                  {alignments.slice(1).map((a, i) => (
+                    <div key={i} className={a.confidence < 0.2 ? 'text-yellow-400' : undefined}>
+                      Track {i + 2} started {(Math.abs(a.offset) / processedBuffer.sampleRate).toFixed(3)}s {a.offset >= 0 ? 'earlier' : 'later'}
+                      {a.drift !== 0 && ` · drift ${(a.drift * 1e6).toFixed(1)} ppm`}
+                      {` · match ${Math.round(a.confidence * 100)}%`}
+                      {a.confidence < 0.2 && ' · check this track by ear'}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {loudnessReport && (
+                <div className="col-span-1 md:col-span-2 bg-white/5 rounded-xl p-3 border border-white/10 text-xs text-gray-400 font-mono grid grid-cols-3 gap-2">
+                  <div>Integrated {formatLoudness(loudnessReport.before.integrated, 'LUFS')} → <span className="text-white">{formatLoudness(loudnessReport.after.integrated, 'LUFS')}</span></div>
+                  <div>Range {formatLoudness(loudnessReport.before.range, 'LU')} → <span className="text-white">{formatLoudness(loudnessReport.after.range, 'LU')}</span></div>
+                  <div>True peak {formatLoudness(loudnessReport.before.truePeak, 'dBTP')} → <span className="text-white">{formatLoudness(loudnessReport.after.truePeak, 'dBTP')}</span></div>
+                </div>
+              )}
+
+              {errorMsg && (
+                <div className="col-span-1 md:col-span-2 bg-red-500/10 border border-red-500/30 rounded-xl p-4 flex items-start gap-3">
+                  <AlertTriangle className="text-red-500 shrink-0 mt-0.5" size={20} />
+                  <p className="text-sm text-red-200/90">{errorMsg}</p>
+                </div>
+              )}
+
+              {/* WAV Options */}
+              {exportFormat === 'wav' && (
+                <div className="col-span-1 md:col-span-2 flex flex-wrap items-center gap-4 bg-white/5 rounded-xl p-3 border border-white/10 text-sm">
+                  <label className="flex items-center gap-2 text-gray-400">
+                    <span>Bit Depth</span>
+                    <select
+                      value={wavOptions.bitDepth}
+                      onChange={(e) => handleWavOptionsChange({ bitDepth: Number(e.target.value) as WavBitDepth })}
+                      className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white"
+                    >
+                      {WAV_BIT_DEPTHS.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-gray-400">
+                    <span>Sample Rate</span>
+                    <select
+                      value={wavOptions.sampleRate ?? ''}
+                      onChange={(e) => handleWavOptionsChange({ sampleRate: e.target.value ? Number(e.target.value) : null })}
+                      className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white"
+                    >
+                      <option value="">As source</option>
+                      {WAV_SAMPLE_RATES.map(r => <option key={r} value={r}>{(r / 1000).toString()} kHz</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-gray-400">
+                    <span>Channels</span>
+                    <select
+                      value={wavOptions.channels}
+                      onChange={(e) => handleWavOptionsChange({ channels: e.target.value as ChannelLayout })}
+                      className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white"
+                    >
+                      {CHANNEL_LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                    </select>
+                  </label>
+                  {wavOptions.bitDepth !== 32 && (
+                    <label className="flex items-center gap-2 cursor-pointer group text-gray-400" title="Adds a trace of noise that hides the distortion of rounding to fewer bits">
+                      <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${wavOptions.dither ? 'bg-brand-500 border-brand-500' : 'border-gray-500 group-hover:border-gray-400'}`}>
+                        {wavOptions.dither && <Check size={10} className="text-black" />}
+                      </div>
+                      <input
+                        type="checkbox"
+                        className="hidden"
+                        checked={!!wavOptions.dither}
+                        onChange={(e) => handleWavOptionsChange({ dither: e.target.checked })}
+                      />
+                      <span className="group-hover:text-white">Dither</span>
+                    </label>
+                  )}
+                </div>
+              )}
+
+              {/* FLAC Options */}
+              {exportFormat === 'flac' && (
+                <div className="col-span-1 md:col-span-2 flex flex-wrap items-center gap-4 bg-white/5 rounded-xl p-3 border border-white/10 text-sm">
+                  <label className="flex items-center gap-2 text-gray-400">
+                    <span>Bit Depth</span>
+                    <select
+                      value={flacOptions.bitDepth}
+                      onChange={(e) => handleFlacOptionsChange({ bitDepth: Number(e.target.value) as FlacBitDepth })}
+                      className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white"
+                    >
+                      {FLAC_BIT_DEPTHS.map(d => <option key={d} value={d}>{d}-bit</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-gray-400">
+                    <span>Channels</span>
+                    <select
+                      value={flacOptions.channels}
+                      onChange={(e) => handleFlacOptionsChange({ channels: e.target.value as ChannelLayout })}
+                      className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white"
+                    >
+                      {CHANNEL_LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer group text-gray-400" title="Adds a trace of noise that hides the distortion of rounding to fewer bits">
+                    <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${flacOptions.dither ? 'bg-brand-500 border-brand-500' : 'border-gray-500 group-hover:border-gray-400'}`}>
+                      {flacOptions.dither && <Check size={10} className="text-black" />}
+                    </div>
+                    <input
+                      type="checkbox"
+                      className="hidden"
+                      checked={!!flacOptions.dither}
+                      onChange={(e) => handleFlacOptionsChange({ dither: e.target.checked })}
+                    />
+                    <span className="group-hover:text-white">Dither</span>
+                  </label>
+                </div>
+              )}
+
+              {/* MP3 Options */}
+              {exportFormat === 'mp3' && (
+                <div className="col-span-1 md:col-span-2 flex flex-wrap items-center justify-between gap-4 bg-white/5 rounded-xl p-3 border border-white/10 text-sm">
+                  <span className="text-gray-400">
+                    {mp3Options.mode === 'vbr' ? `VBR V${mp3Options.quality ?? 4}` : `${mp3Options.bitrate ?? 128} kbps CBR`}
+                    {mp3Options.channels === 'mono' && ' · Mono'}
+                    {metadata?.title?.trim() ? ` · “${metadata.title.trim()}”` : ' · No tags'}
+                  </span>
+                  <button
+                    onClick={() => setMp3DialogOpen(true)}
+                    className="flex items-center gap-2 px-3 py-1 rounded-lg border border-white/10 text-gray-300 hover:text-white hover:bg-white/10"
+                  >
+                    <Sliders size={14} />
+                    Settings & Tags
+                  </button>
+                </div>
+              )}
+              {mp3DialogOpen && (
+                <Mp3ExportDialog options={mp3Options} onApply={handleMp3OptionsApply} onClose={() => setMp3DialogOpen(false)} />
+              )}
+
+              {/* AAC / Opus Options */}
+              {isWebCodecsFormat(exportFormat) && (
+                <div className="col-span-1 md:col-span-2 flex flex-wrap items-center gap-4 bg-white/5 rounded-xl p-3 border border-white/10 text-sm">
+                  <label className="flex items-center gap-2 text-gray-400">
+                    <span>Bitrate</span>
+                    <select
+                      value={codecOptions[exportFormat].bitrate}
+                      onChange={(e) => handleCodecOptionsChange(exportFormat, { bitrate: Number(e.target.value) })}
+                      className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white"
+                    >
+                      {CODEC_BITRATES[exportFormat].map(b => <option key={b} value={b}>{b} kbps</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-gray-400">
+                    <span>Channels</span>
+                    <select
+                      value={codecOptions[exportFormat].channels}
+                      onChange={(e) => handleCodecOptionsChange(exportFormat, { channels: e.target.value as ChannelLayout })}
+                      className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white"
+                    >
+                      {CHANNEL_LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                    </select>
+                  </label>
+                </div>
+              )}
+
+              {/* Timeline Options (NLE formats only) */}
+              {getExportFormat(exportFormat).timeline && exportFormat !== 'audacity' && (
+                <div className="col-span-1 md:col-span-2 flex flex-wrap items-center gap-4 bg-white/5 rounded-xl p-3 border border-white/10 text-sm">
+                  <label className="flex items-center gap-2 text-gray-400">
+                    <span>Frame Rate</span>
+                    <select
+                      value={timelineFrameRate}
+                      onChange={(e) => handleTimelineChange(e.target.value as TimelineFrameRate, timelineStart)}
+                      className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white"
+                    >
+                      {TIMELINE_FRAME_RATES.map(r => (
+                        <option key={r} value={r}>{r.endsWith('df') ? `${r.slice(0, -2)} DF` : r} fps</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-gray-400">
+                    <span>Start Timecode</span>
+                    <input
+                      type="text"
+                      value={timelineStart}
+                      onChange={(e) => handleTimelineChange(timelineFrameRate, e.target.value)}
+                      className="w-32 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white font-mono"
+                      placeholder="01:00:00:00"
+                    />
+                  </label>
+                </div>
+              )}
               
               <button 
                 onClick={handleAddToBatch}
@@ -0,0 +1,118 @@
+import { AudioData } from './audioData';
+
+/**
+ * AIFF and AIFF-C decoding. Plain AIFF is big-endian PCM; AIFF-C adds a
+ * compression type, of which the uncompressed ones (either byte order,
+ * integer or float) are read here.
+ */
+
+// AIFF-C types that are plain samples, and how to read them
+const AIFC_FORMATS: Record<string, { littleEndian: boolean; isFloat: boolean; unsigned: boolean }> = {
+  NONE: { littleEndian: false, isFloat: false, unsigned: false },
+  twos: { littleEndian: false, isFloat: false, unsigned: false },
+  in24: { littleEndian: false, isFloat: false, unsigned: false },
+  in32: { littleEndian: false, isFloat: false, unsigned: false },
+  sowt: { littleEndian: true, isFloat: false, unsigned: false },
+  raw: { littleEndian: false, isFloat: false, unsigned: true },
+  fl32: { littleEndian: false, isFloat: true, unsigned: false },
+  FL32: { littleEndian: false, isFloat: true, unsigned: false },
+  fl64: { littleEndian: false, isFloat: true, unsigned: false },
+  FL64: { littleEndian: false, isFloat: true, unsigned: false }
+};
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// The sample rate is an 80-bit IEEE extended float
+const readExtended = (view: DataView, offset: number): number => {
+  const exponent = view.getUint16(offset) & 0x7FFF;
+  const sign = view.getUint16(offset) & 0x8000 ? -1 : 1;
+  const mantissa = view.getUint32(offset + 2) * 2 ** 32 + view.getUint32(offset + 6);
+  if (exponent === 0 && mantissa === 0) return 0;
+  return sign * mantissa * 2 ** (exponent - 16383 - 63);
+};
+
+/**
+ * True if `bytes` start like an AIFF or AIFF-C file.
+ */
+export const isAiff = (bytes: Uint8Array): boolean => {
+  if (bytes.length < 12) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const form = fourCC(view, 8);
+  return fourCC(view, 0) === 'FORM' && (form === 'AIFF' || form === 'AIFC');
+};
+
+/**
+ * Decodes a whole AIFF or AIFF-C file. Returns null for compressed AIFF-C
+ * (µ-law, IMA ADPCM and the like), which is left to the browser.
+ */
+export const decodeAiff = (bytes: Uint8Array): AudioData | null => {
+  if (!isAiff(bytes)) throw new Error("Not an AIFF file");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const isAifc = fourCC(view, 8) === 'AIFC';
+
+  let format: { channels: number; frames: number; bits: number; sampleRate: number; compression: string } | null = null;
+  let data: { offset: number; size: number } | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = fourCC(view, offset);
+    const size = view.getUint32(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'COMM') {
+      format = {
+        channels: view.getUint16(body),
+        frames: view.getUint32(body + 2),
+        bits: view.getUint16(body + 6),
+        sampleRate: readExtended(view, body + 8),
+        compression: isAifc && size >= 22 ? fourCC(view, body + 18).trimEnd() : 'NONE'
+      };
+    } else if (id === 'SSND') {
+      // Block alignment fields; the samples start after `dataOffset` padding bytes
+      const dataOffset = view.getUint32(body);
+      const start = body + 8 + dataOffset;
+      data = { offset: start, size: Math.max(0, Math.min(size - 8 - dataOffset, bytes.length - start)) };
+    }
+
+    // Chunks are word aligned
+    offset = body + size + (size % 2);
+  }
+
+  if (!format || !data) throw new Error("AIFF file has no audio");
+  if (format.channels === 0 || !(format.sampleRate > 0)) throw new Error("AIFF file has an invalid format");
+  const layout = AIFC_FORMATS[format.compression];
+  if (!layout) return null;
+
+  const { littleEndian, isFloat, unsigned } = layout;
+  const bytesPerSample = isFloat ? (format.compression.toLowerCase() === 'fl64' ? 8 : 4) : Math.ceil(format.bits / 8);
+  if (!isFloat && (bytesPerSample < 1 || bytesPerSample > 4)) throw new Error(`${format.bits}-bit AIFF is not supported`);
+  const frameSize = bytesPerSample * format.channels;
+  const length = Math.min(format.frames, Math.floor(data.size / frameSize));
+  const scale = 1 / 2 ** (bytesPerSample * 8 - 1);
+
+  const channels = Array.from({ length: format.channels }, () => new Float32Array(length));
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < format.channels; c++) {
+      const p = data.offset + i * frameSize + c * bytesPerSample;
+      let value: number;
+      if (isFloat) {
+        value = bytesPerSample === 8 ? view.getFloat64(p, littleEndian) : view.getFloat32(p, littleEndian);
+      } else if (bytesPerSample === 1) {
+        value = (unsigned ? view.getUint8(p) - 128 : view.getInt8(p)) * scale;
+      } else if (bytesPerSample === 2) {
+        value = view.getInt16(p, littleEndian) * scale;
+      } else if (bytesPerSample === 3) {
+        const v = littleEndian
+          ? bytes[p] | (bytes[p + 1] << 8) | (view.getInt8(p + 2) << 16)
+          : (view.getInt8(p) << 16) | (bytes[p + 1] << 8) | bytes[p + 2];
+        value = v * scale;
+      } else {
+        value = view.getInt32(p, littleEndian) * scale;
+      }
+      channels[c][i] = value;
+    }
+  }
+
+  return { sampleRate: Math.round(format.sampleRate), channels };
+};
@@ -0,0 +1,312 @@
+import { AudioData, getLength } from './audioData';
+import { fft, nextPowerOfTwo } from './fft';
+
+/**
+ * Lines up tracks of the same session that were started by hand. Offsets
+ * are found by cross-correlating loudness envelopes, refined on the raw
+ * samples, and optionally measured along the whole file to fit a linear
+ * clock drift.
+ */
+
+export interface AlignOptions {
+  /**
+   * Largest offset between two tracks to look for, in seconds. Default 30s.
+   */
+  maxOffset?: number;
+  /**
+   * Also estimate linear clock drift. Default false.
+   */
+  estimateDrift?: boolean;
+}
+
+export interface TrackAlignment {
+  /**
+   * Position in this track (samples) of the reference's first sample.
+   * Negative if the track was started after the reference.
+   */
+  offset: number;
+  /**
+   * Clock drift against the reference: the track advances (1 + drift)
+   * samples per reference sample.
+   */
+  drift: number;
+  /**
+   * Normalized correlation of the match, 0 to 1. Below ~0.2 it is a guess.
+   */
+  confidence: number;
+}
+
+// Envelope resolution for the coarse search
+const ENVELOPE_RATE = 1000;
+// Length of reference audio matched per measurement
+const WINDOW_SECONDS = 60;
+// Raw audio matched when refining to the sample
+const REFINE_SECONDS = 0.5;
+// Drift measurements taken along the file
+const DRIFT_WINDOWS = 8;
+// How far drift may move the offset from the first measurement
+const DRIFT_SEARCH_SECONDS = 2;
+// Measurements below this are left out of the drift fit
+const MIN_CONFIDENCE = 0.2;
+
+const toMono = (audio: AudioData): Float32Array => {
+  const length = getLength(audio);
+  const mono = new Float32Array(length);
+  for (const data of audio.channels) {
+    for (let i = 0; i < length; i++) mono[i] += data[i];
+  }
+  return mono;
+};
+
+/**
+ * Mean absolute level per block of `factor` samples, with the mean removed.
+ */
+const toEnvelope = (mono: Float32Array, factor: number): Float32Array => {
+  const env = new Float32Array(Math.floor(mono.length / factor));
+  let total = 0;
+  for (let b = 0; b < env.length; b++) {
+    let sum = 0;
+    for (let i = b * factor; i < (b + 1) * factor; i++) sum += Math.abs(mono[i]);
+    env[b] = sum / factor;
+    total += env[b];
+  }
+  const mean = env.length ? total / env.length : 0;
+  for (let b = 0; b < env.length; b++) env[b] -= mean;
+  return env;
+};
+
+/**
+ * `data[start, start + length)`, with zeros where that runs off either end.
+ */
+const sliceWithZeros = (data: Float32Array, start: number, length: number): Float32Array => {
+  const out = new Float32Array(length);
+  const from = Math.max(0, start);
+  const to = Math.min(data.length, start + length);
+  if (to > from) out.set(data.subarray(from, to), from - start);
+  return out;
+};
+
+/**
+ * Finds the shift `k` in [0, b.length - a.length] where b[k + i] best
+ * matches a[i], by FFT cross-correlation normalized per shift.
+ */
+const crossCorrelate = (a: Float32Array, b: Float32Array): { lag: number; score: number } => {
+  const n = nextPowerOfTwo(a.length + b.length);
+  const aRe = new Float64Array(n);
+  const aIm = new Float64Array(n);
+  const bRe = new Float64Array(n);
+  const bIm = new Float64Array(n);
+  aRe.set(a);
+  bRe.set(b);
+  fft(aRe, aIm);
+  fft(bRe, bIm);
+
+  // conj(A) * B gives sum_i a[i] * b[i + k] at index k
+  for (let i = 0; i < n; i++) {
+    const re = aRe[i] * bRe[i] + aIm[i] * bIm[i];
+    const im = aRe[i] * bIm[i] - aIm[i] * bRe[i];
+    aRe[i] = re;
+    aIm[i] = im;
+  }
+  fft(aRe, aIm, true);
+
+  let energyA = 0;
+  for (let i = 0; i < a.length; i++) energyA += a[i] * a[i];
+
+  // Running energy of the part of b under a
+  let energyB = 0;
+  for (let i = 0; i < a.length; i++) energyB += b[i] * b[i];
+
+  let best = { lag: 0, score: 0 };
+  for (let k = 0; k + a.length <= b.length; k++) {
+    if (k > 0) energyB += b[k + a.length - 1] ** 2 - b[k - 1] ** 2;
+    const norm = Math.sqrt(energyA * Math.max(0, energyB));
+    const score = norm > 0 ? aRe[k] / norm : 0;
+    if (score > best.score) best = { lag: k, score };
+  }
+  return best;
+};
+
+/**
+ * Direct search of the raw samples for the best shift within `radius` of
+ * `center`, over the loudest REFINE_SECONDS of the window. Also returns
+ * where in the reference that block is centred.
+ */
+const refineLag = (
+  ref: Float32Array,
+  other: Float32Array,
+  windowStart: number,
+  windowLength: number,
+  center: number,
+  radius: number,
+  refineLength: number
+): { lag: number; at: number } => {
+  // Loudest block, so the match isn't made on room noise
+  let bestStart = windowStart;
+  let bestEnergy = -1;
+  const end = Math.min(ref.length, windowStart + windowLength) - refineLength;
+  for (let s = windowStart; s <= end; s += refineLength >> 1) {
+    let e = 0;
+    for (let i = s; i < s + refineLength; i++) e += ref[i] * ref[i];
+    if (e > bestEnergy) {
+      bestEnergy = e;
+      bestStart = s;
+    }
+  }
+
+  const a = ref.subarray(bestStart, Math.min(ref.length, bestStart + refineLength));
+  let bestLag = center;
+  let bestScore = -Infinity;
+  for (let lag = center - radius; lag <= center + radius; lag++) {
+    let dot = 0;
+    let energy = 0;
+    for (let i = 0; i < a.length; i++) {
+      const j = bestStart + i + lag;
+      const v = j >= 0 && j < other.length ? other[j] : 0;
+      dot += a[i] * v;
+      energy += v * v;
+    }
+    const score = energy > 0 ? dot / Math.sqrt(energy) : -Infinity;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  return { lag: bestLag, at: bestStart + a.length / 2 };
+};
+
+/**
+ * Estimates where `track` sits against `reference`.
+ */
+export const estimateAlignment = (
+  reference: AudioData,
+  track: AudioData,
+  options: AlignOptions = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): TrackAlignment => {
+  if (reference.sampleRate !== track.sampleRate) {
+    throw new Error("Tracks must have the same sample rate to be aligned");
+  }
+  const { maxOffset = 30, estimateDrift = false } = options;
+  const sampleRate = reference.sampleRate;
+  const factor = Math.max(1, Math.round(sampleRate / ENVELOPE_RATE));
+  const envRate = sampleRate / factor;
+
+  const refMono = toMono(reference);
+  const trackMono = toMono(track);
+  const refEnv = toEnvelope(refMono, factor);
+  const trackEnv = toEnvelope(trackMono, factor);
+  const windowLength = Math.min(refEnv.length, Math.round(WINDOW_SECONDS * envRate));
+  const refineLength = Math.round(REFINE_SECONDS * sampleRate);
+
+  // Offset (in samples) and match quality for one reference window
+  const measure = (windowStart: number, expectedLag: number, radius: number) => {
+    const a = refEnv.subarray(windowStart, windowStart + windowLength);
+    const b = sliceWithZeros(trackEnv, windowStart + expectedLag - radius, windowLength + 2 * radius);
+    const { lag, score } = crossCorrelate(a, b);
+    const coarse = (expectedLag - radius + lag) * factor;
+    const fine = refineLag(refMono, trackMono, windowStart * factor, windowLength * factor, coarse, factor * 2, refineLength);
+    return { ...fine, score };
+  };
+
+  signal?.throwIfAborted();
+  const first = measure(0, 0, Math.round(maxOffset * envRate));
+  onProgress?.(estimateDrift ? 1 / (DRIFT_WINDOWS + 1) : 1);
+
+  if (!estimateDrift || refEnv.length <= windowLength) {
+    return { offset: first.lag, drift: 0, confidence: Math.max(0, first.score) };
+  }
+
+  // Measure along the file and fit offset = a + drift * t, weighted by confidence
+  const points: { t: number; lag: number; weight: number }[] = [];
+  const radius = Math.round(DRIFT_SEARCH_SECONDS * envRate);
+  const expected = Math.round(first.lag / factor);
+  for (let k = 0; k < DRIFT_WINDOWS; k++) {
+    signal?.throwIfAborted();
+    const windowStart = Math.round((k / (DRIFT_WINDOWS - 1)) * (refEnv.length - windowLength));
+    const m = measure(windowStart, expected, radius);
+    if (m.score >= MIN_CONFIDENCE) {
+      points.push({ t: m.at, lag: m.lag, weight: m.score });
+    }
+    onProgress?.((k + 2) / (DRIFT_WINDOWS + 1));
+  }
+
+  if (points.length < 2) {
+    return { offset: first.lag, drift: 0, confidence: Math.max(0, first.score) };
+  }
+
+  let sw = 0, st = 0, sl = 0, stt = 0, stl = 0;
+  for (const p of points) {
+    sw += p.weight;
+    st += p.weight * p.t;
+    sl += p.weight * p.lag;
+    stt += p.weight * p.t * p.t;
+    stl += p.weight * p.t * p.lag;
+  }
+  const denom = sw * stt - st * st;
+  const drift = denom > 0 ? (sw * stl - st * sl) / denom : 0;
+  const offset = (sl - drift * st) / sw;
+
+  return { offset, drift, confidence: sw / points.length };
+};
+
+/**
+ * Places `track` on the reference timeline: sample `j` of the result is
+ * the track at reference time `j`. Audio before the reference started is
+ * trimmed; gaps are filled with silence.
+ */
+export const applyAlignment = (track: AudioData, alignment: TrackAlignment, length: number): AudioData => {
+  const { offset, drift } = alignment;
+  const trackLength = getLength(track);
+
+  const channels = track.channels.map(data => {
+    const out = new Float32Array(length);
+    if (drift === 0) {
+      const shift = Math.round(offset);
+      out.set(sliceWithZeros(data, shift, length));
+      return out;
+    }
+    // Linear interpolation is plenty for the few ppm of a clock mismatch
+    for (let j = 0; j < length; j++) {
+      const pos = offset + j * (1 + drift);
+      const i = Math.floor(pos);
+      if (i < 0 || i + 1 >= trackLength) continue;
+      const frac = pos - i;
+      out[j] = data[i] + (data[i + 1] - data[i]) * frac;
+    }
+    return out;
+  });
+
+  return { sampleRate: track.sampleRate, channels };
+};
+
+/**
+ * Aligns every track to the first one. The common timeline starts with the
+ * first track and runs until the last track ends.
+ */
+export const alignTracks = (
+  tracks: AudioData[],
+  options: AlignOptions = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): { tracks: AudioData[]; alignments: TrackAlignment[] } => {
+  const [reference, ...others] = tracks;
+  const alignments: TrackAlignment[] = [{ offset: 0, drift: 0, confidence: 1 }];
+
+  others.forEach((t, i) => {
+    const onTrackProgress = onProgress && ((p: number) => onProgress((i + p) / others.length));
+    alignments.push(estimateAlignment(reference, t, options, onTrackProgress, signal));
+  });
+
+  // Where each track ends, in reference samples
+  const length = Math.max(...tracks.map((t, i) => {
+    const { offset, drift } = alignments[i];
+    return Math.ceil((getLength(t) - offset) / (1 + drift));
+  }));
+
+  return {
+    tracks: tracks.map((t, i) => i === 0 && getLength(t) === length ? t : applyAlignment(t, alignments[i], length)),
+    alignments
+  };
+};
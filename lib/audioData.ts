@@ -0,0 +1,60 @@
+/**
+ * Plain PCM audio: one Float32Array per channel.
+ * Unlike AudioBuffer this can be posted to a worker with its channel
+ * buffers transferred instead of copied.
+ */
+export interface AudioData {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export const getLength = (audio: AudioData): number => audio.channels[0]?.length ?? 0;
+
+export const getDuration = (audio: AudioData): number => getLength(audio) / audio.sampleRate;
+
+/**
+ * Allocates silent audio with the given shape.
+ */
+export const createAudioData = (numChannels: number, length: number, sampleRate: number): AudioData => {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < numChannels; c++) {
+    channels.push(new Float32Array(length));
+  }
+  return { sampleRate, channels };
+};
+
+/**
+ * Copies an AudioBuffer's samples. The copy can be transferred to a worker
+ * without detaching the buffer's own storage.
+ */
+export const fromAudioBuffer = (buffer: AudioBuffer): AudioData => {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(buffer.getChannelData(c).slice());
+  }
+  return { sampleRate: buffer.sampleRate, channels };
+};
+
+/**
+ * Wraps audio back into an AudioBuffer for playback and drawing. Main thread only.
+ */
+export const toAudioBuffer = (audio: AudioData): AudioBuffer => {
+  const buffer = new AudioBuffer({
+    numberOfChannels: audio.channels.length,
+    length: Math.max(1, getLength(audio)),
+    sampleRate: audio.sampleRate
+  });
+  audio.channels.forEach((data, c) => buffer.getChannelData(c).set(data));
+  return buffer;
+};
+
+/**
+ * The ArrayBuffers to list as transferables when posting `audio`.
+ */
+export const getTransferables = (audio: AudioData): ArrayBuffer[] => {
+  const seen = new Set<ArrayBuffer>();
+  for (const data of audio.channels) {
+    seen.add(data.buffer as ArrayBuffer);
+  }
+  return [...seen];
+};
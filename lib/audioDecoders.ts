@@ -0,0 +1,36 @@
+import { AudioData } from './audioData';
+import { openWavSource, probeWav } from './audioSource';
+import { decodeAiff, isAiff } from './aiff';
+import { decodeFlac } from './flacDecoder';
+import { getId3TagSize } from './id3';
+
+/**
+ * Decoders for uncompressed and lossless files. The browser's decoder
+ * resamples everything to the output device rate and differs between
+ * browsers in which WAV variants it accepts; these keep the file's own
+ * rate and every bit of its samples.
+ */
+
+const readBytes = async (file: Blob, start: number, length: number): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(start, start + length).arrayBuffer());
+
+/**
+ * Decodes a WAV (PCM or float, RF64 included), AIFF/AIFF-C or FLAC file.
+ * Returns null for other formats, which are left to the browser; throws
+ * if the file is one of these but damaged.
+ */
+export const decodeAudioFile = async (file: Blob, onProgress?: (progress: number) => void): Promise<AudioData | null> => {
+  if (await probeWav(file)) {
+    const source = await openWavSource(file);
+    return { sampleRate: source.sampleRate, channels: await source.read(0, source.length) };
+  }
+
+  const head = await readBytes(file, 0, 12);
+  if (isAiff(head)) return decodeAiff(new Uint8Array(await file.arrayBuffer()));
+
+  // FLAC may sit behind an ID3 tag; MP3 usually does too
+  const tagSize = getId3TagSize(head);
+  const marker = await readBytes(file, tagSize, 4);
+  if (String.fromCharCode(...marker) === 'fLaC') return decodeFlac(new Uint8Array(await file.arrayBuffer()), onProgress);
+  return null;
+};
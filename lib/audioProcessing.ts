@@ -1,4 +1,21 @@
 
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { createTimeMap, TimeMap, TimeMapSegment } from './timeMap';
+import { detectSilence, detectSilenceStreaming, DetectorMode, DetectionResult } from './silenceDetection';
+import { AudioData, createAudioData, getLength } from './audioData';
+import { AudioSource, createMemorySource, STREAM_CHUNK_SIZE } from './audioSource';
+import { LoudnessTarget } from './loudness';
+import { EnhancePreset, NOISY_ROOM_PRESET, VOICE_PRESET } from './enhancePresets';
+import { applyBreaths, attenuateRanges, detectBreaths, getBreathRanges, BreathMode } from './breathDetection';
+import { NoiseReductionOptions } from './noiseReduction';
+import { createResampler, getResampledLength } from './resample';
+import { createId3Tag, hasId3Tags } from './id3';
+import { createMp3FrameReader, createXingFrame, parseMp3FrameHeader, Mp3FrameHeader } from './mp3Frames';
+import { createFlacWriter, FlacBitDepth } from './flac';
+import { createWebCodecsWriter } from './webCodecsEncoder';
+import { AudioMetadata, getChapters, getVorbisComments } from './metadata';
+import { createWavMetadataChunks } from './wavMetadata';
+
 /**
  * Configuration for silence removal.
  */
@@ -6,8 +23,13 @@ export interface SilenceOptions {
   /**
    * 0 to 1. How much of the detected silence duration to remove.
    * 0.7 means remove 70% of the silent gap, leaving 30%.
+   * Ignored when `pauseTargets` is set.
    */
   removeRatio: number; 
+  /**
+   * Trim every pause to a target length instead of removing a fixed ratio.
+   */
+  pauseTargets?: PauseTargets;
   /**
    * Decibel threshold to consider as silence. Default -40dB.
    */
@@ -21,70 +43,191 @@ export interface SilenceOptions {
    * Prevents cutting off the attack/decay of words. Default 0.15s.
    */
   padding?: number;
+  /**
+   * Length in seconds of the equal-power crossfade applied at every splice.
+   * The fade borrows audio from either side of the cut, so output length is unchanged.
+   * 0 disables crossfading. Default 0.01s.
+   */
+  crossfadeDuration?: number;
+  /**
+   * Move each cut point to the nearest zero crossing of the channel mixdown
+   * before splicing. Default false.
+   */
+  snapToZeroCrossings?: boolean;
+  /**
+   * How far (in seconds) to search either side of a cut for a zero crossing. Default 0.005s.
+   */
+  zeroCrossingWindow?: number;
+  /**
+   * Which silence detector to run. Default 'peak'.
+   */
+  detector?: DetectorMode;
+  /**
+   * Analysis hop in samples. Smaller is more precise but slower. Default 1024.
+   */
+  hopSize?: number;
+  /**
+   * Seconds to hold speech open after the level last exceeded the threshold. Default 0.
+   */
+  holdTime?: number;
+  /**
+   * Hysteresis detector only: dB below the threshold at which speech closes again. Default 6dB.
+   */
+  hysteresisDb?: number;
+  /**
+   * What to do with breaths found inside speech. Default 'off'.
+   */
+  breathMode?: BreathMode;
+  /**
+   * How far 'attenuate' lowers breaths, in dB. Default 12dB.
+   */
+  breathReductionDb?: number;
+}
+
+/**
+ * Pacing targets for pause-length mode. All values in seconds,
+ * measured over the whole detected gap (padding included).
+ */
+export interface PauseTargets {
+  /**
+   * Maximum length a short pause is trimmed down to.
+   */
+  shortPause: number;
+  /**
+   * Maximum length a long pause is trimmed down to.
+   */
+  longPause: number;
+  /**
+   * Gaps at least this long count as long pauses.
+   */
+  longPauseThreshold: number;
+  /**
+   * Pauses shorter than this are lengthened with room tone. 0 disables.
+   */
+  minPause?: number;
 }
 
 export interface EnhanceOptions {
   aggressiveGate?: boolean;
+  /**
+   * Find mains hum and notch out its harmonics, before anything else. Default false.
+   */
+  removeHum?: boolean;
+  /**
+   * Spectral noise reduction, run before the gate. Null skips it.
+   */
+  noiseReduction?: NoiseReductionOptions | null;
+  /**
+   * Filter chain to run. Defaults to the voice preset, or the noisy room
+   * preset with `aggressiveGate`.
+   */
+  chain?: EnhancePreset;
+  /**
+   * Loudness to normalize to after the filter chain, with a true-peak
+   * limiter. Null leaves the level as the compressor made it.
+   */
+  loudness?: LoudnessTarget | null;
 }
 
 export interface AudioRegion {
   start: number; // sample index
   end: number;   // sample index
   isSilence: boolean;
+  /**
+   * Set when the user overruled detection. Manual silences are cut
+   * completely; manual speech is a silence the user chose to keep.
+   */
+  manual?: boolean;
+  /**
+   * Found by breath detection. Breath silences are cut completely;
+   * breath speech is kept (and lowered in 'attenuate' mode).
+   */
+  breath?: boolean;
 }
 
 export interface ProcessResult {
-  buffer: AudioBuffer;
+  audio: AudioData;
   regions: AudioRegion[];
+  timeMap: TimeMap;
 }
 
-// Global declaration for lamejs
-declare const lamejs: any;
-
-const yieldToMain = () => new Promise(resolve => setTimeout(resolve, 0));
+// Samples processed between progress reports and abort checks
+const CHECK_INTERVAL = 65536;
 
 /**
- * Decodes an audio file into an AudioBuffer.
+ * Decodes a file with the browser's decoder, which resamples to the
+ * output device rate. It can't be interrupted; an abort is honoured once it returns.
  */
-export const decodeAudio = async (file: File): Promise<AudioBuffer> => {
+export const decodeWithBrowser = async (file: File, signal?: AbortSignal): Promise<AudioBuffer> => {
+  signal?.throwIfAborted();
   const arrayBuffer = await file.arrayBuffer();
+  signal?.throwIfAborted();
   const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-  return await audioContext.decodeAudioData(arrayBuffer);
+  const decoded = await audioContext.decodeAudioData(arrayBuffer);
+  signal?.throwIfAborted();
+  return decoded;
 };
 
 /**
  * Estimates the noise floor of the audio buffer in dB.
  * Scans the file to find the quietest consistent sections.
+ * `hopSeconds` trades speed for resolution; the default checks one window per second.
  */
-const getNoiseFloor = (buffer: AudioBuffer): number => {
-  const data = buffer.getChannelData(0);
-  const sampleRate = buffer.sampleRate;
+export const getNoiseFloor = (audio: AudioData, hopSeconds: number = 1, signal?: AbortSignal): number => {
+  const data = audio.channels[0];
+  const sampleRate = audio.sampleRate;
   
   // We check 50ms windows
   const windowSize = Math.floor(sampleRate * 0.05); 
-  // Hop size: check every 1 second to be fast (scan across file)
-  const hopSize = sampleRate; 
+  // Hop size: check every 1 second by default to be fast (scan across file)
+  const hopSize = Math.max(1, Math.floor(sampleRate * hopSeconds)); 
   
   const rmsValues: number[] = [];
   
   for (let i = 0; i < data.length; i += hopSize) {
-    let sum = 0;
-    let count = 0;
-    // Calculate RMS of this window
-    for (let j = 0; j < windowSize && i + j < data.length; j++) {
-      const val = data[i + j];
-      sum += val * val;
-      count++;
-    }
-    
-    if (count > 0) {
-      const rms = Math.sqrt(sum / count);
-      if (rms > 0.000001) { // Ignore absolute digital silence
-        rmsValues.push(rms);
-      }
-    }
+    signal?.throwIfAborted();
+    collectWindowRms(data.subarray(i, i + windowSize), rmsValues);
   }
   
+  return rmsToNoiseFloor(rmsValues);
+};
+
+/**
+ * `getNoiseFloor` for a source that is not in memory. Only the measured
+ * windows are read, so this is cheap even for very long files.
+ */
+export const getNoiseFloorStreaming = async (
+  source: AudioSource,
+  hopSeconds: number = 1,
+  signal?: AbortSignal
+): Promise<number> => {
+  const windowSize = Math.floor(source.sampleRate * 0.05);
+  const hopSize = Math.max(1, Math.floor(source.sampleRate * hopSeconds));
+  const rmsValues: number[] = [];
+
+  for (let i = 0; i < source.length; i += hopSize) {
+    signal?.throwIfAborted();
+    const [data] = await source.read(i, windowSize);
+    collectWindowRms(data, rmsValues);
+  }
+
+  return rmsToNoiseFloor(rmsValues);
+};
+
+// Calculate RMS of one window
+const collectWindowRms = (window: Float32Array, rmsValues: number[]) => {
+  if (window.length === 0) return;
+  let sum = 0;
+  for (let j = 0; j < window.length; j++) {
+    sum += window[j] * window[j];
+  }
+  const rms = Math.sqrt(sum / window.length);
+  if (rms > 0.000001) { // Ignore absolute digital silence
+    rmsValues.push(rms);
+  }
+};
+
+const rmsToNoiseFloor = (rmsValues: number[]): number => {
   if (rmsValues.length === 0) return -60; // Default fallback
 
   // Sort to find quietest parts
@@ -98,17 +241,39 @@ const getNoiseFloor = (buffer: AudioBuffer): number => {
 };
 
 /**
- * Applies a software noise gate to an AudioBuffer.
+ * Applies a software noise gate to the audio.
  * effectively attenuates breaths and background noise.
  */
-const applyNoiseGate = async (buffer: AudioBuffer, thresholdDb: number = -45, aggressive: boolean = false): Promise<AudioBuffer> => {
-  const numChannels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const length = buffer.length;
-  
-  const offlineCtx = new OfflineAudioContext(numChannels, length, sampleRate);
-  const outputBuffer = offlineCtx.createBuffer(numChannels, length, sampleRate);
+export const applyNoiseGate = (
+  audio: AudioData,
+  thresholdDb: number = -45,
+  aggressive: boolean = false,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): AudioData => {
+  const length = getLength(audio);
+  const output: AudioData = { sampleRate: audio.sampleRate, channels: audio.channels.map(data => data.slice()) };
+  const gate = createNoiseGate(audio.sampleRate, audio.channels.length, thresholdDb, aggressive);
+
+  for (let pos = 0; pos < length; pos += CHECK_INTERVAL) {
+    signal?.throwIfAborted();
+    onProgress?.(pos / length);
+    gate(output.channels.map(data => data.subarray(pos, pos + CHECK_INTERVAL)));
+  }
   
+  return output;
+};
+
+/**
+ * A noise gate that processes consecutive chunks in place. The envelope
+ * of each channel carries over, so chunking does not change the result.
+ */
+export const createNoiseGate = (
+  sampleRate: number,
+  numChannels: number,
+  thresholdDb: number = -45,
+  aggressive: boolean = false
+): ((channels: Float32Array[]) => void) => {
   const threshold = Math.pow(10, thresholdDb / 20);
   
   // Aggressive mode uses faster attack/release to chop noise between words
@@ -119,56 +284,67 @@ const applyNoiseGate = async (buffer: AudioBuffer, thresholdDb: number = -45, ag
   const attackCoeff = Math.exp(-1 / (sampleRate * attackTime));
   const releaseCoeff = Math.exp(-1 / (sampleRate * releaseTime));
 
-  const chunkSize = 48000; 
+  const envelopes = new Float64Array(numChannels);
 
-  for (let c = 0; c < numChannels; c++) {
-    const inputData = buffer.getChannelData(c);
-    const outputData = outputBuffer.getChannelData(c);
-    let envelope = 0;
-    
-    for (let i = 0; i < length; i++) {
-      const input = inputData[i];
-      const absInput = Math.abs(input);
-      
-      if (absInput > envelope) {
-        envelope = attackCoeff * envelope + (1 - attackCoeff) * absInput;
-      } else {
-        envelope = releaseCoeff * envelope + (1 - releaseCoeff) * absInput;
-      }
-      
-      let gain = 1.0;
-      if (envelope < threshold) {
-        const ratio = envelope / threshold;
-        if (aggressive) {
-            // Harder knee for aggressive removal. 
-            // Power of 12 makes anything below threshold drop to zero extremely fast.
-            gain = Math.pow(ratio, 12); 
+  return (channels: Float32Array[]) => {
+    for (let c = 0; c < numChannels; c++) {
+      const data = channels[c];
+      let envelope = envelopes[c];
+
+      for (let i = 0; i < data.length; i++) {
+        const input = data[i];
+        const absInput = Math.abs(input);
+
+        if (absInput > envelope) {
+          envelope = attackCoeff * envelope + (1 - attackCoeff) * absInput;
         } else {
-            // Cubic curve for natural sounding decay
-            gain = ratio * ratio * ratio; 
+          envelope = releaseCoeff * envelope + (1 - releaseCoeff) * absInput;
+        }
+
+        let gain = 1.0;
+        if (envelope < threshold) {
+          const ratio = envelope / threshold;
+          if (aggressive) {
+              // Harder knee for aggressive removal. 
+              // Power of 12 makes anything below threshold drop to zero extremely fast.
+              gain = Math.pow(ratio, 12); 
+          } else {
+              // Cubic curve for natural sounding decay
+              gain = ratio * ratio * ratio; 
+          }
         }
-      }
-      
-      outputData[i] = input * gain;
 
-      if (i % chunkSize === 0) await yieldToMain();
+        data[i] = input * gain;
+      }
+      envelopes[c] = envelope;
     }
-  }
-  
-  return outputBuffer;
+  };
 };
 
 /**
- * Enhances audio quality using EQ, Compression and Noise Gating.
- * V6 Tuning: Balanced Studio Profile.
+ * Step 1 of enhancement: a noise gate whose threshold adapts to the file.
+ * Works on raw samples, so it can run off the main thread.
  */
-export const enhanceAudio = async (inputBuffer: AudioBuffer, options: EnhanceOptions = {}): Promise<AudioBuffer> => {
-  const { aggressiveGate = false } = options;
-
+export const applyAdaptiveGate = (
+  audio: AudioData,
+  options: EnhanceOptions = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): AudioData => {
   // 1. Adaptive Noise Gate
   // Calculate noise floor of this specific file
-  const noiseFloor = getNoiseFloor(inputBuffer);
-  
+  const noiseFloor = getNoiseFloor(audio, 1, signal);
+  const gateThreshold = getAdaptiveGateThreshold(noiseFloor, options);
+
+  return applyNoiseGate(audio, gateThreshold, !!options.aggressiveGate, onProgress, signal);
+};
+
+/**
+ * Gate threshold for a file with the given noise floor.
+ */
+export const getAdaptiveGateThreshold = (noiseFloor: number, options: EnhanceOptions = {}): number => {
+  const { aggressiveGate = false } = options;
+
   // Set threshold above noise floor. 
   // Standard: +6dB above floor. 
   // Aggressive: +22dB above floor (Very strict, assumes user wants to kill bg noise)
@@ -180,7 +356,31 @@ export const enhanceAudio = async (inputBuffer: AudioBuffer, options: EnhanceOpt
 
   console.log(`Measured Noise Floor: ${noiseFloor.toFixed(1)}dB. Gating at: ${gateThreshold.toFixed(1)}dB`);
 
-  const gatedBuffer = await applyNoiseGate(inputBuffer, gateThreshold, aggressiveGate);
+  return gateThreshold;
+};
+
+/**
+ * The filter chain `options` asks for.
+ */
+export const getEnhanceChain = (options: EnhanceOptions = {}): EnhancePreset =>
+  // Without a chain, aggressive mode keeps its old, darker EQ
+  options.chain ?? (options.aggressiveGate ? NOISY_ROOM_PRESET : VOICE_PRESET);
+
+/**
+ * Steps 2-9 of enhancement: the EQ, static de-essing and compression of
+ * `options.chain`, applied to the output of `applyAdaptiveGate` (and of
+ * `applyDeEsser`, when the chain has a dynamic de-esser). Level is
+ * set afterwards by `normalizeLoudness` (step 10), which runs in the worker.
+ * Needs an OfflineAudioContext, so this part stays on the main thread.
+ */
+export const enhanceAudio = async (
+  gatedBuffer: AudioBuffer,
+  options: EnhanceOptions = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<AudioBuffer> => {
+  const chain = getEnhanceChain(options);
+  signal?.throwIfAborted();
 
   const offlineCtx = new OfflineAudioContext(
     gatedBuffer.numberOfChannels,
@@ -191,99 +391,168 @@ export const enhanceAudio = async (inputBuffer: AudioBuffer, options: EnhanceOpt
   const source = offlineCtx.createBufferSource();
   source.buffer = gatedBuffer;
 
-  // 2. High-pass filter (Remove deep rumble / AC hum)
-  const highPass = offlineCtx.createBiquadFilter();
-  highPass.type = 'highpass';
-  // Aggressive mode cuts higher (160Hz) to remove background mud/male voice rumble
-  highPass.frequency.value = aggressiveGate ? 160 : 85; 
-  highPass.Q.value = 0.7;
+  const filter = (type: BiquadFilterType, frequency: number, gain: number, q: number) => {
+    const node = offlineCtx.createBiquadFilter();
+    node.type = type;
+    node.frequency.value = frequency;
+    node.gain.value = gain;
+    node.Q.value = q;
+    return node;
+  };
 
+  const nodes: AudioNode[] = [];
+  // 2. High-pass filter (Remove deep rumble / AC hum)
+  if (chain.highPass) nodes.push(filter('highpass', chain.highPass.frequency, 0, chain.highPass.q));
   // 3. Natural Warmth (Low Shelf)
-  const warmth = offlineCtx.createBiquadFilter();
-  warmth.type = 'lowshelf';
-  warmth.frequency.value = 100;
-  // Reduce warmth boost if aggressive to maintain clarity
-  warmth.gain.value = aggressiveGate ? 0.5 : 2.0; 
-
-  // 4. Mud Cut (Clean up boxiness)
-  const mudCut = offlineCtx.createBiquadFilter();
-  mudCut.type = 'peaking';
-  mudCut.frequency.value = 350;
-  mudCut.gain.value = -2.5;
-  mudCut.Q.value = 1.0;
-
-  // 5. De-Esser Notch 1: Target "SH" (sha)
-  const deEsserSh = offlineCtx.createBiquadFilter();
-  deEsserSh.type = 'peaking';
-  deEsserSh.frequency.value = 5500;
-  deEsserSh.gain.value = -5.0;
-  deEsserSh.Q.value = 2.5; 
-
-  // 6. De-Esser Notch 2: Target "SS" (sss)
-  const deEsserSs = offlineCtx.createBiquadFilter();
-  deEsserSs.type = 'peaking';
-  deEsserSs.frequency.value = 7500;
-  deEsserSs.gain.value = -7.0; 
-  deEsserSs.Q.value = 3.0;
-
-  // 7. De-Esser Notch 3: Target "ZZ" (fizz/buzz)
-  const deEsserZz = offlineCtx.createBiquadFilter();
-  deEsserZz.type = 'peaking';
-  deEsserZz.frequency.value = 10000;
-  deEsserZz.gain.value = -8.0; 
-  deEsserZz.Q.value = 2.0;
-
-  // 8. Low Pass / High Shelf 
-  // If aggressive, we low-pass earlier (6.5kHz) to cut high-freq hiss and whispers
-  const highShelf = offlineCtx.createBiquadFilter();
-  if (aggressiveGate) {
-    highShelf.type = 'lowpass';
-    highShelf.frequency.value = 6500; 
-    highShelf.Q.value = 0.5;
-  } else {
-    highShelf.type = 'highshelf';
-    highShelf.frequency.value = 12000;
-    highShelf.gain.value = -6.0;
+  if (chain.lowShelf) nodes.push(filter('lowshelf', chain.lowShelf.frequency, chain.lowShelf.gain, 1));
+  // 4. Tone bands (e.g. Mud Cut to clean up boxiness)
+  for (const band of chain.bands) nodes.push(filter('peaking', band.frequency, band.gain, band.q));
+  // 5. Static De-Esser Notches (the dynamic de-esser ran before the chain)
+  for (const band of chain.deEss) nodes.push(filter('peaking', band.frequency, band.gain, band.q));
+  // 6. High Shelf / 7. Low Pass (hiss and whispers)
+  if (chain.highShelf) nodes.push(filter('highshelf', chain.highShelf.frequency, chain.highShelf.gain, 1));
+  if (chain.lowPass) nodes.push(filter('lowpass', chain.lowPass.frequency, 0, chain.lowPass.q));
+
+  // 8. Dynamics Compressor (Broadcast Leveling)
+  if (chain.compressor) {
+    const compressor = offlineCtx.createDynamicsCompressor();
+    compressor.threshold.value = chain.compressor.threshold;
+    compressor.knee.value = chain.compressor.knee;
+    compressor.ratio.value = chain.compressor.ratio;
+    compressor.attack.value = chain.compressor.attack;
+    compressor.release.value = chain.compressor.release;
+    nodes.push(compressor);
   }
 
-  // 9. Dynamics Compressor (Broadcast Leveling)
-  const compressor = offlineCtx.createDynamicsCompressor();
-  compressor.threshold.value = -24;
-  compressor.knee.value = 15; 
-  compressor.ratio.value = 3.5; 
-  compressor.attack.value = 0.002; 
-  compressor.release.value = 0.15;
-
-  // 10. Makeup Gain 
-  const gain = offlineCtx.createGain();
-  gain.gain.value = 1.3; 
-
-  // Chain: Source -> HPF -> Warmth -> MudCut -> DeEssSh -> DeEssSs -> DeEssZz -> HighShelf -> Comp -> Gain -> Out
-  source.connect(highPass);
-  highPass.connect(warmth);
-  warmth.connect(mudCut);
-  mudCut.connect(deEsserSh);
-  deEsserSh.connect(deEsserSs);
-  deEsserSs.connect(deEsserZz);
-  deEsserZz.connect(highShelf);
-  highShelf.connect(compressor);
-  compressor.connect(gain);
-  gain.connect(offlineCtx.destination);
+  // 9. Makeup Gain
+  if (chain.makeupGain !== 0) {
+    const gain = offlineCtx.createGain();
+    gain.gain.value = Math.pow(10, chain.makeupGain / 20);
+    nodes.push(gain);
+  }
+
+  // Chain: Source -> each stage in order -> Out
+  [source, ...nodes].reduce((from, to) => from.connect(to));
+  (nodes[nodes.length - 1] ?? source).connect(offlineCtx.destination);
 
   source.start();
-  
-  return await offlineCtx.startRendering();
+
+  // Rendering pauses at a few checkpoints to report progress and, if aborted,
+  // is simply never resumed.
+  return await new Promise<AudioBuffer>((resolve, reject) => {
+    const quantum = 128;
+    const steps = 10;
+    const checkpoints = new Set<number>();
+    for (let k = 1; k < steps; k++) {
+      const frame = Math.floor((gatedBuffer.length * k) / steps / quantum) * quantum;
+      if (frame > 0) checkpoints.add(frame);
+    }
+
+    checkpoints.forEach(frame => {
+      offlineCtx.suspend(frame / gatedBuffer.sampleRate).then(() => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        onProgress?.(frame / gatedBuffer.length);
+        offlineCtx.resume();
+      }, () => { /* checkpoint not schedulable on very short buffers */ });
+    });
+
+    offlineCtx.startRendering().then(resolve, reject);
+  });
 };
 
 /**
- * Encodes an AudioBuffer to a WAV Blob.
+ * Incremental audio encoder: feed consecutive chunks, then collect the file.
+ * Encoders backed by the browser's codecs work asynchronously; await each call.
+ */
+export interface StreamEncoder {
+  write: (channels: Float32Array[]) => void | Promise<void>;
+  finish: () => Blob | Promise<Blob>;
+}
+
+export type WavBitDepth = 16 | 24 | 32;
+
+/**
+ * 'keep' leaves the channels as they are; 'mono' mixes them down; 'stereo'
+ * copies mono to both sides and keeps the first two of wider layouts.
+ */
+export type ChannelLayout = 'keep' | 'mono' | 'stereo';
+
+/**
+ * Sample format and layout of exported WAV files.
  */
-export const bufferToWav = async (buffer: AudioBuffer): Promise<Blob> => {
-  const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
-  const bufferOut = new ArrayBuffer(length);
-  const view = new DataView(bufferOut);
-  const channels = [];
+export interface WavOptions {
+  /**
+   * 16 or 24-bit PCM, or 32-bit float. Default 16.
+   */
+  bitDepth?: WavBitDepth;
+  /**
+   * Rate to resample to. Null keeps the source rate. Default null.
+   */
+  sampleRate?: number | null;
+  /**
+   * Default 'keep'.
+   */
+  channels?: ChannelLayout;
+  /**
+   * TPDF dither when reducing to 16 or 24 bits. Default true.
+   */
+  dither?: boolean;
+}
+
+/**
+ * Number of channels `layout` makes of `numChannels`.
+ */
+export const getLayoutChannelCount = (numChannels: number, layout: ChannelLayout = 'keep'): number =>
+  layout === 'mono' ? 1 : layout === 'stereo' ? 2 : numChannels;
+
+/**
+ * Converts one chunk of channels to `layout`. Kept channels are not copied.
+ */
+export const convertChannels = (channels: Float32Array[], layout: ChannelLayout = 'keep'): Float32Array[] => {
+  if (layout === 'keep' || channels.length === getLayoutChannelCount(channels.length, layout)) return channels;
+  if (layout === 'stereo') return channels.length === 1 ? [channels[0], channels[0]] : channels.slice(0, 2);
+
+  const mono = new Float32Array(channels[0]?.length ?? 0);
+  for (const data of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += data[i] / channels.length;
+  }
+  return [mono];
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+/**
+ * Streaming WAV encoder. The header needs the final length up front,
+ * which the time map always knows before rendering starts. `sampleRate`,
+ * `numOfChan` and `totalLength` describe the input; `options` the file.
+ * `metadata` goes in chunks ahead of the audio.
+ */
+export const createWavEncoder = (
+  sampleRate: number,
+  numOfChan: number,
+  totalLength: number,
+  options: WavOptions = {},
+  metadata: AudioMetadata | null = null
+): StreamEncoder => {
+  const { bitDepth = 16, channels: layout = 'keep', dither = true } = options;
+  const outRate = options.sampleRate ?? sampleRate;
+  const outChannels = getLayoutChannelCount(numOfChan, layout);
+  const resampler = outRate !== sampleRate ? createResampler(sampleRate, outRate, outChannels) : null;
+  const outLength = resampler ? getResampledLength(totalLength, sampleRate, outRate) : totalLength;
+
+  const isFloat = bitDepth === 32;
+  const bytesPerSample = bitDepth / 8;
+  const dataLength = outLength * outChannels * bytesPerSample;
+  const metadataChunks = metadata
+    ? createWavMetadataChunks(metadata, { sampleRate: outRate, bitDepth, numChannels: outChannels })
+    : new Uint8Array(0);
+  // Float files carry the extended fmt chunk and a fact chunk
+  const header = new ArrayBuffer(isFloat ? 58 : 44);
+  const view = new DataView(header);
   
   let offset = 0;
   
@@ -304,154 +573,702 @@ export const bufferToWav = async (buffer: AudioBuffer): Promise<Blob> => {
     offset += 2;
   }
 
+  // Sizes saturate past 4GB; most readers then trust the file length
   writeString("RIFF");
-  writeUint32(length - 8);
+  writeUint32(Math.min(0xFFFFFFFF, dataLength + header.byteLength + metadataChunks.length - 8));
   writeString("WAVE");
   writeString("fmt ");
-  writeUint32(16);
-  writeUint16(1); // PCM
-  writeUint16(numOfChan);
-  writeUint32(buffer.sampleRate);
-  writeUint32(buffer.sampleRate * 2 * numOfChan);
-  writeUint16(numOfChan * 2);
-  writeUint16(16);
+  writeUint32(isFloat ? 18 : 16);
+  writeUint16(isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM);
+  writeUint16(outChannels);
+  writeUint32(outRate);
+  writeUint32(outRate * bytesPerSample * outChannels);
+  writeUint16(outChannels * bytesPerSample);
+  writeUint16(bitDepth);
+  if (isFloat) {
+    writeUint16(0); // No extension
+    writeString("fact");
+    writeUint32(4);
+    writeUint32(Math.min(0xFFFFFFFF, outLength));
+  }
+  const formatLength = offset;
   writeString("data");
-  writeUint32(length - offset - 4);
+  writeUint32(Math.min(0xFFFFFFFF, dataLength));
+  const parts: BlobPart[] = [header.slice(0, formatLength), metadataChunks as BlobPart, header.slice(formatLength)];
 
-  for (let i = 0; i < buffer.numberOfChannels; i++) {
-    channels.push(buffer.getChannelData(i));
-  }
+  // Full scale in integer steps; dither is one step of triangular noise
+  const scale = Math.pow(2, bitDepth - 1);
+  const ditherAmount = dither ? 1 : 0;
 
-  const chunkSize = 4096;
-  let pos = 0;
-  
-  while (pos < buffer.length) {
-    const end = Math.min(pos + chunkSize, buffer.length);
-    for (; pos < end; pos++) {
-      for (let i = 0; i < numOfChan; i++) {
-        let sample = Math.max(-1, Math.min(1, channels[i][pos]));
-        sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0;
-        view.setInt16(offset, sample, true);
-        offset += 2;
+  const writeFrames = (channels: Float32Array[]) => {
+    const frames = channels[0]?.length ?? 0;
+    const pcm = new DataView(new ArrayBuffer(frames * outChannels * bytesPerSample));
+    let pos = 0;
+    for (let j = 0; j < frames; j++) {
+      for (let i = 0; i < outChannels; i++) {
+        if (isFloat) {
+          pcm.setFloat32(pos, channels[i][j], true);
+          pos += 4;
+          continue;
+        }
+        const noise = (Math.random() - Math.random()) * ditherAmount;
+        const sample = Math.max(-scale, Math.min(scale - 1, Math.round(channels[i][j] * scale + noise)));
+        if (bitDepth === 16) {
+          pcm.setInt16(pos, sample, true);
+        } else {
+          pcm.setUint8(pos, sample & 0xFF);
+          pcm.setUint8(pos + 1, (sample >> 8) & 0xFF);
+          pcm.setUint8(pos + 2, (sample >> 16) & 0xFF);
+        }
+        pos += bytesPerSample;
       }
     }
-    if (pos % (chunkSize * 10) === 0) await yieldToMain();
-  }
-  
-  return new Blob([bufferOut], { type: "audio/wav" });
+    // Wrapped right away, so the browser can page encoded audio out of the heap
+    if (frames > 0) parts.push(new Blob([pcm.buffer]));
+  };
+
+  return {
+    write: (channels: Float32Array[]) => {
+      const converted = convertChannels(channels, layout);
+      writeFrames(resampler ? resampler.process(converted) : converted);
+    },
+    finish: () => {
+      if (resampler) writeFrames(resampler.flush());
+      return new Blob(parts, { type: "audio/wav" });
+    }
+  };
+};
+
+export type Mp3BitrateMode = 'cbr' | 'vbr';
+
+/**
+ * MP3 encoding settings.
+ */
+export interface Mp3Options {
+  /**
+   * Default 'cbr'.
+   */
+  mode?: Mp3BitrateMode;
+  /**
+   * CBR bitrate in kbps. Default 128.
+   */
+  bitrate?: number;
+  /**
+   * VBR quality from 0 (best) to 9 (smallest), as in LAME's -V. Default 4.
+   */
+  quality?: number;
+  /**
+   * Default 'keep'. Mono halves the size of speech at no audible cost.
+   */
+  channels?: ChannelLayout;
 }
 
 /**
- * Encodes an AudioBuffer to an MP3 Blob using lamejs.
+ * FLAC sample format and layout. FLAC stores integers, so float sources
+ * are quantized (and dithered) as for WAV.
  */
-export const bufferToMp3 = async (buffer: AudioBuffer): Promise<Blob> => {
-  if (typeof lamejs === 'undefined') {
-    throw new Error("lamejs not loaded");
+export interface FlacOptions {
+  /**
+   * Default 16.
+   */
+  bitDepth?: FlacBitDepth;
+  /**
+   * Default 'keep'.
+   */
+  channels?: ChannelLayout;
+  /**
+   * TPDF dither when quantizing. Default true.
+   */
+  dither?: boolean;
+}
+
+/**
+ * Settings for the formats encoded by the browser (AAC in M4A, Opus in Ogg).
+ */
+export interface CodecOptions {
+  /**
+   * In kbps. Default 128 for AAC, 64 for Opus.
+   */
+  bitrate?: number;
+  /**
+   * Default 'keep'. Both codecs take at most two channels, so wider
+   * sources are reduced to stereo.
+   */
+  channels?: ChannelLayout;
+}
+
+export type AudioFormat = 'wav' | 'mp3' | 'flac' | 'm4a' | 'opus';
+
+/**
+ * Settings for the audio export formats; each applies to its format only.
+ */
+export interface AudioEncodeOptions {
+  wav?: WavOptions;
+  mp3?: Mp3Options;
+  flac?: FlacOptions;
+  m4a?: CodecOptions;
+  opus?: CodecOptions;
+  /**
+   * Tags and markers for every format, markers on the exported timeline.
+   */
+  metadata?: AudioMetadata | null;
+}
+
+// VBR bitrates in kbps per quality level, for stereo: [quiet, typical, busy]
+// frames. Mono uses half.
+const VBR_TIERS: [number, number, number][] = [
+  [224, 256, 320],
+  [192, 224, 320],
+  [160, 192, 256],
+  [128, 160, 224],
+  [112, 160, 192],
+  [112, 128, 192],
+  [96, 112, 160],
+  [80, 96, 128],
+  [64, 80, 112],
+  [48, 64, 96]
+];
+const MP3_BITRATES = [8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160, 192, 224, 256, 320];
+// Frames quieter than this are pauses; busy frames are noisy or sudden
+const VBR_QUIET_DB = -50;
+const VBR_BUSY_SLOPE = 0.3;
+const VBR_BUSY_JUMP = 8;
+// Samples from the start of the input to the start of its first frame
+const LAME_ENCODER_DELAY = 1105;
+const MP3_BLOCK_SIZE = 1152 * 10;
+
+// lamejs hands out signed bytes
+const asBytes = (data: ArrayLike<number> & { buffer: ArrayBufferLike; byteOffset: number; length: number }) =>
+  new Uint8Array(data.buffer as ArrayBuffer, data.byteOffset, data.length);
+
+const toInt16 = (data: Float32Array): Int16Array => {
+  const out = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return out;
+};
+
+/**
+ * Frame format lamejs settles on for a bitrate. It lowers the sample rate
+ * for low bitrates, and frames of different rates can't share a stream.
+ */
+const probeMp3Format = (sampleRate: number, numChannels: number, kbps: number): Mp3FrameHeader | null => {
+  const encoder = new Mp3Encoder(numChannels, sampleRate, kbps);
+  const silence = new Int16Array(1152 * 4);
+  const head = asBytes(encoder.encodeBuffer(silence, silence));
+  const bytes = head.length >= 4 ? head : asBytes(encoder.flush());
+  return parseMp3FrameHeader(bytes);
+};
+
+/**
+ * The VBR tiers for `quality`, each raised to the nearest bitrate that
+ * keeps the format of the busiest tier.
+ */
+const getVbrTiers = (sampleRate: number, numChannels: number, quality: number) => {
+  const level = VBR_TIERS[Math.max(0, Math.min(VBR_TIERS.length - 1, Math.round(quality)))];
+  const wanted = level.map(kbps => (numChannels === 1 ? kbps / 2 : kbps));
+  const top = wanted[wanted.length - 1];
+  const format = probeMp3Format(sampleRate, numChannels, top);
+  if (!format) throw new Error("MP3 encoder produced no frames");
 
-  const numChannels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const mp3encoder = new lamejs.Mp3Encoder(numChannels, sampleRate, 128); 
+  const fits = new Map<number, boolean>([[top, true]]);
+  const tiers = wanted.map(kbps => {
+    for (const candidate of MP3_BITRATES) {
+      if (candidate < kbps || candidate > top) continue;
+      if (!fits.has(candidate)) {
+        const probed = probeMp3Format(sampleRate, numChannels, candidate);
+        fits.set(candidate, probed?.version === format.version && probed.sampleRate === format.sampleRate);
+      }
+      if (fits.get(candidate)) return candidate;
+    }
+    return top;
+  });
+  return { tiers, format };
+};
 
-  const left = buffer.getChannelData(0);
-  const right = numChannels > 1 ? buffer.getChannelData(1) : left;
+/**
+ * lamejs has no working VBR, but with the bit reservoir off (as its
+ * encoder sets it) every frame stands alone. So one CBR encoder runs per
+ * tier on the same input, and each frame of the file is taken from the
+ * tier its stretch of audio needs: pauses low, sibilance and noise high.
+ * Returns the frames; `finish` adds the Xing header in front.
+ */
+const createVbrFrameWriter = (sampleRate: number, numChannels: number, quality: number) => {
+  const { tiers, format } = getVbrTiers(sampleRate, numChannels, quality);
+  const rates = [...new Set(tiers)];
+  const tierEncoder = tiers.map(kbps => rates.indexOf(kbps));
+  const encoders = rates.map(kbps => new Mp3Encoder(numChannels, sampleRate, kbps));
+  const readers = rates.map(() => createMp3FrameReader());
+  const queues: Uint8Array[][] = rates.map(() => []);
 
-  const sampleBlockSize = 1152 * 10; 
-  const mp3Data = [];
+  // Tier per block of input, one block per frame
+  const frameLength = format.samplesPerFrame;
+  const blockSize = Math.round((frameLength * sampleRate) / format.sampleRate);
+  const delay = Math.round((LAME_ENCODER_DELAY * sampleRate) / format.sampleRate);
+  const quietPower = Math.pow(10, VBR_QUIET_DB / 10);
+  const classes: number[] = [];
+  const block = new Float32Array(blockSize);
+  let blockFill = 0;
+  let previousPower = 0;
 
-  for (let i = 0; i < left.length; i += sampleBlockSize) {
-    const end = Math.min(i + sampleBlockSize, left.length);
-    const leftChunk = new Int16Array(end - i);
-    const rightChunk = numChannels > 1 ? new Int16Array(end - i) : undefined;
+  const frameSizes: number[] = [];
+  const parts: BlobPart[] = [];
+  let template: Uint8Array | null = null;
 
-    for (let j = 0; j < end - i; j++) {
-      let s = Math.max(-1, Math.min(1, left[i + j]));
-      leftChunk[j] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-      
-      if (rightChunk && numChannels > 1) {
-         let s2 = Math.max(-1, Math.min(1, right[i + j]));
-         rightChunk[j] = s2 < 0 ? s2 * 0x8000 : s2 * 0x7FFF;
+  const classify = (data: Float32Array) => {
+    let power = 0;
+    let slope = 0;
+    for (let i = 0; i < data.length; i++) {
+      power += data[i] * data[i];
+      if (i > 0) slope += (data[i] - data[i - 1]) ** 2;
+    }
+    power /= Math.max(1, data.length);
+    slope /= Math.max(1, data.length);
+    const busy = slope > power * VBR_BUSY_SLOPE || power > previousPower * VBR_BUSY_JUMP;
+    classes.push(power < quietPower ? 0 : busy ? 2 : 1);
+    previousPower = power;
+  };
+
+  const collect = (mono: Float32Array) => {
+    for (let i = 0; i < mono.length; ) {
+      const n = Math.min(mono.length - i, blockSize - blockFill);
+      block.set(mono.subarray(i, i + n), blockFill);
+      blockFill += n;
+      i += n;
+      if (blockFill === blockSize) {
+        classify(block);
+        blockFill = 0;
       }
     }
+  };
+
+  // Frame n holds input blocks around (n·F − delay), window overlap included
+  const emit = (final: boolean) => {
+    const emitted: Uint8Array[] = [];
+    while (queues.every(q => q.length > 0)) {
+      const n = frameSizes.length;
+      const first = Math.floor((n * blockSize - delay - blockSize / 2) / blockSize);
+      const last = Math.floor(((n + 1) * blockSize - delay + blockSize / 2 - 1) / blockSize);
+      if (!final && last >= classes.length) break;
+
+      let tier = -1;
+      for (let b = Math.max(0, first); b <= Math.min(last, classes.length - 1); b++) tier = Math.max(tier, classes[b]);
+      const heads = queues.map(q => q.shift()!);
+      const frame = heads[tierEncoder[tier < 0 ? tiers.length - 1 : tier]];
+      template ??= heads[tierEncoder[tiers.length - 1]];
+      frameSizes.push(frame.length);
+      emitted.push(frame);
+    }
+    if (emitted.length > 0) parts.push(new Blob(emitted as BlobPart[]));
+  };
+
+  return {
+    encode: (left: Int16Array, right: Int16Array | undefined, mono: Float32Array) => {
+      collect(mono);
+      encoders.forEach((encoder, i) => queues[i].push(...readers[i](asBytes(encoder.encodeBuffer(left, right)))));
+      emit(false);
+    },
+    finish: (): BlobPart[] => {
+      if (blockFill > 0) classify(block.subarray(0, blockFill));
+      encoders.forEach((encoder, i) => queues[i].push(...readers[i](asBytes(encoder.flush()))));
+      emit(true);
+      return template ? [createXingFrame(template, frameSizes) as BlobPart, ...parts] : parts;
+    }
+  };
+};
 
-    let mp3buf;
-    if (numChannels === 1) {
-      mp3buf = mp3encoder.encodeBuffer(leftChunk);
+/**
+ * Streaming MP3 encoder (lamejs). Mono or stereo; further channels are
+ * ignored. Tags, if any, go in an ID3v2 tag at the start, with the
+ * markers as chapters.
+ */
+export const createMp3Encoder = (
+  sampleRate: number,
+  channelCount: number,
+  options: Mp3Options = {},
+  metadata: AudioMetadata | null = null
+): StreamEncoder => {
+  const { mode = 'cbr', bitrate = 128, quality = 4, channels: layout = 'keep' } = options;
+  const tags: AudioMetadata = metadata ?? {};
+  const numChannels = Math.min(2, getLayoutChannelCount(channelCount, layout));
+  const vbr = mode === 'vbr' ? createVbrFrameWriter(sampleRate, numChannels, quality) : null;
+  const mp3encoder = vbr ? null : new Mp3Encoder(numChannels, sampleRate, bitrate);
+  const mp3Data: BlobPart[] = [];
+  let framesWritten = 0;
+
+  const write = (channels: Float32Array[]) => {
+    const converted = convertChannels(channels, layout);
+    framesWritten += converted[0]?.length ?? 0;
+    const left = converted[0];
+    const right = numChannels > 1 ? converted[1] : left;
+
+    for (let i = 0; i < left.length; i += MP3_BLOCK_SIZE) {
+      const leftBlock = left.subarray(i, i + MP3_BLOCK_SIZE);
+      const rightBlock = right.subarray(i, i + MP3_BLOCK_SIZE);
+      const leftChunk = toInt16(leftBlock);
+      const rightChunk = numChannels > 1 ? toInt16(rightBlock) : undefined;
+
+      if (vbr) {
+        const mono = numChannels > 1 ? leftBlock.map((s, j) => (s + rightBlock[j]) / 2) : leftBlock;
+        vbr.encode(leftChunk, rightChunk, mono);
+        continue;
+      }
+
+      const mp3buf = mp3encoder!.encodeBuffer(leftChunk, rightChunk);
+      if (mp3buf.length > 0) {
+        mp3Data.push(asBytes(mp3buf));
+      }
+    }
+  };
+
+  const finish = () => {
+    if (vbr) {
+      mp3Data.push(...vbr.finish());
     } else {
-      mp3buf = mp3encoder.encodeBuffer(leftChunk, rightChunk);
+      const mp3buf = mp3encoder!.flush();
+      if (mp3buf.length > 0) {
+        mp3Data.push(asBytes(mp3buf));
+      }
     }
-    
-    if (mp3buf.length > 0) {
-      mp3Data.push(mp3buf);
+    const duration = framesWritten / sampleRate;
+    const chapters = getChapters(tags.markers, duration);
+    if (hasId3Tags(tags) || chapters.length > 0) mp3Data.unshift(createId3Tag(tags, duration, chapters) as BlobPart);
+    return new Blob(mp3Data, { type: 'audio/mp3' });
+  };
+
+  return { write, finish };
+};
+
+/**
+ * Streaming FLAC encoder. Lossless from the quantized samples on, so a
+ * 16-bit FLAC holds exactly what a 16-bit WAV would, in about half the space.
+ * Tags go in Vorbis comments, with the cover as a picture block.
+ */
+export const createFlacEncoder = (
+  sampleRate: number,
+  channelCount: number,
+  options: FlacOptions = {},
+  metadata: AudioMetadata | null = null
+): StreamEncoder => {
+  const { bitDepth = 16, channels: layout = 'keep', dither = true } = options;
+  const tags: AudioMetadata = metadata ?? {};
+  const numChannels = getLayoutChannelCount(channelCount, layout);
+  const writer = createFlacWriter(sampleRate, numChannels, bitDepth, { comments: getVorbisComments(tags), picture: tags.cover ?? null });
+
+  const scale = Math.pow(2, bitDepth - 1);
+  const ditherAmount = dither ? 1 : 0;
+
+  return {
+    write: (channels: Float32Array[]) => {
+      writer.write(convertChannels(channels, layout).map(data => {
+        const samples = new Int32Array(data.length);
+        for (let i = 0; i < data.length; i++) {
+          const noise = (Math.random() - Math.random()) * ditherAmount;
+          samples[i] = Math.max(-scale, Math.min(scale - 1, Math.round(data[i] * scale + noise)));
+        }
+        return samples;
+      }));
+    },
+    finish: writer.finish
+  };
+};
+
+const DEFAULT_CODEC_BITRATES = { m4a: 128, opus: 64 };
+
+/**
+ * Streaming AAC or Opus encoder. Fails on the first write, with a message
+ * for the user, if the browser has no encoder for the codec.
+ */
+export const createCodecEncoder = (
+  format: 'm4a' | 'opus',
+  sampleRate: number,
+  channelCount: number,
+  options: CodecOptions = {},
+  metadata: AudioMetadata | null = null
+): StreamEncoder => {
+  const { bitrate = DEFAULT_CODEC_BITRATES[format], channels: requested = 'keep' } = options;
+  const layout = requested === 'keep' && channelCount > 2 ? 'stereo' : requested;
+  const writer = createWebCodecsWriter(format, sampleRate, getLayoutChannelCount(channelCount, layout), bitrate, metadata);
+  return {
+    write: (channels: Float32Array[]) => writer.write(convertChannels(channels, layout)),
+    finish: writer.finish
+  };
+};
+
+/**
+ * Stream encoder for `format`. `totalLength` is the number of input
+ * frames that will be written, which WAV needs up front.
+ */
+export const createAudioEncoder = (
+  format: AudioFormat,
+  sampleRate: number,
+  numChannels: number,
+  totalLength: number,
+  options: AudioEncodeOptions = {}
+): StreamEncoder => {
+  switch (format) {
+    case 'mp3': return createMp3Encoder(sampleRate, numChannels, options.mp3, options.metadata);
+    case 'flac': return createFlacEncoder(sampleRate, numChannels, options.flac, options.metadata);
+    case 'wav': return createWavEncoder(sampleRate, numChannels, totalLength, options.wav, options.metadata);
+    case 'm4a': return createCodecEncoder('m4a', sampleRate, numChannels, options.m4a, options.metadata);
+    case 'opus': return createCodecEncoder('opus', sampleRate, numChannels, options.opus, options.metadata);
+  }
+};
+
+/**
+ * Feeds in-memory audio through a stream encoder in slices.
+ */
+const encodeAll = async (
+  audio: AudioData,
+  encoder: StreamEncoder,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const length = getLength(audio);
+  for (let pos = 0; pos < length; pos += CHECK_INTERVAL) {
+    signal?.throwIfAborted();
+    onProgress?.(pos / length);
+    await encoder.write(audio.channels.map(data => data.subarray(pos, pos + CHECK_INTERVAL)));
+  }
+  return encoder.finish();
+};
+
+/**
+ * Encodes audio to a WAV Blob.
+ */
+export const bufferToWav = (
+  audio: AudioData,
+  options: WavOptions = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const encoder = createWavEncoder(audio.sampleRate, audio.channels.length, getLength(audio), options);
+  return encodeAll(audio, encoder, onProgress, signal);
+};
+
+/**
+ * Encodes audio to an MP3 Blob using lamejs.
+ */
+export const bufferToMp3 = (
+  audio: AudioData,
+  options: Mp3Options = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const encoder = createMp3Encoder(audio.sampleRate, audio.channels.length, options);
+  return encodeAll(audio, encoder, onProgress, signal);
+};
+
+/**
+ * Encodes audio to a Blob in any of the audio export formats.
+ */
+export const encodeAudio = (
+  audio: AudioData,
+  format: AudioFormat,
+  options: AudioEncodeOptions = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const encoder = createAudioEncoder(format, audio.sampleRate, audio.channels.length, getLength(audio), options);
+  return encodeAll(audio, encoder, onProgress, signal);
+};
+
+/**
+ * Finds the zero crossing of the channel mixdown closest to `pos`,
+ * searching no further than [lo, hi]. Returns `pos` if none is found.
+ * Only reads the samples in that range from the source.
+ */
+const findNearestZeroCrossing = async (source: AudioSource, pos: number, lo: number, hi: number): Promise<number> => {
+  const from = Math.max(0, lo);
+  const to = Math.min(source.length - 1, hi);
+  if (to <= from) return pos;
+  const channels = await source.read(from, to - from + 1);
+
+  const mixAt = (i: number) => {
+    let sum = 0;
+    for (let c = 0; c < channels.length; c++) sum += channels[c][i - from];
+    return sum;
+  };
+
+  const maxDistance = Math.max(pos - from, to - pos);
+  for (let d = 0; d <= maxDistance; d++) {
+    for (const i of [pos - d, pos + d]) {
+      if (i <= from || i > to) continue;
+      const a = mixAt(i - 1);
+      const b = mixAt(i);
+      if (a === 0 || b === 0 || (a < 0) !== (b < 0)) return i;
     }
+  }
+  return pos;
+};
 
-    await yieldToMain();
+/**
+ * Moves both sides of every splice onto zero crossings.
+ * Uses the mixdown so all channels are cut at the same sample.
+ */
+const snapSplicesToZeroCrossings = async (
+  source: AudioSource,
+  segments: TimeMapSegment[],
+  windowSamples: number,
+  signal?: AbortSignal
+): Promise<TimeMapSegment[]> => {
+  if (windowSamples <= 0 || segments.length < 2) return segments;
+
+  const snapped = segments.map(s => ({ ...s }));
+
+  for (let i = 0; i < snapped.length - 1; i++) {
+    if (i % 100 === 0) signal?.throwIfAborted();
+    const a = snapped[i];
+    const b = snapped[i + 1];
+
+    // Never collapse a segment or let the two sides cross each other.
+    // Room tone fills are not on the source timeline, so they can't cross.
+    const independent = a.fill || b.fill;
+    a.srcEnd = await findNearestZeroCrossing(
+      source,
+      a.srcEnd,
+      Math.max(a.srcStart + 1, a.srcEnd - windowSamples),
+      Math.min(independent ? Infinity : b.srcStart, a.srcEnd + windowSamples, source.length)
+    );
+    b.srcStart = await findNearestZeroCrossing(
+      source,
+      b.srcStart,
+      Math.max(independent ? 0 : a.srcEnd, b.srcStart - windowSamples),
+      Math.min(b.srcEnd - 1, b.srcStart + windowSamples)
+    );
   }
 
-  const mp3buf = mp3encoder.flush();
-  if (mp3buf.length > 0) {
-    mp3Data.push(mp3buf);
+  // Re-lay the output timeline
+  let cursor = 0;
+  for (const s of snapped) {
+    s.dstStart = cursor;
+    cursor += s.srcEnd - s.srcStart;
   }
 
-  return new Blob(mp3Data, { type: 'audio/mp3' });
+  return snapped;
 };
 
 /**
- * Main logic to remove silence.
+ * Half-length of the crossfade at the splice between `a` and `b`.
+ * The fade is centred on the splice. Each side contributes a handle
+ * from the audio that was cut, limited by what exists on either side.
  */
-export const removeSilence = async (
-  inputBuffer: AudioBuffer, 
-  options: SilenceOptions,
-  onProgress?: (progress: number) => void
-): Promise<ProcessResult> => {
-  const { 
-    removeRatio, 
-    thresholdDb = -35, 
-    minSilenceDuration = 0.1, 
-    padding = 0.05 
-  } = options;
-  
-  const threshold = Math.pow(10, thresholdDb / 20);
-  const sampleRate = inputBuffer.sampleRate;
-  const minSilenceSamples = Math.floor(minSilenceDuration * sampleRate);
-  const paddingSamples = Math.floor(padding * sampleRate);
-  
-  const numChannels = inputBuffer.numberOfChannels;
-  const length = inputBuffer.length;
-  
-  const blockSize = 1024;
-  const numBlocks = Math.ceil(length / blockSize);
-  const blockIsSilence = new Uint8Array(numBlocks);
-  
-  for (let b = 0; b < numBlocks; b++) {
-    const start = b * blockSize;
-    const end = Math.min(start + blockSize, length);
-    let maxAmp = 0;
-    
-    for (let c = 0; c < numChannels; c++) {
-      const data = inputBuffer.getChannelData(c);
-      for (let i = start; i < end; i++) {
-        const abs = Math.abs(data[i]);
-        if (abs > maxAmp) maxAmp = abs;
-        if (maxAmp > threshold) break;
+const getCrossfadeHalf = (
+  a: TimeMapSegment,
+  b: TimeMapSegment,
+  fadeSamples: number,
+  inputLength: number,
+  outputLength: number
+): number => {
+  const half = Math.min(
+    Math.floor(fadeSamples / 2),
+    Math.floor((a.srcEnd - a.srcStart) / 2),
+    Math.floor((b.srcEnd - b.srcStart) / 2),
+    inputLength - a.srcEnd,
+    b.srcStart,
+    b.dstStart,
+    outputLength - b.dstStart
+  );
+  return Math.max(0, half);
+};
+
+/**
+ * Renders kept segments in output order, one chunk of up to `chunkSize`
+ * frames at a time, blending every splice with an equal-power crossfade
+ * of up to `fadeSamples` samples. Only the source ranges being copied are
+ * read, so memory use does not depend on the length of the recording.
+ */
+export async function* renderStream(
+  source: AudioSource,
+  segments: TimeMapSegment[],
+  fadeSamples: number,
+  chunkSize: number = STREAM_CHUNK_SIZE,
+  signal?: AbortSignal
+): AsyncGenerator<AudioData> {
+  const numChannels = source.numberOfChannels;
+  const last = segments[segments.length - 1];
+  const outLength = last ? last.dstStart + (last.srcEnd - last.srcStart) : 0;
+
+  const halves = segments.map((b, i) =>
+    i > 0 && fadeSamples >= 2 ? getCrossfadeHalf(segments[i - 1], b, fadeSamples, source.length, outLength) : 0
+  );
+
+  // Pieces of every size are packed into fixed-size output chunks
+  const newBlock = () => Array.from({ length: numChannels }, () => new Float32Array(chunkSize));
+  let block = newBlock();
+  let fill = 0;
+  const pack = (piece: Float32Array[]): Float32Array[][] => {
+    const full: Float32Array[][] = [];
+    const n = piece[0].length;
+    let pos = 0;
+    while (pos < n) {
+      const take = Math.min(n - pos, chunkSize - fill);
+      for (let c = 0; c < numChannels; c++) block[c].set(piece[c].subarray(pos, pos + take), fill);
+      fill += take;
+      pos += take;
+      if (fill === chunkSize) {
+        full.push(block);
+        block = newBlock();
+        fill = 0;
       }
-      if (maxAmp > threshold) break;
     }
-    
-    if (maxAmp < threshold) {
-      blockIsSilence[b] = 1;
+    return full;
+  };
+  const asAudio = (channels: Float32Array[]): AudioData => ({ sampleRate: source.sampleRate, channels });
+
+  // Second half of the fade into the current segment
+  let fadeIn: Float32Array[] | null = null;
+
+  for (let i = 0; i < segments.length; i++) {
+    signal?.throwIfAborted();
+    const s = segments[i];
+    const headHalf = halves[i];
+    const tailHalf = i < segments.length - 1 ? halves[i + 1] : 0;
+
+    if (fadeIn) {
+      for (const full of pack(fadeIn)) yield asAudio(full);
+      fadeIn = null;
     }
 
-    if (b % 5000 === 0) await yieldToMain();
-  }
+    for (let pos = s.srcStart + headHalf; pos < s.srcEnd - tailHalf; pos += chunkSize) {
+      const piece = await source.read(pos, Math.min(chunkSize, s.srcEnd - tailHalf - pos));
+      for (const full of pack(piece)) yield asAudio(full);
+    }
+
+    if (tailHalf > 0) {
+      const b = segments[i + 1];
+      const n = tailHalf * 2;
+      const aData = await source.read(s.srcEnd - tailHalf, n);
+      const bData = await source.read(b.srcStart - tailHalf, n);
 
-  interface Region {
-    start: number;
-    end: number; 
-    isSilence: boolean;
+      const fade: Float32Array[] = [];
+      for (let c = 0; c < numChannels; c++) {
+        const out = new Float32Array(n);
+        for (let k = 0; k < n; k++) {
+          const t = ((k + 0.5) / n) * (Math.PI / 2);
+          out[k] = aData[c][k] * Math.cos(t) + bData[c][k] * Math.sin(t);
+        }
+        fade.push(out);
+      }
+
+      for (const full of pack(fade.map(f => f.subarray(0, tailHalf)))) yield asAudio(full);
+      fadeIn = fade.map(f => f.subarray(tailHalf));
+    }
   }
+
+  if (fill > 0) yield asAudio(block.map(data => data.subarray(0, fill)));
+}
+
+/**
+ * Turns per-hop silence flags into regions, with padding applied around speech.
+ */
+export const flagsToRegions = (detection: DetectionResult, length: number, paddingSamples: number): AudioRegion[] => {
+  const { flags: blockIsSilence, hopSize: blockSize } = detection;
+  const numBlocks = blockIsSilence.length;
   
-  const rawRegions: Region[] = [];
+  const rawRegions: AudioRegion[] = [];
   let currentStart = 0;
   let currentIsSilence = blockIsSilence[0] === 1;
   
@@ -469,11 +1286,11 @@ export const removeSilence = async (
   }
   rawRegions.push({ 
     start: currentStart * blockSize, 
-    end: numBlocks * blockSize, 
+    end: length, 
     isSilence: currentIsSilence 
   });
 
-  const regions: Region[] = rawRegions.map(r => ({...r}));
+  const regions: AudioRegion[] = rawRegions.map(r => ({...r}));
 
   for (let i = 0; i < regions.length - 1; i++) {
     const current = regions[i];
@@ -497,8 +1314,121 @@ export const removeSilence = async (
     }
   }
 
+  return regions.filter(r => (r.end - r.start) > 0);
+};
+
+const getDetectorOptions = (options: SilenceOptions) => {
+  const { 
+    thresholdDb = -35, 
+    detector = 'peak',
+    hopSize = 1024,
+    holdTime = 0,
+    hysteresisDb = 6
+  } = options;
+  return { detector, detectorOptions: { thresholdDb, hopSize, holdTime, hysteresisDb } };
+};
+
+/**
+ * Runs the configured detector and returns the raw per-hop silence flags.
+ */
+export const detectSilenceFlags = async (
+  input: AudioData,
+  options: SilenceOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<DetectionResult> => {
+  const { detector, detectorOptions } = getDetectorOptions(options);
+  return await detectSilence(
+    input.channels,
+    input.sampleRate,
+    detector,
+    detectorOptions,
+    onProgress,
+    signal
+  );
+};
+
+/**
+ * Detects speech and silence regions, with padding applied around speech.
+ * The result can be edited and handed to `renderRegions`.
+ */
+export const detectRegions = async (
+  input: AudioData, 
+  options: SilenceOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<AudioRegion[]> => {
+  const { padding = 0.05, breathMode = 'off' } = options;
+  const withBreaths = breathMode !== 'off';
+  const detection = await detectSilenceFlags(input, options, onProgress && (p => onProgress(withBreaths ? p * 0.8 : p)), signal);
+  const regions = flagsToRegions(detection, getLength(input), Math.floor(padding * input.sampleRate));
+  if (!withBreaths) return regions;
+
+  const breaths = await detectBreaths(createMemorySource(input), regions, onProgress && (p => onProgress(0.8 + p * 0.2)), signal);
+  return applyBreaths(regions, breaths, breathMode);
+};
+
+/**
+ * `detectRegions` for a source that is read window by window.
+ */
+export const detectRegionsStreaming = async (
+  source: AudioSource,
+  options: SilenceOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<AudioRegion[]> => {
+  const { padding = 0.05, breathMode = 'off' } = options;
+  const { detector, detectorOptions } = getDetectorOptions(options);
+  const withBreaths = breathMode !== 'off';
+
+  const detection = await detectSilenceStreaming(
+    source,
+    detector,
+    detectorOptions,
+    STREAM_CHUNK_SIZE,
+    onProgress && (p => onProgress(withBreaths ? p * 0.8 : p)),
+    signal
+  );
+  const regions = flagsToRegions(detection, source.length, Math.floor(padding * source.sampleRate));
+  if (!withBreaths) return regions;
+
+  const breaths = await detectBreaths(source, regions, onProgress && (p => onProgress(0.8 + p * 0.2)), signal);
+  return applyBreaths(regions, breaths, breathMode);
+};
+
+/**
+ * Works out the cut from a region list: shortens silences according to the
+ * options, honours manual edits and refines the splice points.
+ * Regions must be ordered, contiguous and cover the whole source.
+ */
+export const planRender = async (
+  source: AudioSource,
+  regions: AudioRegion[],
+  options: SilenceOptions,
+  signal?: AbortSignal
+): Promise<TimeMap> => {
+  const { 
+    removeRatio, 
+    minSilenceDuration = 0.1, 
+    padding = 0.05,
+    snapToZeroCrossings = false,
+    zeroCrossingWindow = 0.005,
+    pauseTargets
+  } = options;
+
+  const { sampleRate, length } = source;
+  const minSilenceSamples = Math.floor(minSilenceDuration * sampleRate);
+  const paddingSamples = Math.floor(padding * sampleRate);
   let outputSamplesCount = 0;
-  const regionDirectives: { regionIndex: number, keepRatio: number }[] = [];
+  const segments: TimeMapSegment[] = [];
+
+  // Room tone for lengthening rushed pauses comes from the middle of the longest detected silence
+  let roomTone: AudioRegion | null = null;
+  if (pauseTargets?.minPause) {
+    for (const r of regions) {
+      if (r.isSilence && !r.manual && !r.breath && (!roomTone || r.end - r.start > roomTone.end - roomTone.start)) roomTone = r;
+    }
+  }
   
   for (let i = 0; i < regions.length; i++) {
     const r = regions[i];
@@ -506,57 +1436,109 @@ export const removeSilence = async (
     
     if (regionLength <= 0) continue;
 
-    let keepRatio = 1;
-    if (r.isSilence && regionLength >= minSilenceSamples) {
-      keepRatio = 1 - removeRatio;
+    let keepSamples = regionLength;
+    let fillSamples = 0;
+
+    if (r.isSilence && (r.manual || r.breath)) {
+      // Cuts painted by the user and breaths are always removed completely
+      keepSamples = 0;
+    } else if (r.isSilence && pauseTargets) {
+      // The heard pause includes the padding left on neighbouring speech
+      const prev = regions[i - 1];
+      const next = regions[i + 1];
+      const gapLength = regionLength
+        + (prev && !prev.isSilence ? paddingSamples : 0)
+        + (next && !next.isSilence ? paddingSamples : 0);
+      const target = gapLength >= pauseTargets.longPauseThreshold * sampleRate
+        ? pauseTargets.longPause
+        : pauseTargets.shortPause;
+      const targetSamples = Math.floor(target * sampleRate);
+      const minSamples = Math.floor((pauseTargets.minPause || 0) * sampleRate);
+      // Pauses at the very start or end of the file are never lengthened
+      const isInterior = i > 0 && i < regions.length - 1;
+
+      if (gapLength > targetSamples) {
+        keepSamples = Math.max(0, regionLength - (gapLength - targetSamples));
+      } else if (isInterior && gapLength < minSamples) {
+        fillSamples = minSamples - gapLength;
+      }
+    } else if (r.isSilence && regionLength >= minSilenceSamples) {
+      keepSamples = Math.floor(regionLength * (1 - removeRatio));
     }
     
-    const keepSamples = Math.floor(regionLength * keepRatio);
+    segments.push({ srcStart: r.start, srcEnd: r.start + keepSamples, dstStart: outputSamplesCount });
     outputSamplesCount += keepSamples;
-    
-    regionDirectives.push({ regionIndex: i, keepRatio });
-  }
-  
-  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-  const outputBuffer = audioContext.createBuffer(numChannels, outputSamplesCount, sampleRate);
-  
-  for (let c = 0; c < numChannels; c++) {
-    const inputData = inputBuffer.getChannelData(c);
-    const outputData = outputBuffer.getChannelData(c);
-    let writeCursor = 0;
-    
-    for (let i = 0; i < regionDirectives.length; i++) {
-      const { regionIndex, keepRatio } = regionDirectives[i];
-      const r = regions[regionIndex];
-      
-      const regionLength = r.end - r.start;
-      
-      if (keepRatio === 1) {
-        outputData.set(inputData.subarray(r.start, r.end), writeCursor);
-        writeCursor += regionLength;
-      } else {
-        const samplesToKeep = Math.floor(regionLength * keepRatio);
-        outputData.set(inputData.subarray(r.start, r.start + samplesToKeep), writeCursor);
-        writeCursor += samplesToKeep;
-      }
-      
-      if (c === 0 && onProgress) {
-        if (i % 50 === 0) {
-            onProgress(i / regions.length);
-            await yieldToMain();
-        }
+
+    if (fillSamples > 0 && roomTone && roomTone.end - roomTone.start > 0) {
+      // Loop the room tone as often as needed; crossfades hide the seams
+      const toneLength = roomTone.end - roomTone.start;
+      const toneStart = roomTone.start + Math.floor(Math.max(0, toneLength - fillSamples) / 2);
+      while (fillSamples > 0) {
+        const n = Math.min(fillSamples, roomTone.end - toneStart);
+        segments.push({ srcStart: toneStart, srcEnd: toneStart + n, dstStart: outputSamplesCount, fill: true });
+        outputSamplesCount += n;
+        fillSamples -= n;
       }
     }
   }
 
-  const finalRegions: AudioRegion[] = regions.filter(r => (r.end - r.start) > 0).map(r => ({
-    start: r.start,
-    end: r.end,
-    isSilence: r.isSilence
-  }));
+  // Merge contiguous keeps so only real splices remain, then refine the cut points
+  let keptSegments = createTimeMap(segments, sampleRate, length).segments;
+  if (snapToZeroCrossings) {
+    keptSegments = await snapSplicesToZeroCrossings(source, keptSegments, Math.floor(zeroCrossingWindow * sampleRate), signal);
+  }
+  return createTimeMap(keptSegments, sampleRate, length);
+};
+
+/**
+ * Builds the output from a region list: shortens silences according to the
+ * options, honours manual edits and splices the result.
+ * Regions must be ordered, contiguous and cover the whole buffer.
+ */
+export const renderRegions = async (
+  input: AudioData, 
+  regions: AudioRegion[],
+  options: SilenceOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ProcessResult> => {
+  const { crossfadeDuration = 0.01, breathMode = 'off', breathReductionDb = 12 } = options;
+  const sampleRate = input.sampleRate;
+  const source = createMemorySource(input);
+
+  const timeMap = await planRender(source, regions, options, signal);
+  const outLength = Math.round(timeMap.processedDuration * sampleRate);
+  const output = createAudioData(input.channels.length, Math.max(1, outLength), sampleRate);
+
+  let pos = 0;
+  const blocks = renderStream(source, timeMap.segments, Math.floor(crossfadeDuration * sampleRate), STREAM_CHUNK_SIZE, signal);
+  for await (const block of blocks) {
+    onProgress?.(pos / Math.max(1, outLength));
+    block.channels.forEach((data, c) => output.channels[c].set(data, pos));
+    pos += getLength(block);
+  }
+
+  if (breathMode === 'attenuate') {
+    attenuateRanges(output.channels, 0, getBreathRanges(regions, timeMap), breathReductionDb, sampleRate);
+  }
 
   return {
-    buffer: outputBuffer,
-    regions: finalRegions
+    audio: output,
+    regions: regions.map(r => ({ ...r })),
+    timeMap
   };
 };
+
+/**
+ * Main logic to remove silence.
+ */
+export const removeSilence = async (
+  input: AudioData, 
+  options: SilenceOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ProcessResult> => {
+  // Detection is the bulk of the work: report it as the first half
+  const regions = await detectRegions(input, options, onProgress && (p => onProgress(p * 0.5)), signal);
+  return await renderRegions(input, regions, options, onProgress && (p => onProgress(0.5 + p * 0.5)), signal);
+};
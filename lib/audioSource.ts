@@ -0,0 +1,216 @@
+import { AudioData, getLength } from './audioData';
+
+/**
+ * Random access to PCM audio that may not fit in memory.
+ * `read` returns one Float32Array per channel; they may be views into
+ * shared storage and must not be modified.
+ */
+export interface AudioSource {
+  sampleRate: number;
+  numberOfChannels: number;
+  length: number;
+  read: (start: number, length: number) => Promise<Float32Array[]>;
+}
+
+/**
+ * What a WAV header says about the samples that follow it.
+ */
+export interface WavInfo {
+  sampleRate: number;
+  numberOfChannels: number;
+  length: number; // sample frames
+  bitsPerSample: number; // container size: 20-bit audio in 3 bytes reads as 24
+  isFloat: boolean;
+  dataOffset: number; // byte offset of the first sample
+  blockAlign: number;
+}
+
+/**
+ * Peak memory estimates in bytes. `output` is the encoded result, which the
+ * browser can page to disk once it becomes a Blob.
+ */
+export interface MemoryEstimate {
+  inMemory: number;
+  streaming: number;
+  output: number;
+}
+
+// Sample frames per window for chunked processing (~10s at 48kHz)
+export const STREAM_CHUNK_SIZE = 1 << 19;
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const readBytes = async (file: Blob, start: number, length: number): Promise<DataView> => {
+  return new DataView(await file.slice(start, start + length).arrayBuffer());
+};
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+/**
+ * Reads the header of a RIFF/RF64/BW64 WAV file without loading the samples.
+ * Returns null if the file is not a WAV this module can stream.
+ */
+export const probeWav = async (file: Blob): Promise<WavInfo | null> => {
+  if (file.size < 12) return null;
+  const head = await readBytes(file, 0, 12);
+  const riff = fourCC(head, 0);
+  const isRf64 = riff === 'RF64' || riff === 'BW64';
+  if ((riff !== 'RIFF' && !isRf64) || fourCC(head, 8) !== 'WAVE') return null;
+
+  let format: { tag: number; channels: number; sampleRate: number; blockAlign: number; bits: number } | null = null;
+  let rf64DataSize: number | null = null;
+  let offset = 12;
+
+  // Walk the chunk list until the sample data
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 8);
+    const id = fourCC(header, 0);
+    const size = header.getUint32(4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const fmt = await readBytes(file, body, Math.min(size, 40));
+      let tag = fmt.getUint16(0, true);
+      if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        // The real format is the first two bytes of the SubFormat GUID
+        tag = fmt.getUint16(24, true);
+      }
+      format = {
+        tag,
+        channels: fmt.getUint16(2, true),
+        sampleRate: fmt.getUint32(4, true),
+        blockAlign: fmt.getUint16(12, true),
+        bits: fmt.getUint16(14, true)
+      };
+    } else if (id === 'ds64') {
+      // RF64: 64-bit sizes live here, the data chunk size field holds 0xFFFFFFFF
+      const ds64 = await readBytes(file, body, 24);
+      rf64DataSize = ds64.getUint32(16, true) + ds64.getUint32(20, true) * 2 ** 32;
+    } else if (id === 'data') {
+      if (!format || format.channels === 0 || format.blockAlign === 0) return null;
+      const isFloat = format.tag === WAVE_FORMAT_IEEE_FLOAT;
+      // Samples are left-justified in whole bytes, so they read at the container size
+      const container = (format.blockAlign / format.channels) * 8;
+      const supported = isFloat
+        ? (container === 32 || container === 64) && format.bits === container
+        : format.tag === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(container) && format.bits > 0 && format.bits <= container;
+      if (!supported) return null;
+
+      const declared = isRf64 && rf64DataSize !== null ? rf64DataSize : size;
+      // Recorders that were interrupted leave a wrong size behind
+      const dataBytes = Math.min(declared, file.size - body);
+      return {
+        sampleRate: format.sampleRate,
+        numberOfChannels: format.channels,
+        length: Math.floor(dataBytes / format.blockAlign),
+        bitsPerSample: container,
+        isFloat,
+        dataOffset: body,
+        blockAlign: format.blockAlign
+      };
+    }
+
+    // Chunks are word aligned
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+};
+
+/**
+ * Streams samples straight from a WAV file, one slice at a time.
+ */
+export const openWavSource = async (file: Blob): Promise<AudioSource> => {
+  const info = await probeWav(file);
+  if (!info) throw new Error("Only PCM and float WAV files can be streamed");
+
+  const { numberOfChannels, blockAlign, bitsPerSample, isFloat } = info;
+  const bytesPerSample = bitsPerSample / 8;
+
+  const read = async (start: number, length: number): Promise<Float32Array[]> => {
+    const from = Math.max(0, Math.min(info.length, start));
+    const frames = Math.max(0, Math.min(info.length, start + length) - from);
+    const view = await readBytes(file, info.dataOffset + from * blockAlign, frames * blockAlign);
+
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < numberOfChannels; c++) channels.push(new Float32Array(frames));
+
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < numberOfChannels; c++) {
+        const p = i * blockAlign + c * bytesPerSample;
+        let value: number;
+        if (isFloat) {
+          value = bitsPerSample === 32 ? view.getFloat32(p, true) : view.getFloat64(p, true);
+        } else if (bitsPerSample === 8) {
+          value = (view.getUint8(p) - 128) / 128;
+        } else if (bitsPerSample === 16) {
+          value = view.getInt16(p, true) / 32768;
+        } else if (bitsPerSample === 24) {
+          const v = view.getUint8(p) | (view.getUint8(p + 1) << 8) | (view.getInt8(p + 2) << 16);
+          value = v / 8388608;
+        } else {
+          value = view.getInt32(p, true) / 2147483648;
+        }
+        channels[c][i] = value;
+      }
+    }
+    return channels;
+  };
+
+  return {
+    sampleRate: info.sampleRate,
+    numberOfChannels,
+    length: info.length,
+    read
+  };
+};
+
+/**
+ * Wraps audio that is already in memory. Reads are zero-copy views.
+ */
+export const createMemorySource = (audio: AudioData): AudioSource => {
+  const length = getLength(audio);
+  return {
+    sampleRate: audio.sampleRate,
+    numberOfChannels: audio.channels.length,
+    length,
+    read: async (start, count) => {
+      const from = Math.max(0, Math.min(length, start));
+      const to = Math.max(from, Math.min(length, start + count));
+      return audio.channels.map(data => data.subarray(from, to));
+    }
+  };
+};
+
+/**
+ * Rough peak memory for processing a recording either fully in memory or
+ * in chunks. Float32 working copies dominate the in-memory figure: the
+ * decoded buffer, the copy handed to the worker, the cut result and the
+ * enhancement stages each hold a full-length copy at some point.
+ */
+export const estimateMemory = (
+  info: { sampleRate: number; numberOfChannels: number; length: number },
+  options: { silence: boolean; enhance: boolean }
+): MemoryEstimate => {
+  const fullCopy = info.length * info.numberOfChannels * 4;
+  const chunkCopy = STREAM_CHUNK_SIZE * info.numberOfChannels * 4;
+  // 16-bit WAV preview, assuming nothing is cut (worst case)
+  const output = info.length * info.numberOfChannels * 2;
+
+  let copies = 2; // decoded buffer + worker copy
+  if (options.silence) copies += 2; // worker result + AudioBuffer for display
+  if (options.enhance) copies += 4; // gated copy, its AudioBuffer, rendered output, normalized copy
+
+  // Detection flags are one byte per 256 samples at the smallest hop
+  const flags = Math.ceil(info.length / 256);
+
+  return {
+    inMemory: fullCopy * copies + output,
+    // Source slice, rendered chunk, enhancement pre-roll and encoder buffers
+    streaming: chunkCopy * 8 + flags,
+    output
+  };
+};
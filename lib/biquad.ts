@@ -0,0 +1,46 @@
+/**
+ * Second-order IIR filters for processing raw samples, with coefficients
+ * from the RBJ Audio EQ Cookbook (the same shapes as Web Audio's
+ * BiquadFilterNode).
+ */
+
+export type BiquadType = 'highpass' | 'lowpass' | 'notch';
+
+/**
+ * Normalized coefficients: [b0, b1, b2, a1, a2].
+ */
+export type BiquadCoefficients = [number, number, number, number, number];
+
+export const getBiquadCoefficients = (
+  type: BiquadType,
+  frequency: number,
+  q: number,
+  sampleRate: number
+): BiquadCoefficients => {
+  // Keep the corner safely under Nyquist, where the formulas break down
+  const w0 = 2 * Math.PI * Math.min(frequency, sampleRate * 0.45) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const a0 = 1 + alpha;
+
+  const b = type === 'highpass' ? [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2]
+    : type === 'lowpass' ? [(1 - cos) / 2, 1 - cos, (1 - cos) / 2]
+    : [1, -2 * cos, 1];
+
+  return [b[0] / a0, b[1] / a0, b[2] / a0, (-2 * cos) / a0, (1 - alpha) / a0];
+};
+
+/**
+ * A biquad that filters one sample at a time, keeping its state between calls.
+ */
+export const createBiquad = (coefficients: BiquadCoefficients): ((x: number) => number) => {
+  const [b0, b1, b2, a1, a2] = coefficients;
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+
+  return (x: number) => {
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    return y;
+  };
+};
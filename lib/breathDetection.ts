@@ -0,0 +1,247 @@
+import { AudioRegion } from './audioProcessing';
+import { AudioSource } from './audioSource';
+import { fft, hannWindow, nextPowerOfTwo } from './fft';
+import { normalizeRegions } from './regionEditing';
+import { TimeMap } from './timeMap';
+
+/**
+ * Breaths sit above the silence threshold, so detection keeps them as
+ * speech. They are told apart from words by their spectrum: broadband and
+ * noise-like, with little energy where voiced speech has its harmonics,
+ * well below the speech level and a fraction of a second long.
+ */
+
+/**
+ * What to do with detected breaths.
+ * 'mark': show them only. 'attenuate': lower them by `breathReductionDb`.
+ * 'remove': cut them out completely.
+ */
+export type BreathMode = 'off' | 'mark' | 'attenuate' | 'remove';
+
+export interface BreathSegment {
+  start: number; // sample index
+  end: number;   // sample index
+}
+
+const FRAME_SECONDS = 0.02;
+const MIN_BREATH_SECONDS = 0.15; // shorter noise-like bursts are usually fricatives
+const MAX_BREATH_SECONDS = 1.0;
+// A breath must be this far below the typical level of voiced speech
+const BELOW_SPEECH_DB = 12;
+// ...and have voiced speech this close on at least one side
+const MAX_GAP_SECONDS = 2;
+// Spectral flatness above which a frame counts as noise-like
+const MIN_FLATNESS = 0.2;
+// Share of 100Hz-1kHz energy below which a frame has no voicing
+const MAX_VOICED_SHARE = 0.3;
+const MIN_VOICED_SHARE = 0.5;
+// Edge ramps for attenuation, so the gain change doesn't click
+const RAMP_SECONDS = 0.005;
+
+const FRAME_OTHER = 0;
+const FRAME_BREATHY = 1;
+const FRAME_VOICED = 2;
+
+/**
+ * Finds breaths inside the speech regions of `regions`.
+ */
+export const detectBreaths = async (
+  source: AudioSource,
+  regions: AudioRegion[],
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<BreathSegment[]> => {
+  const { sampleRate, numberOfChannels } = source;
+  const frameSize = nextPowerOfTwo(Math.round(FRAME_SECONDS * sampleRate));
+  const hop = frameSize >> 1;
+  const window = hannWindow(frameSize);
+  const re = new Float32Array(frameSize);
+  const im = new Float32Array(frameSize);
+
+  const binHz = sampleRate / frameSize;
+  const loBin = Math.max(1, Math.round(100 / binHz));
+  const midBin = Math.round(1000 / binHz);
+  const hiBin = Math.min(frameSize >> 1, Math.round(8000 / binHz));
+
+  const positions: number[] = [];
+  const levels: number[] = [];
+  const kinds: number[] = [];
+  const regionIndex: number[] = [];
+
+  const speech = regions.filter(r => !r.isSilence);
+  const total = speech.reduce((sum, r) => sum + (r.end - r.start), 0) || 1;
+  let done = 0;
+  // Frames read per call, so long regions don't need one huge read
+  const framesPerRead = 512;
+
+  for (let ri = 0; ri < speech.length; ri++) {
+    const r = speech[ri];
+    for (let pos = r.start; pos + frameSize <= r.end; pos += hop * framesPerRead) {
+      signal?.throwIfAborted();
+      onProgress?.((done + pos - r.start) / total);
+
+      const readLength = Math.min(r.end - pos, hop * (framesPerRead - 1) + frameSize);
+      const channels = await source.read(pos, readLength);
+
+      for (let offset = 0; offset + frameSize <= readLength && offset < hop * framesPerRead; offset += hop) {
+        let energy = 0;
+        for (let i = 0; i < frameSize; i++) {
+          let v = 0;
+          for (let c = 0; c < numberOfChannels; c++) v += channels[c][offset + i];
+          v /= numberOfChannels;
+          energy += v * v;
+          re[i] = v * window[i];
+          im[i] = 0;
+        }
+        fft(re, im);
+
+        let sum = 0;
+        let logSum = 0;
+        let low = 0;
+        for (let k = loBin; k < hiBin; k++) {
+          const p = re[k] * re[k] + im[k] * im[k] + 1e-20;
+          sum += p;
+          logSum += Math.log(p);
+          if (k < midBin) low += p;
+        }
+        const bins = hiBin - loBin;
+        const flatness = sum > 0 ? Math.exp(logSum / bins) / (sum / bins) : 0;
+        const voicedShare = sum > 0 ? low / sum : 0;
+
+        positions.push(pos + offset);
+        levels.push(10 * Math.log10(energy / frameSize + 1e-20));
+        regionIndex.push(ri);
+        kinds.push(
+          voicedShare >= MIN_VOICED_SHARE ? FRAME_VOICED
+            : flatness >= MIN_FLATNESS && voicedShare <= MAX_VOICED_SHARE ? FRAME_BREATHY
+            : FRAME_OTHER
+        );
+      }
+    }
+    done += r.end - r.start;
+  }
+
+  // Typical level of voiced speech: the 90th percentile of voiced frames
+  const voicedLevels = levels.filter((_, i) => kinds[i] === FRAME_VOICED).sort((a, b) => a - b);
+  if (voicedLevels.length === 0) return [];
+  const speechDb = voicedLevels[Math.floor(voicedLevels.length * 0.9)];
+  const voicedPositions = positions.filter((_, i) => kinds[i] === FRAME_VOICED);
+
+  // Is there voiced speech within MAX_GAP of [start, end)?
+  const maxGap = MAX_GAP_SECONDS * sampleRate;
+  const hasSpeechNear = (start: number, end: number) => {
+    let lo = 0;
+    let hi = voicedPositions.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (voicedPositions[mid] < start) lo = mid + 1; else hi = mid;
+    }
+    const after = voicedPositions[lo];
+    const before = voicedPositions[lo - 1];
+    return (after !== undefined && after - end <= maxGap) || (before !== undefined && start - (before + frameSize) <= maxGap);
+  };
+
+  const breaths: BreathSegment[] = [];
+  const minLength = MIN_BREATH_SECONDS * sampleRate;
+  const maxLength = MAX_BREATH_SECONDS * sampleRate;
+  let runStart = -1;
+
+  for (let i = 0; i <= positions.length; i++) {
+    const isBreath = i < positions.length && kinds[i] === FRAME_BREATHY && levels[i] <= speechDb - BELOW_SPEECH_DB;
+    const continues = isBreath && runStart !== -1 && regionIndex[i] === regionIndex[i - 1] && positions[i] - positions[i - 1] === hop;
+
+    if (runStart !== -1 && !continues) {
+      const region = speech[regionIndex[runStart]];
+      const start = positions[runStart];
+      const end = Math.min(region.end, positions[i - 1] + frameSize);
+      if (end - start >= minLength && end - start <= maxLength && hasSpeechNear(start, end)) {
+        breaths.push({ start, end });
+      }
+      runStart = -1;
+    }
+    if (isBreath && runStart === -1) runStart = i;
+  }
+
+  onProgress?.(1);
+  return breaths;
+};
+
+/**
+ * Splits the speech regions around breaths. Breaths to remove become
+ * silences, the others stay speech; both carry the `breath` flag.
+ */
+export const applyBreaths = (regions: AudioRegion[], breaths: BreathSegment[], mode: BreathMode): AudioRegion[] => {
+  if (mode === 'off' || breaths.length === 0) return regions;
+
+  const out: AudioRegion[] = [];
+  let b = 0;
+  for (const r of regions) {
+    if (r.isSilence) {
+      out.push(r);
+      continue;
+    }
+    let cursor = r.start;
+    while (b < breaths.length && breaths[b].start < r.end) {
+      const breath = breaths[b];
+      if (breath.end > cursor) {
+        const start = Math.max(cursor, breath.start);
+        const end = Math.min(r.end, breath.end);
+        if (start > cursor) out.push({ ...r, start: cursor, end: start });
+        out.push({ start, end, isSilence: mode === 'remove', breath: true });
+        cursor = end;
+      }
+      if (breath.end > r.end) break;
+      b++;
+    }
+    if (cursor < r.end) out.push({ ...r, start: cursor, end: r.end });
+  }
+  return normalizeRegions(out);
+};
+
+/**
+ * Where the kept breaths landed in the output, as [start, end) sample ranges.
+ */
+export const getBreathRanges = (regions: AudioRegion[], timeMap: TimeMap): [number, number][] => {
+  const ranges: [number, number][] = [];
+  const segments = timeMap.segments.filter(s => !s.fill);
+  let s = 0;
+
+  for (const r of regions) {
+    if (!r.breath || r.isSilence) continue;
+    while (s < segments.length && segments[s].srcEnd <= r.start) s++;
+    for (let k = s; k < segments.length && segments[k].srcStart < r.end; k++) {
+      const seg = segments[k];
+      const start = Math.max(r.start, seg.srcStart);
+      const end = Math.min(r.end, seg.srcEnd);
+      if (end > start) ranges.push([seg.dstStart + start - seg.srcStart, seg.dstStart + end - seg.srcStart]);
+    }
+  }
+  return ranges;
+};
+
+/**
+ * Lowers the output by `reductionDb` over `ranges`, with short ramps at
+ * the edges. `channels` hold output samples starting at `offset`, so the
+ * output can be processed a block at a time.
+ */
+export const attenuateRanges = (
+  channels: Float32Array[],
+  offset: number,
+  ranges: [number, number][],
+  reductionDb: number,
+  sampleRate: number
+) => {
+  const length = channels[0]?.length ?? 0;
+  const target = Math.pow(10, -Math.abs(reductionDb) / 20);
+  const ramp = Math.max(1, Math.round(RAMP_SECONDS * sampleRate));
+
+  for (const [start, end] of ranges) {
+    const from = Math.max(start, offset);
+    const to = Math.min(end, offset + length);
+    for (let x = from; x < to; x++) {
+      const t = Math.min(1, Math.min(x - start, end - 1 - x) / ramp);
+      const gain = 1 + (target - 1) * (0.5 - 0.5 * Math.cos(Math.PI * t));
+      for (const data of channels) data[x - offset] *= gain;
+    }
+  }
+};
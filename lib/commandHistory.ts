@@ -0,0 +1,72 @@
+/**
+ * A reversible change. `undo` and `redo` must be idempotent setters
+ * (they restore a value rather than apply a delta).
+ */
+export interface Command {
+  /**
+   * Commands with the same key pushed in quick succession are merged,
+   * so dragging a slider produces one undo step.
+   */
+  key: string;
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  timestamp: number;
+}
+
+export interface HistoryState {
+  past: Command[];
+  future: Command[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const MAX_HISTORY = 200;
+const MERGE_WINDOW_MS = 800;
+
+/**
+ * Records an already-applied command. Clears the redo stack.
+ */
+export const pushCommand = (history: HistoryState, command: Command): HistoryState => {
+  const last = history.past[history.past.length - 1];
+
+  if (last && last.key === command.key && command.timestamp - last.timestamp < MERGE_WINDOW_MS) {
+    // Keep the oldest undo, take the newest redo
+    const merged: Command = { ...command, undo: last.undo };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  return { past: [...history.past, command].slice(-MAX_HISTORY), future: [] };
+};
+
+/**
+ * Reverts the most recent command. Returns the same state if there is nothing to undo.
+ */
+export const undoCommand = (history: HistoryState): HistoryState => {
+  const command = history.past[history.past.length - 1];
+  if (!command) return history;
+
+  command.undo();
+  // Zeroing the timestamp stops a later push from merging into a redone command
+  return { past: history.past.slice(0, -1), future: [{ ...command, timestamp: 0 }, ...history.future] };
+};
+
+/**
+ * Re-applies the most recently undone command.
+ */
+export const redoCommand = (history: HistoryState): HistoryState => {
+  const command = history.future[0];
+  if (!command) return history;
+
+  command.redo();
+  return { past: [...history.past, command], future: history.future.slice(1) };
+};
+
+/**
+ * Removes every command whose key starts with `prefix` from both stacks,
+ * for state that was replaced outright and must not be restored.
+ */
+export const dropCommands = (history: HistoryState, prefix: string): HistoryState => ({
+  past: history.past.filter(c => !c.key.startsWith(prefix)),
+  future: history.future.filter(c => !c.key.startsWith(prefix))
+});
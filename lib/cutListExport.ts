@@ -0,0 +1,322 @@
+import { TimeMap, TimeMapSegment } from './timeMap';
+
+export type CutListFormat = 'edl' | 'fcpxml' | 'premiere' | 'audacity';
+
+export type TimelineFrameRate = '23.976' | '24' | '25' | '29.97' | '29.97df' | '30' | '50' | '59.94' | '60';
+
+/**
+ * Options for timeline (NLE) exports.
+ */
+export interface TimelineOptions {
+  frameRate: TimelineFrameRate;
+  /**
+   * Timecode of the first frame of the exported sequence, "HH:MM:SS:FF".
+   * Default "01:00:00:00".
+   */
+  startTimecode?: string;
+  /**
+   * Sequence / project name written into the file.
+   */
+  title?: string;
+}
+
+/**
+ * Everything a cut list exporter needs to know about the source.
+ */
+export interface CutListSource {
+  fileName: string;
+  sampleRate: number;
+  numberOfChannels: number;
+  timeMap: TimeMap;
+}
+
+interface RateInfo {
+  timebase: number;   // nominal integer frames per second
+  ntsc: boolean;      // true for the x1000/1001 rates
+  dropFrame: boolean;
+  fcpxmlFormat: string; // Final Cut's name for the 1080p format at this rate
+}
+
+const RATES: Record<TimelineFrameRate, RateInfo> = {
+  '23.976': { timebase: 24, ntsc: true, dropFrame: false, fcpxmlFormat: 'FFVideoFormat1080p2398' },
+  '24': { timebase: 24, ntsc: false, dropFrame: false, fcpxmlFormat: 'FFVideoFormat1080p24' },
+  '25': { timebase: 25, ntsc: false, dropFrame: false, fcpxmlFormat: 'FFVideoFormat1080p25' },
+  '29.97': { timebase: 30, ntsc: true, dropFrame: false, fcpxmlFormat: 'FFVideoFormat1080p2997' },
+  '29.97df': { timebase: 30, ntsc: true, dropFrame: true, fcpxmlFormat: 'FFVideoFormat1080p2997' },
+  '30': { timebase: 30, ntsc: false, dropFrame: false, fcpxmlFormat: 'FFVideoFormat1080p30' },
+  '50': { timebase: 50, ntsc: false, dropFrame: false, fcpxmlFormat: 'FFVideoFormat1080p50' },
+  '59.94': { timebase: 60, ntsc: true, dropFrame: false, fcpxmlFormat: 'FFVideoFormat1080p5994' },
+  '60': { timebase: 60, ntsc: false, dropFrame: false, fcpxmlFormat: 'FFVideoFormat1080p60' },
+};
+
+const actualFps = (rate: RateInfo) => rate.ntsc ? rate.timebase * 1000 / 1001 : rate.timebase;
+
+/**
+ * Converts a frame count to "HH:MM:SS:FF" (or "HH:MM:SS;FF" for drop frame).
+ */
+export const framesToTimecode = (frames: number, frameRate: TimelineFrameRate): string => {
+  const rate = RATES[frameRate];
+  const fps = rate.timebase;
+  let f = Math.max(0, Math.round(frames));
+
+  if (rate.dropFrame) {
+    // Drop frame skips 2 (or 4 at 59.94) frame numbers every minute,
+    // except every tenth minute.
+    const dropFrames = Math.round(fps / 15);
+    const framesPer10Min = Math.round(actualFps(rate) * 600);
+    const framesPerMin = fps * 60 - dropFrames;
+    const tens = Math.floor(f / framesPer10Min);
+    const rem = f % framesPer10Min;
+    f += dropFrames * 9 * tens;
+    if (rem > dropFrames) {
+      f += dropFrames * Math.floor((rem - dropFrames) / framesPerMin);
+    }
+  }
+
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const ff = f % fps;
+  const ss = Math.floor(f / fps) % 60;
+  const mm = Math.floor(f / (fps * 60)) % 60;
+  const hh = Math.floor(f / (fps * 3600)) % 24;
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}${rate.dropFrame ? ';' : ':'}${pad(ff)}`;
+};
+
+/**
+ * Parses "HH:MM:SS:FF" (":" or ";" separators) into a frame count.
+ */
+export const timecodeToFrames = (timecode: string, frameRate: TimelineFrameRate): number => {
+  const match = /^(\d{1,2})[:;](\d{2})[:;](\d{2})[:;.](\d{2})$/.exec(timecode.trim());
+  if (!match) {
+    throw new Error(`Invalid timecode "${timecode}"`);
+  }
+
+  const rate = RATES[frameRate];
+  const fps = rate.timebase;
+  const [hh, mm, ss, ff] = match.slice(1).map(Number);
+  if (mm > 59 || ss > 59 || ff >= fps) {
+    throw new Error(`Invalid timecode "${timecode}"`);
+  }
+
+  let frames = ((hh * 60 + mm) * 60 + ss) * fps + ff;
+  if (rate.dropFrame) {
+    const dropFrames = Math.round(fps / 15);
+    const totalMinutes = hh * 60 + mm;
+    frames -= dropFrames * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+  return frames;
+};
+
+interface TimelineClip {
+  srcIn: number;  // frames from the start of the source file
+  srcOut: number;
+  recIn: number;  // frames from the start of the sequence
+  recOut: number;
+}
+
+/**
+ * Quantizes kept segments to whole frames. Record positions are accumulated
+ * from the quantized source lengths so the timeline never drifts.
+ */
+const buildClips = (segments: TimeMapSegment[], sampleRate: number, rate: RateInfo): TimelineClip[] => {
+  const fps = actualFps(rate);
+  const clips: TimelineClip[] = [];
+  let rec = 0;
+
+  for (const s of segments) {
+    const srcIn = Math.round((s.srcStart / sampleRate) * fps);
+    const srcOut = Math.round((s.srcEnd / sampleRate) * fps);
+    if (srcOut <= srcIn) continue;
+
+    clips.push({ srcIn, srcOut, recIn: rec, recOut: rec + (srcOut - srcIn) });
+    rec += srcOut - srcIn;
+  }
+
+  return clips;
+};
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const baseName = (fileName: string) => fileName.replace(/\.[^/.]+$/, '');
+
+/**
+ * CMX3600 edit decision list. One audio event per kept range.
+ */
+export const cutListToEdl = (source: CutListSource, options: TimelineOptions): string => {
+  const rate = RATES[options.frameRate];
+  const startFrames = timecodeToFrames(options.startTimecode || '01:00:00:00', options.frameRate);
+  const clips = buildClips(source.timeMap.segments, source.sampleRate, rate);
+  const tc = (f: number) => framesToTimecode(f, options.frameRate);
+  // CMX3600 reel names are limited to 8 characters
+  const reel = baseName(source.fileName).replace(/[^A-Za-z0-9_]/g, '').slice(0, 8).toUpperCase() || 'AX';
+  const track = source.numberOfChannels > 1 ? 'AA' : 'A';
+
+  const lines: string[] = [
+    `TITLE: ${options.title || baseName(source.fileName)}`,
+    `FCM: ${rate.dropFrame ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+    ''
+  ];
+
+  clips.forEach((c, i) => {
+    const event = (i + 1).toString().padStart(3, '0');
+    lines.push(
+      `${event}  ${reel.padEnd(8)} ${track.padEnd(5)} C        ${tc(c.srcIn)} ${tc(c.srcOut)} ${tc(startFrames + c.recIn)} ${tc(startFrames + c.recOut)}`
+    );
+    lines.push(`* FROM CLIP NAME: ${source.fileName}`);
+    lines.push('');
+  });
+
+  return lines.join('\r\n');
+};
+
+/**
+ * Final Cut Pro X / DaVinci Resolve FCPXML (v1.9).
+ */
+export const cutListToFcpxml = (source: CutListSource, options: TimelineOptions): string => {
+  const rate = RATES[options.frameRate];
+  const startFrames = timecodeToFrames(options.startTimecode || '01:00:00:00', options.frameRate);
+  const clips = buildClips(source.timeMap.segments, source.sampleRate, rate);
+
+  // FCPXML expresses time as rational seconds: frames * frameDuration
+  const frameNum = rate.ntsc ? 1001 : 100;
+  const frameDen = rate.ntsc ? rate.timebase * 1000 : rate.timebase * 100;
+  const t = (frames: number) => frames === 0 ? '0s' : `${frames * frameNum}/${frameDen}s`;
+
+  const name = escapeXml(options.title || baseName(source.fileName));
+  const fileName = escapeXml(source.fileName);
+  const sourceDuration = Math.ceil(source.timeMap.originalDuration * actualFps(rate));
+  const sequenceDuration = clips.length > 0 ? clips[clips.length - 1].recOut : 0;
+
+  const clipXml = clips.map(c =>
+    `          <asset-clip ref="r2" name="${fileName}" offset="${t(startFrames + c.recIn)}" start="${t(c.srcIn)}" duration="${t(c.srcOut - c.srcIn)}" audioRole="dialogue"/>`
+  ).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.9">
+  <resources>
+    <format id="r1" name="${rate.fcpxmlFormat}" frameDuration="${t(1)}" width="1920" height="1080"/>
+    <asset id="r2" name="${fileName}" start="0s" duration="${t(sourceDuration)}" hasAudio="1" audioSources="1" audioChannels="${source.numberOfChannels}" audioRate="${source.sampleRate}">
+      <media-rep kind="original-media" src="file://./${encodeURI(source.fileName)}"/>
+    </asset>
+  </resources>
+  <library>
+    <event name="SilenceCut">
+      <project name="${name}">
+        <sequence format="r1" duration="${t(sequenceDuration)}" tcStart="${t(startFrames)}" tcFormat="${rate.dropFrame ? 'DF' : 'NDF'}" audioLayout="${source.numberOfChannels > 1 ? 'stereo' : 'mono'}" audioRate="${source.sampleRate >= 48000 ? '48k' : '44.1k'}">
+          <spine>
+${clipXml}
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`;
+};
+
+/**
+ * Adobe Premiere Pro XML (Final Cut Pro 7 "xmeml" v4 interchange).
+ */
+export const cutListToPremiereXml = (source: CutListSource, options: TimelineOptions): string => {
+  const rate = RATES[options.frameRate];
+  const startFrames = timecodeToFrames(options.startTimecode || '01:00:00:00', options.frameRate);
+  const clips = buildClips(source.timeMap.segments, source.sampleRate, rate);
+
+  const name = escapeXml(options.title || baseName(source.fileName));
+  const fileName = escapeXml(source.fileName);
+  const sourceDuration = Math.ceil(source.timeMap.originalDuration * actualFps(rate));
+  const sequenceDuration = clips.length > 0 ? clips[clips.length - 1].recOut : 0;
+  const rateXml = `<rate><timebase>${rate.timebase}</timebase><ntsc>${rate.ntsc ? 'TRUE' : 'FALSE'}</ntsc></rate>`;
+
+  const fileXml = `<file id="file-1">
+                <name>${fileName}</name>
+                <pathurl>${escapeXml(encodeURI(source.fileName))}</pathurl>
+                ${rateXml}
+                <duration>${sourceDuration}</duration>
+                <media>
+                  <audio>
+                    <samplecharacteristics><depth>16</depth><samplerate>${source.sampleRate}</samplerate></samplecharacteristics>
+                    <channelcount>${source.numberOfChannels}</channelcount>
+                  </audio>
+                </media>
+              </file>`;
+
+  const clipXml = clips.map((c, i) => `            <clipitem id="clipitem-${i + 1}">
+              <name>${fileName}</name>
+              <duration>${sourceDuration}</duration>
+              ${rateXml}
+              <start>${c.recIn}</start>
+              <end>${c.recOut}</end>
+              <in>${c.srcIn}</in>
+              <out>${c.srcOut}</out>
+              ${i === 0 ? fileXml : '<file id="file-1"/>'}
+              <sourcetrack><mediatype>audio</mediatype><trackindex>1</trackindex></sourcetrack>
+            </clipitem>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE xmeml>
+<xmeml version="4">
+  <sequence id="sequence-1">
+    <name>${name}</name>
+    <duration>${sequenceDuration}</duration>
+    ${rateXml}
+    <timecode>
+      ${rateXml}
+      <string>${framesToTimecode(startFrames, options.frameRate)}</string>
+      <frame>${startFrames}</frame>
+      <displayformat>${rate.dropFrame ? 'DF' : 'NDF'}</displayformat>
+    </timecode>
+    <media>
+      <audio>
+        <format><samplecharacteristics><depth>16</depth><samplerate>${source.sampleRate}</samplerate></samplecharacteristics></format>
+        <track>
+${clipXml}
+        </track>
+      </audio>
+    </media>
+  </sequence>
+</xmeml>
+`;
+};
+
+/**
+ * Audacity label track marking every removed range on the original timeline.
+ * Import via File > Import > Labels.
+ */
+export const cutListToAudacityLabels = (source: CutListSource): string => {
+  const { segments, originalDuration } = source.timeMap;
+  const sr = source.sampleRate;
+  const lines: string[] = [];
+  let cursor = 0;
+
+  const pushCut = (start: number, end: number) => {
+    if (end - start <= 0) return;
+    lines.push(`${start.toFixed(6)}\t${end.toFixed(6)}\tCut ${lines.length + 1}`);
+  };
+
+  for (const s of segments) {
+    if (s.fill) continue;
+    pushCut(cursor, s.srcStart / sr);
+    cursor = s.srcEnd / sr;
+  }
+  pushCut(cursor, originalDuration);
+
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Renders a cut list in the requested NLE format.
+ */
+export const exportCutList = (format: CutListFormat, source: CutListSource, options: TimelineOptions): Blob => {
+  switch (format) {
+    case 'edl':
+      return new Blob([cutListToEdl(source, options)], { type: 'text/plain' });
+    case 'fcpxml':
+      return new Blob([cutListToFcpxml(source, options)], { type: 'application/xml' });
+    case 'premiere':
+      return new Blob([cutListToPremiereXml(source, options)], { type: 'application/xml' });
+    case 'audacity':
+      return new Blob([cutListToAudacityLabels(source)], { type: 'text/plain' });
+  }
+};
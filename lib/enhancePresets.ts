@@ -0,0 +1,207 @@
+/**
+ * The filter chain of the voice enhancer as plain data, so it can be
+ * edited, saved and shared as JSON. Stages run in the order listed in
+ * `EnhancePreset`; a null stage is skipped.
+ */
+
+export interface EqBand {
+  frequency: number; // Hz
+  gain: number;      // dB
+  q: number;
+}
+
+export interface CompressorSettings {
+  threshold: number; // dB
+  knee: number;      // dB
+  ratio: number;
+  attack: number;    // seconds
+  release: number;   // seconds
+}
+
+/**
+ * Dynamic de-esser: the sibilant band is only lowered while it is loud.
+ */
+export interface DeEsserSettings {
+  lowFrequency: number;  // Hz, sidechain band
+  highFrequency: number; // Hz
+  threshold: number;     // dB of band level relative to the whole signal
+  amount: number;        // dB, the most the band is lowered
+}
+
+export interface EnhancePreset {
+  name: string;
+  highPass: { frequency: number; q: number } | null;
+  lowShelf: { frequency: number; gain: number } | null;
+  /**
+   * Peaking bands for tone shaping, e.g. a mud cut.
+   */
+  bands: EqBand[];
+  /**
+   * Narrow peaking cuts on sibilance. They cut all the time; prefer `deEsser`.
+   */
+  deEss: EqBand[];
+  /**
+   * Runs on the samples before the filters (the Web Audio graph has no sidechain).
+   */
+  deEsser: DeEsserSettings | null;
+  highShelf: { frequency: number; gain: number } | null;
+  lowPass: { frequency: number; q: number } | null;
+  compressor: CompressorSettings | null;
+  makeupGain: number; // dB
+}
+
+// Identifies exported files, so other JSON is rejected with a clear message
+const PRESET_FILE_FORMAT = 'enhance-preset';
+const PRESET_FILE_VERSION = 1;
+
+export const VOICE_PRESET: EnhancePreset = {
+  name: 'Balanced Studio Voice',
+  highPass: { frequency: 85, q: 0.7 },
+  lowShelf: { frequency: 100, gain: 2 },
+  bands: [{ frequency: 350, gain: -2.5, q: 1 }],
+  deEss: [],
+  // "SH" to "ZZ"
+  deEsser: { lowFrequency: 4500, highFrequency: 11000, threshold: -12, amount: 8 },
+  highShelf: { frequency: 12000, gain: -6 },
+  lowPass: null,
+  compressor: { threshold: -24, knee: 15, ratio: 3.5, attack: 0.002, release: 0.15 },
+  makeupGain: 0
+};
+
+export const PHONE_CALL_PRESET: EnhancePreset = {
+  name: 'Phone Call',
+  highPass: { frequency: 200, q: 0.7 },
+  lowShelf: null,
+  bands: [
+    { frequency: 500, gain: -3, q: 1 },
+    { frequency: 2500, gain: 3, q: 1 }
+  ],
+  deEss: [],
+  deEsser: { lowFrequency: 3500, highFrequency: 7000, threshold: -12, amount: 6 },
+  highShelf: null,
+  lowPass: { frequency: 7000, q: 0.7 },
+  compressor: { threshold: -30, knee: 10, ratio: 5, attack: 0.003, release: 0.2 },
+  makeupGain: 0
+};
+
+export const NOISY_ROOM_PRESET: EnhancePreset = {
+  name: 'Noisy Room',
+  highPass: { frequency: 160, q: 0.7 },
+  lowShelf: { frequency: 100, gain: 0.5 },
+  bands: [{ frequency: 350, gain: -2.5, q: 1 }],
+  deEss: [],
+  deEsser: VOICE_PRESET.deEsser,
+  highShelf: null,
+  lowPass: { frequency: 6500, q: 0.5 },
+  compressor: VOICE_PRESET.compressor,
+  makeupGain: 0
+};
+
+export const BUILT_IN_PRESETS: EnhancePreset[] = [VOICE_PRESET, PHONE_CALL_PRESET, NOISY_ROOM_PRESET];
+
+/**
+ * True if both presets process audio the same way (names aside).
+ */
+export const isSameChain = (a: EnhancePreset, b: EnhancePreset): boolean =>
+  JSON.stringify({ ...a, name: '' }) === JSON.stringify({ ...b, name: '' });
+
+export const serializePreset = (preset: EnhancePreset): string =>
+  JSON.stringify({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, preset }, null, 2);
+
+const readNumber = (value: unknown, path: string, min: number, max: number): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`"${path}" must be a number`);
+  }
+  if (value < min || value > max) {
+    throw new Error(`"${path}" must be between ${min} and ${max}`);
+  }
+  return value;
+};
+
+const readObject = (value: unknown, path: string): Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`"${path}" must be an object`);
+  }
+  return value as Record<string, unknown>;
+};
+
+// Ranges the Web Audio nodes accept (or sensibly use)
+const readFrequency = (value: unknown, path: string) => readNumber(value, path, 10, 24000);
+const readGain = (value: unknown, path: string) => readNumber(value, path, -40, 40);
+const readQ = (value: unknown, path: string) => readNumber(value, path, 0.0001, 100);
+
+const readBands = (value: unknown, path: string): EqBand[] => {
+  if (!Array.isArray(value)) throw new Error(`"${path}" must be a list`);
+  return value.map((item, i) => {
+    const band = readObject(item, `${path}[${i}]`);
+    return {
+      frequency: readFrequency(band.frequency, `${path}[${i}].frequency`),
+      gain: readGain(band.gain, `${path}[${i}].gain`),
+      q: readQ(band.q, `${path}[${i}].q`)
+    };
+  });
+};
+
+/**
+ * Reads a preset exported by `serializePreset`. Throws with the offending
+ * field named if the file isn't a valid preset.
+ */
+export const parsePreset = (text: string): EnhancePreset => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const file = readObject(data, 'file');
+  if (file.format !== PRESET_FILE_FORMAT) throw new Error("The file is not an enhance preset");
+  if (file.version !== PRESET_FILE_VERSION) throw new Error(`Unsupported preset version ${String(file.version)}`);
+
+  const p = readObject(file.preset, 'preset');
+  const optional = <T>(key: string, read: (value: Record<string, unknown>) => T): T | null =>
+    p[key] === null || p[key] === undefined ? null : read(readObject(p[key], key));
+
+  const name = typeof p.name === 'string' && p.name.trim() ? p.name.trim() : 'Imported Preset';
+
+  return {
+    name,
+    highPass: optional('highPass', v => ({
+      frequency: readFrequency(v.frequency, 'highPass.frequency'),
+      q: readQ(v.q, 'highPass.q')
+    })),
+    lowShelf: optional('lowShelf', v => ({
+      frequency: readFrequency(v.frequency, 'lowShelf.frequency'),
+      gain: readGain(v.gain, 'lowShelf.gain')
+    })),
+    bands: readBands(p.bands ?? [], 'bands'),
+    deEss: readBands(p.deEss ?? [], 'deEss'),
+    deEsser: optional('deEsser', v => {
+      const lowFrequency = readFrequency(v.lowFrequency, 'deEsser.lowFrequency');
+      const highFrequency = readFrequency(v.highFrequency, 'deEsser.highFrequency');
+      if (highFrequency <= lowFrequency) throw new Error(`"deEsser.highFrequency" must be above "deEsser.lowFrequency"`);
+      return {
+        lowFrequency,
+        highFrequency,
+        threshold: readNumber(v.threshold, 'deEsser.threshold', -40, 0),
+        amount: readNumber(v.amount, 'deEsser.amount', 0, 24)
+      };
+    }),
+    highShelf: optional('highShelf', v => ({
+      frequency: readFrequency(v.frequency, 'highShelf.frequency'),
+      gain: readGain(v.gain, 'highShelf.gain')
+    })),
+    lowPass: optional('lowPass', v => ({
+      frequency: readFrequency(v.frequency, 'lowPass.frequency'),
+      q: readQ(v.q, 'lowPass.q')
+    })),
+    compressor: optional('compressor', v => ({
+      threshold: readNumber(v.threshold, 'compressor.threshold', -100, 0),
+      knee: readNumber(v.knee, 'compressor.knee', 0, 40),
+      ratio: readNumber(v.ratio, 'compressor.ratio', 1, 20),
+      attack: readNumber(v.attack, 'compressor.attack', 0, 1),
+      release: readNumber(v.release, 'compressor.release', 0, 1)
+    })),
+    makeupGain: readGain(p.makeupGain ?? 0, 'makeupGain')
+  };
+};
@@ -0,0 +1,76 @@
+/**
+ * In-place iterative radix-2 FFT.
+ * `re` and `im` must have the same power-of-two length.
+ * Pass `inverse = true` for the (scaled) inverse transform.
+ */
+export const fft = (re: Float32Array | Float64Array, im: Float32Array | Float64Array, inverse: boolean = false) => {
+  const n = re.length;
+  if (n !== im.length || (n & (n - 1)) !== 0) {
+    throw new Error("FFT size must be a power of two");
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  const sign = inverse ? 1 : -1;
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (sign * 2 * Math.PI) / size;
+    const wRe = Math.cos(step);
+    const wIm = Math.sin(step);
+
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
+
+/**
+ * Periodic Hann window, suitable for 50% overlap-add.
+ */
+export const hannWindow = (size: number): Float32Array => {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return w;
+};
+
+/**
+ * Smallest power of two that is >= n.
+ */
+export const nextPowerOfTwo = (n: number): number => {
+  let p = 1;
+  while (p < n) p <<= 1;
+  return p;
+};
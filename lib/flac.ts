@@ -0,0 +1,587 @@
+import { CoverArt } from './id3';
+import { createMd5 } from './md5';
+
+/**
+ * FLAC encoding: each block of samples is predicted (fixed polynomial or
+ * LPC, whichever is smaller), stereo is decorrelated when that helps, and
+ * the prediction error is Rice coded. Blocks are independent, so audio is
+ * encoded as it arrives and only the header waits for the end.
+ */
+
+export type FlacBitDepth = 16 | 24;
+
+export interface FlacMetadata {
+  /**
+   * Vorbis comments as [field, value], e.g. ['TITLE', 'Episode 12'].
+   */
+  comments: [string, string][];
+  picture: CoverArt | null;
+}
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_LPC_ORDER = 8;
+const MAX_PARTITION_ORDER = 8;
+// Residuals past this can't be coded; the subframe falls back to verbatim
+const MAX_RESIDUAL = 2 ** 30;
+const VENDOR = 'SilenceCut Studio';
+
+const SUBFRAME_CONSTANT = 0;
+const SUBFRAME_VERBATIM = 1;
+const SUBFRAME_FIXED = 8;
+const SUBFRAME_LPC = 32;
+const METADATA_STREAMINFO = 0;
+const METADATA_VORBIS_COMMENT = 4;
+const METADATA_PICTURE = 6;
+const CHANNELS_LEFT_SIDE = 8;
+const CHANNELS_RIGHT_SIDE = 9;
+const CHANNELS_MID_SIDE = 10;
+const PICTURE_TYPE_FRONT_COVER = 3;
+
+// Sample rates with a code of their own in the frame header
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6,
+  24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11
+};
+
+const createCrcTable = (bits: number, poly: number) => {
+  const top = 1 << (bits - 1);
+  const mask = (1 << bits) - 1;
+  return Array.from({ length: 256 }, (_, byte) => {
+    let crc = byte << (bits - 8);
+    for (let i = 0; i < 8; i++) crc = crc & top ? ((crc << 1) ^ poly) & mask : (crc << 1) & mask;
+    return crc;
+  });
+};
+
+const CRC8 = createCrcTable(8, 0x07);
+const CRC16 = createCrcTable(16, 0x8005);
+
+const crc8 = (bytes: Uint8Array) => bytes.reduce((crc, b) => CRC8[crc ^ b], 0);
+const crc16 = (bytes: Uint8Array) => bytes.reduce((crc, b) => ((crc << 8) & 0xFFFF) ^ CRC16[(crc >> 8) ^ b], 0);
+
+/**
+ * MSB-first bit packer. Values may be up to 24 bits per call.
+ */
+const createBitWriter = () => {
+  let bytes = new Uint8Array(1 << 16);
+  let length = 0;
+  let acc = 0;
+  let accBits = 0;
+
+  const pushByte = (b: number) => {
+    if (length === bytes.length) {
+      const grown = new Uint8Array(bytes.length * 2);
+      grown.set(bytes);
+      bytes = grown;
+    }
+    bytes[length++] = b;
+  };
+
+  const write = (value: number, bits: number) => {
+    if (bits > 24) {
+      write(Math.floor(value / 2 ** 24) & ((1 << (bits - 24)) - 1), bits - 24);
+      write(value & 0xFFFFFF, 24);
+      return;
+    }
+    acc = (acc << bits) | (value & ((1 << bits) - 1));
+    accBits += bits;
+    while (accBits >= 8) {
+      accBits -= 8;
+      pushByte((acc >>> accBits) & 0xFF);
+    }
+    acc &= (1 << accBits) - 1;
+  };
+
+  return {
+    write,
+    writeSigned: (value: number, bits: number) => write(value < 0 ? value + 2 ** bits : value, bits),
+    writeUnary: (zeros: number) => {
+      for (; zeros >= 24; zeros -= 24) write(0, 24);
+      write(1, zeros + 1);
+    },
+    // Pads with zero bits to a byte boundary
+    align: () => {
+      if (accBits > 0) write(0, 8 - accBits);
+    },
+    bytes: () => bytes.subarray(0, length)
+  };
+};
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+const zigzag = (r: number) => (r >= 0 ? 2 * r : -2 * r - 1);
+
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+/**
+ * Picks the partition order and Rice parameters for a residual, from the
+ * sum of each partition's values (the usual estimate; exact enough to
+ * choose by).
+ */
+const planRice = (residual: Int32Array, predictorOrder: number, blockSize: number, parameterBits: number): RicePlan => {
+  const maxParameter = (1 << parameterBits) - 2;
+  let maxOrder = 0;
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    blockSize % (1 << (maxOrder + 1)) === 0 &&
+    blockSize >> (maxOrder + 1) > predictorOrder
+  ) maxOrder++;
+
+  // Sums over the finest partitions, merged pairwise for coarser orders
+  let sums = new Float64Array(1 << maxOrder);
+  const finest = blockSize >> maxOrder;
+  for (let i = 0; i < residual.length; i++) sums[Math.floor((i + predictorOrder) / finest)] += zigzag(residual[i]);
+
+  let best: RicePlan | null = null;
+  for (let order = maxOrder; order >= 0; order--) {
+    const partitions = 1 << order;
+    const size = blockSize >> order;
+    const parameters: number[] = [];
+    let bits = 2 + 4;
+    for (let p = 0; p < partitions; p++) {
+      const count = p === 0 ? size - predictorOrder : size;
+      const sum = sums[p];
+      const guess = sum > count ? Math.floor(Math.log2(sum / count)) : 0;
+      let bestK = 0;
+      let bestBits = Infinity;
+      for (let k = Math.max(0, guess - 1); k <= Math.min(maxParameter, guess + 1); k++) {
+        const cost = count * (k + 1) + Math.floor(sum / 2 ** k);
+        if (cost < bestBits) {
+          bestBits = cost;
+          bestK = k;
+        }
+      }
+      parameters.push(bestK);
+      bits += parameterBits + bestBits;
+    }
+    if (!best || bits < best.bits) best = { partitionOrder: order, parameters, bits };
+
+    if (order > 0) {
+      const merged = new Float64Array(partitions / 2);
+      for (let p = 0; p < merged.length; p++) merged[p] = sums[2 * p] + sums[2 * p + 1];
+      sums = merged;
+    }
+  }
+  return best!;
+};
+
+const writeResidual = (out: BitWriter, residual: Int32Array, predictorOrder: number, blockSize: number, plan: RicePlan, parameterBits: number) => {
+  out.write(parameterBits === 5 ? 1 : 0, 2);
+  out.write(plan.partitionOrder, 4);
+  const size = blockSize >> plan.partitionOrder;
+  let i = 0;
+  plan.parameters.forEach((k, p) => {
+    out.write(k, parameterBits);
+    const end = (p + 1) * size - predictorOrder;
+    for (; i < end; i++) {
+      const u = zigzag(residual[i]);
+      out.writeUnary(u >>> k);
+      if (k > 0) out.write(u, k);
+    }
+  });
+};
+
+const getFixedResidual = (samples: Int32Array, order: number): Int32Array => {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    residual[i - order] =
+      order === 0 ? s[i]
+      : order === 1 ? s[i] - s[i - 1]
+      : order === 2 ? s[i] - 2 * s[i - 1] + s[i - 2]
+      : order === 3 ? s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3]
+      : s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4];
+  }
+  return residual;
+};
+
+/**
+ * Fixed predictor order with the smallest total error, and that error.
+ */
+const pickFixedOrder = (samples: Int32Array) => {
+  const errors = new Float64Array(MAX_FIXED_ORDER + 1);
+  for (let i = MAX_FIXED_ORDER; i < samples.length; i++) {
+    const e0 = samples[i];
+    const e1 = e0 - samples[i - 1];
+    const e2 = e1 - (samples[i - 1] - samples[i - 2]);
+    const e3 = e2 - (samples[i - 1] - 2 * samples[i - 2] + samples[i - 3]);
+    const e4 = e3 - (samples[i - 1] - 3 * samples[i - 2] + 3 * samples[i - 3] - samples[i - 4]);
+    errors[0] += Math.abs(e0);
+    errors[1] += Math.abs(e1);
+    errors[2] += Math.abs(e2);
+    errors[3] += Math.abs(e3);
+    errors[4] += Math.abs(e4);
+  }
+  let order = 0;
+  for (let o = 1; o <= MAX_FIXED_ORDER; o++) if (errors[o] < errors[order]) order = o;
+  return { order, error: errors[order] };
+};
+
+// Rough coded size in bits, for choosing a stereo mode before coding
+const estimateBits = (samples: Int32Array) => {
+  if (samples.length <= MAX_FIXED_ORDER) return samples.length * 32;
+  const { error } = pickFixedOrder(samples);
+  const mean = error / (samples.length - MAX_FIXED_ORDER);
+  return samples.length * (1 + Math.log2(1 + mean));
+};
+
+/**
+ * LPC coefficients for orders 1..maxOrder from a Tukey-windowed block,
+ * with the prediction error left at each order.
+ */
+const computeLpc = (samples: Int32Array, maxOrder: number) => {
+  const n = samples.length;
+  const windowed = new Float64Array(n);
+  const taper = Math.floor(n / 4);
+  for (let i = 0; i < n; i++) {
+    const edge = Math.min(i, n - 1 - i);
+    const w = edge < taper ? 0.5 - 0.5 * Math.cos((Math.PI * edge) / taper) : 1;
+    windowed[i] = samples[i] * w;
+  }
+
+  const autoc = new Float64Array(maxOrder + 1);
+  for (let lag = 0; lag <= maxOrder; lag++) {
+    let sum = 0;
+    for (let i = lag; i < n; i++) sum += windowed[i] * windowed[i - lag];
+    autoc[lag] = sum;
+  }
+  if (autoc[0] === 0) return [];
+
+  // Levinson-Durbin
+  const orders: { coefficients: Float64Array; error: number }[] = [];
+  let lpc = new Float64Array(0);
+  let error = autoc[0];
+  for (let m = 0; m < maxOrder; m++) {
+    let acc = -autoc[m + 1];
+    for (let j = 0; j < m; j++) acc -= lpc[j] * autoc[m - j];
+    const reflection = acc / error;
+    const next = new Float64Array(m + 1);
+    for (let j = 0; j < m; j++) next[j] = lpc[j] + reflection * lpc[m - 1 - j];
+    next[m] = reflection;
+    lpc = next;
+    error *= 1 - reflection * reflection;
+    if (error <= 0) break;
+    // Stored as predictor coefficients: s[i] ≈ Σ c[j]·s[i-1-j]
+    orders.push({ coefficients: lpc.map(c => -c), error });
+  }
+  return orders;
+};
+
+// Coefficient precision by block size, as the reference encoder chooses it
+const getLpcPrecision = (blockSize: number) =>
+  blockSize <= 192 ? 7 : blockSize <= 384 ? 8 : blockSize <= 576 ? 9 : blockSize <= 1152 ? 10 : blockSize <= 2304 ? 11 : blockSize <= 4608 ? 12 : 13;
+
+const quantizeLpc = (coefficients: Float64Array, precision: number) => {
+  const max = coefficients.reduce((m, c) => Math.max(m, Math.abs(c)), 0);
+  const limit = 2 ** (precision - 1);
+  let shift = precision - 1 - (max > 0 ? Math.floor(Math.log2(max)) + 1 : 0);
+  shift = Math.max(0, Math.min(15, shift));
+
+  // Carry the rounding error forward so the sum stays on target
+  const quantized = new Int32Array(coefficients.length);
+  let error = 0;
+  for (let i = 0; i < coefficients.length; i++) {
+    error += coefficients[i] * 2 ** shift;
+    const q = Math.max(-limit, Math.min(limit - 1, Math.round(error)));
+    quantized[i] = q;
+    error -= q;
+  }
+  return { quantized, shift };
+};
+
+const getLpcResidual = (samples: Int32Array, quantized: Int32Array, shift: number): Int32Array | null => {
+  const order = quantized.length;
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < order; j++) sum += quantized[j] * samples[i - 1 - j];
+    const r = samples[i] - Math.floor(sum / 2 ** shift);
+    if (Math.abs(r) >= MAX_RESIDUAL) return null;
+    residual[i - order] = r;
+  }
+  return residual;
+};
+
+/**
+ * Codes one channel of a block as the smallest of constant, fixed, LPC
+ * and verbatim.
+ */
+const writeSubframe = (out: BitWriter, samples: Int32Array, bitsPerSample: number) => {
+  const n = samples.length;
+  const parameterBits = bitsPerSample > 16 ? 5 : 4;
+
+  if (samples.every(s => s === samples[0])) {
+    out.write(SUBFRAME_CONSTANT << 1, 8);
+    out.writeSigned(samples[0], bitsPerSample);
+    return;
+  }
+
+  type Candidate = { bits: number; write: () => void };
+  const candidates: Candidate[] = [{
+    bits: n * bitsPerSample,
+    write: () => {
+      out.write(SUBFRAME_VERBATIM << 1, 8);
+      for (let i = 0; i < n; i++) out.writeSigned(samples[i], bitsPerSample);
+    }
+  }];
+
+  if (n > MAX_FIXED_ORDER) {
+    const { order } = pickFixedOrder(samples);
+    const residual = getFixedResidual(samples, order);
+    if (residual.every(r => Math.abs(r) < MAX_RESIDUAL)) {
+      const plan = planRice(residual, order, n, parameterBits);
+      candidates.push({
+        bits: order * bitsPerSample + plan.bits,
+        write: () => {
+          out.write((SUBFRAME_FIXED | order) << 1, 8);
+          for (let i = 0; i < order; i++) out.writeSigned(samples[i], bitsPerSample);
+          writeResidual(out, residual, order, n, plan, parameterBits);
+        }
+      });
+    }
+  }
+
+  if (n > MAX_LPC_ORDER * 2) {
+    const orders = computeLpc(samples, MAX_LPC_ORDER);
+    const precision = Math.min(getLpcPrecision(n), 32 - bitsPerSample - Math.ceil(Math.log2(MAX_LPC_ORDER)));
+    // Order by the expected size of residual plus coefficients
+    let best = -1;
+    let bestBits = Infinity;
+    orders.forEach(({ error }, i) => {
+      const order = i + 1;
+      const perSample = Math.max(0, 0.5 * Math.log2((0.5 * error) / n));
+      const bits = perSample * (n - order) + order * (precision + bitsPerSample);
+      if (bits < bestBits) {
+        bestBits = bits;
+        best = i;
+      }
+    });
+
+    if (best >= 0) {
+      const order = best + 1;
+      const { quantized, shift } = quantizeLpc(orders[best].coefficients, precision);
+      const residual = getLpcResidual(samples, quantized, shift);
+      if (residual) {
+        const plan = planRice(residual, order, n, parameterBits);
+        candidates.push({
+          bits: order * bitsPerSample + 4 + 5 + order * precision + plan.bits,
+          write: () => {
+            out.write((SUBFRAME_LPC | (order - 1)) << 1, 8);
+            for (let i = 0; i < order; i++) out.writeSigned(samples[i], bitsPerSample);
+            out.write(precision - 1, 4);
+            out.writeSigned(shift, 5);
+            quantized.forEach(q => out.writeSigned(q, precision));
+            writeResidual(out, residual, order, n, plan, parameterBits);
+          }
+        });
+      }
+    }
+  }
+
+  candidates.reduce((a, b) => (b.bits < a.bits ? b : a)).write();
+};
+
+// Frame numbers are coded like UTF-8, extended to 36 bits
+const writeFrameNumber = (out: BitWriter, value: number) => {
+  if (value < 0x80) {
+    out.write(value, 8);
+    return;
+  }
+  let extra = 1;
+  while (value >= 2 ** (6 * extra + 6 - extra)) extra++;
+  const lead = (0xFF00 >> (extra + 1)) & 0xFF;
+  out.write(lead | Math.floor(value / 2 ** (6 * extra)), 8);
+  for (let i = extra - 1; i >= 0; i--) out.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3F), 8);
+};
+
+const encodeFrame = (
+  channels: Int32Array[],
+  frameNumber: number,
+  sampleRate: number,
+  bitsPerSample: number
+): Uint8Array => {
+  const n = channels[0].length;
+  const out = createBitWriter();
+
+  // Stereo: code as left/right, left/side, right/side or mid/side, whichever is smaller
+  let assignment = channels.length - 1;
+  let coded = channels;
+  let sideIndex = -1;
+  if (channels.length === 2) {
+    const [left, right] = channels;
+    const mid = new Int32Array(n);
+    const side = new Int32Array(n);
+    for (let i = 0; i < n; i++) {
+      mid[i] = (left[i] + right[i]) >> 1;
+      side[i] = left[i] - right[i];
+    }
+    const [l, r, m] = [left, right, mid].map(estimateBits);
+    // Side needs one bit more per sample
+    const s = estimateBits(side) + n;
+    const options = [
+      { bits: l + r, assignment: 1, coded: [left, right], sideIndex: -1 },
+      { bits: l + s, assignment: CHANNELS_LEFT_SIDE, coded: [left, side], sideIndex: 1 },
+      { bits: s + r, assignment: CHANNELS_RIGHT_SIDE, coded: [side, right], sideIndex: 0 },
+      { bits: m + s, assignment: CHANNELS_MID_SIDE, coded: [mid, side], sideIndex: 1 }
+    ];
+    const choice = options.reduce((a, b) => (b.bits < a.bits ? b : a));
+    ({ assignment, coded, sideIndex } = choice);
+  }
+
+  // Header
+  const rateCode = SAMPLE_RATE_CODES[sampleRate]
+    ?? (sampleRate % 1000 === 0 && sampleRate <= 255000 ? 12 : sampleRate < 65536 ? 13 : sampleRate % 10 === 0 && sampleRate / 10 < 65536 ? 14 : 0);
+  const blockCode = n === BLOCK_SIZE ? 12 : n <= 256 ? 6 : 7;
+  out.write(0b11111111111110, 14);
+  out.write(0, 1); // Reserved
+  out.write(0, 1); // Fixed block size
+  out.write(blockCode, 4);
+  out.write(rateCode, 4);
+  out.write(assignment, 4);
+  out.write(bitsPerSample === 16 ? 0b100 : 0b110, 3);
+  out.write(0, 1); // Reserved
+  writeFrameNumber(out, frameNumber);
+  if (blockCode === 6) out.write(n - 1, 8);
+  if (blockCode === 7) out.write(n - 1, 16);
+  if (rateCode === 12) out.write(sampleRate / 1000, 8);
+  if (rateCode === 13) out.write(sampleRate, 16);
+  if (rateCode === 14) out.write(sampleRate / 10, 16);
+  out.write(crc8(out.bytes()), 8);
+
+  coded.forEach((samples, c) => writeSubframe(out, samples, c === sideIndex ? bitsPerSample + 1 : bitsPerSample));
+
+  out.align();
+  out.write(crc16(out.bytes()), 16);
+  return out.bytes().slice();
+};
+
+const writeMetadataBlock = (type: number, body: Uint8Array, isLast: boolean): Uint8Array => {
+  const block = new Uint8Array(4 + body.length);
+  block[0] = (isLast ? 0x80 : 0) | type;
+  block[1] = (body.length >> 16) & 0xFF;
+  block[2] = (body.length >> 8) & 0xFF;
+  block[3] = body.length & 0xFF;
+  block.set(body, 4);
+  return block;
+};
+
+const createVorbisComment = (comments: [string, string][]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const strings = [VENDOR, ...comments.map(([field, value]) => `${field}=${value}`)].map(s => encoder.encode(s));
+  const body = new Uint8Array(4 + strings.reduce((sum, s) => sum + 4 + s.length, 0));
+  const view = new DataView(body.buffer);
+  // Unlike the rest of FLAC, Vorbis comments are little-endian
+  let offset = 0;
+  strings.forEach((s, i) => {
+    view.setUint32(offset, s.length, true);
+    body.set(s, offset + 4);
+    offset += 4 + s.length;
+    if (i === 0) {
+      view.setUint32(offset, comments.length, true);
+      offset += 4;
+    }
+  });
+  return body;
+};
+
+const createPicture = (picture: CoverArt): Uint8Array => {
+  const mime = new TextEncoder().encode(picture.mimeType);
+  const body = new Uint8Array(32 + mime.length + picture.data.length);
+  const view = new DataView(body.buffer);
+  view.setUint32(0, PICTURE_TYPE_FRONT_COVER);
+  view.setUint32(4, mime.length);
+  body.set(mime, 8);
+  // Empty description; size and colour fields 0 for unknown
+  view.setUint32(28 + mime.length, picture.data.length);
+  body.set(picture.data, 32 + mime.length);
+  return body;
+};
+
+/**
+ * Streaming FLAC writer for integer samples (already scaled to
+ * `bitsPerSample`). `write` takes consecutive chunks of any length.
+ */
+export const createFlacWriter = (
+  sampleRate: number,
+  numChannels: number,
+  bitsPerSample: FlacBitDepth,
+  metadata: FlacMetadata
+) => {
+  const pending = Array.from({ length: numChannels }, () => new Int32Array(BLOCK_SIZE));
+  let pendingLength = 0;
+  const frames: BlobPart[] = [];
+  const md5 = createMd5();
+  const bytesPerSample = bitsPerSample / 8;
+  let totalSamples = 0;
+  let frameNumber = 0;
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+
+  const flushBlock = () => {
+    const block = pending.map(data => data.slice(0, pendingLength));
+
+    // The signature covers the samples as little-endian interleaved bytes
+    const raw = new Uint8Array(pendingLength * numChannels * bytesPerSample);
+    let pos = 0;
+    for (let i = 0; i < pendingLength; i++) {
+      for (let c = 0; c < numChannels; c++) {
+        const s = block[c][i];
+        for (let b = 0; b < bytesPerSample; b++) raw[pos++] = (s >> (8 * b)) & 0xFF;
+      }
+    }
+    md5.update(raw);
+
+    const frame = encodeFrame(block, frameNumber++, sampleRate, bitsPerSample);
+    minFrameSize = Math.min(minFrameSize, frame.length);
+    maxFrameSize = Math.max(maxFrameSize, frame.length);
+    frames.push(frame as BlobPart);
+    totalSamples += pendingLength;
+    pendingLength = 0;
+  };
+
+  const write = (channels: Int32Array[]) => {
+    const length = channels[0]?.length ?? 0;
+    for (let i = 0; i < length; ) {
+      const n = Math.min(length - i, BLOCK_SIZE - pendingLength);
+      for (let c = 0; c < numChannels; c++) pending[c].set(channels[c].subarray(i, i + n), pendingLength);
+      pendingLength += n;
+      i += n;
+      if (pendingLength === BLOCK_SIZE) flushBlock();
+    }
+  };
+
+  const finish = (): Blob => {
+    if (pendingLength > 0) flushBlock();
+
+    const info = createBitWriter();
+    const blockSize = frameNumber > 1 ? BLOCK_SIZE : Math.max(16, totalSamples);
+    info.write(blockSize, 16); // Minimum block size, the last block aside
+    info.write(blockSize, 16);
+    info.write(frameNumber > 0 ? minFrameSize : 0, 24);
+    info.write(maxFrameSize, 24);
+    info.write(sampleRate, 20);
+    info.write(numChannels - 1, 3);
+    info.write(bitsPerSample - 1, 5);
+    info.write(totalSamples, 36);
+    md5.digest().forEach(b => info.write(b, 8));
+
+    const blocks: [number, Uint8Array][] = [
+      [METADATA_STREAMINFO, info.bytes().slice()],
+      [METADATA_VORBIS_COMMENT, createVorbisComment(metadata.comments)]
+    ];
+    if (metadata.picture) blocks.push([METADATA_PICTURE, createPicture(metadata.picture)]);
+
+    const header = [
+      new TextEncoder().encode('fLaC'),
+      ...blocks.map(([type, body], i) => writeMetadataBlock(type, body, i === blocks.length - 1))
+    ];
+    return new Blob([...header as BlobPart[], ...frames], { type: 'audio/flac' });
+  };
+
+  return { write, finish };
+};
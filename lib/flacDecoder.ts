@@ -0,0 +1,330 @@
+import { AudioData } from './audioData';
+import { getId3TagSize } from './id3';
+
+/**
+ * FLAC decoding: any bit depth from 4 to 32, any block size, fixed and LPC
+ * subframes, and all four stereo modes. Each frame's CRC is checked, so a
+ * damaged file fails instead of playing noise.
+ */
+
+const METADATA_STREAMINFO = 0;
+const CHANNELS_LEFT_SIDE = 8;
+const CHANNELS_RIGHT_SIDE = 9;
+const CHANNELS_MID_SIDE = 10;
+const SUBFRAME_CONSTANT = 0;
+const SUBFRAME_VERBATIM = 1;
+const SUBFRAME_FIXED = 8;
+const SUBFRAME_LPC = 32;
+
+const SAMPLE_SIZES = [0, 8, 12, 0, 16, 20, 24, 32];
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+const TRUNCATED = "FLAC file is truncated";
+// Frames decoded between progress reports
+const PROGRESS_INTERVAL = 64;
+
+const CRC16 = Uint16Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte << 8;
+  for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xFFFF : (crc << 1) & 0xFFFF;
+  return crc;
+});
+
+const crc16 = (bytes: Uint8Array, from: number, to: number) => {
+  let crc = 0;
+  for (let i = from; i < to; i++) crc = ((crc << 8) & 0xFFFF) ^ CRC16[(crc >> 8) ^ bytes[i]];
+  return crc;
+};
+
+/**
+ * MSB-first bit reader over a byte array. Reads take up to 24 bits from a
+ * cache refilled a byte at a time; wider fields are split.
+ */
+const createBitReader = (bytes: Uint8Array, start: number) => {
+  let pos = start;
+  // The low `left` bits of `cache` are unread
+  let cache = 0;
+  let left = 0;
+
+  const refill = (needed: number) => {
+    while (left <= 23 && pos < bytes.length) {
+      cache = ((cache & ((1 << left) - 1)) << 8) | bytes[pos++];
+      left += 8;
+    }
+    if (left < needed) throw new Error(TRUNCATED);
+  };
+
+  const read = (n: number): number => {
+    if (n > 24) return read(n - 24) * (1 << 24) + read(24);
+    if (left < n) refill(n);
+    left -= n;
+    return (cache >>> left) & ((1 << n) - 1);
+  };
+
+  const readSigned = (n: number): number => {
+    const value = read(n);
+    return value >= 2 ** (n - 1) ? value - 2 ** n : value;
+  };
+
+  // Zeros before the next one bit, which is consumed
+  const readUnary = (): number => {
+    let count = 0;
+    for (;;) {
+      if (left === 0) refill(1);
+      const bits = cache & ((1 << left) - 1);
+      if (bits === 0) {
+        count += left;
+        left = 0;
+        continue;
+      }
+      const zeros = Math.clz32(bits) - (32 - left);
+      left -= zeros + 1;
+      return count + zeros;
+    }
+  };
+
+  return {
+    read,
+    readSigned,
+    readUnary,
+    alignToByte: () => { left -= left % 8; },
+    /**
+     * Byte offset of the next unread bit, once aligned.
+     */
+    position: () => pos - left / 8
+  };
+};
+
+type BitReader = ReturnType<typeof createBitReader>;
+
+interface StreamInfo {
+  sampleRate: number;
+  numChannels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+}
+
+// UTF-8 style coded frame or sample number; only its length matters here
+const skipCodedNumber = (reader: BitReader) => {
+  const first = reader.read(8);
+  let extra = 0;
+  while (extra < 7 && first & (0x80 >> extra)) extra++;
+  for (let i = 1; i < extra; i++) reader.read(8);
+};
+
+const readResidual = (reader: BitReader, out: Float64Array, blockSize: number, order: number) => {
+  const method = reader.read(2);
+  if (method > 1) throw new Error("Unknown FLAC residual coding");
+  const parameterBits = method === 0 ? 4 : 5;
+  const escape = (1 << parameterBits) - 1;
+  const partitionOrder = reader.read(4);
+  const partitionSize = blockSize >> partitionOrder;
+
+  let i = order;
+  for (let p = 0; p < 1 << partitionOrder; p++) {
+    const count = partitionSize - (p === 0 ? order : 0);
+    const k = reader.read(parameterBits);
+    if (k === escape) {
+      const bits = reader.read(5);
+      for (let j = 0; j < count; j++) out[i++] = bits === 0 ? 0 : reader.readSigned(bits);
+      continue;
+    }
+    const scale = 2 ** k;
+    for (let j = 0; j < count; j++) {
+      const u = reader.readUnary() * scale + reader.read(k);
+      // Zigzag: even values are positive, odd ones negative
+      out[i++] = u % 2 === 0 ? u / 2 : -(u + 1) / 2;
+    }
+  }
+};
+
+const readSubframe = (reader: BitReader, out: Float64Array, blockSize: number, bitsPerSample: number) => {
+  if (reader.read(1) !== 0) throw new Error("Invalid FLAC subframe");
+  const type = reader.read(6);
+  const wasted = reader.read(1) ? reader.readUnary() + 1 : 0;
+  const bits = bitsPerSample - wasted;
+
+  if (type === SUBFRAME_CONSTANT) {
+    out.fill(reader.readSigned(bits), 0, blockSize);
+  } else if (type === SUBFRAME_VERBATIM) {
+    for (let i = 0; i < blockSize; i++) out[i] = reader.readSigned(bits);
+  } else if (type >= SUBFRAME_FIXED && type <= SUBFRAME_FIXED + 4) {
+    const order = type - SUBFRAME_FIXED;
+    for (let i = 0; i < order; i++) out[i] = reader.readSigned(bits);
+    readResidual(reader, out, blockSize, order);
+    const coefficients = FIXED_COEFFICIENTS[order];
+    for (let i = order; i < blockSize; i++) {
+      let prediction = 0;
+      for (let j = 0; j < order; j++) prediction += coefficients[j] * out[i - 1 - j];
+      out[i] += prediction;
+    }
+  } else if (type >= SUBFRAME_LPC) {
+    const order = type - SUBFRAME_LPC + 1;
+    for (let i = 0; i < order; i++) out[i] = reader.readSigned(bits);
+    const precision = reader.read(4) + 1;
+    if (precision === 16) throw new Error("Invalid FLAC coefficient precision");
+    const shift = reader.readSigned(5);
+    if (shift < 0) throw new Error("Invalid FLAC prediction shift");
+    const coefficients = Float64Array.from({ length: order }, () => reader.readSigned(precision));
+    readResidual(reader, out, blockSize, order);
+    const divisor = 2 ** shift;
+    for (let i = order; i < blockSize; i++) {
+      let sum = 0;
+      for (let j = 0; j < order; j++) sum += coefficients[j] * out[i - 1 - j];
+      out[i] += Math.floor(sum / divisor);
+    }
+  } else {
+    throw new Error("Unknown FLAC subframe type");
+  }
+
+  if (wasted > 0) {
+    const scale = 2 ** wasted;
+    for (let i = 0; i < blockSize; i++) out[i] *= scale;
+  }
+};
+
+const readStreamInfo = (bytes: Uint8Array, offset: number): { info: StreamInfo; audioStart: number } => {
+  let info: StreamInfo | null = null;
+  for (let isLast = false; !isLast; ) {
+    const reader = createBitReader(bytes, offset);
+    isLast = reader.read(1) === 1;
+    const type = reader.read(7);
+    const length = reader.read(24);
+    if (type === METADATA_STREAMINFO) {
+      // Block and frame size bounds
+      reader.read(32);
+      reader.read(48);
+      info = {
+        sampleRate: reader.read(20),
+        numChannels: reader.read(3) + 1,
+        bitsPerSample: reader.read(5) + 1,
+        totalSamples: reader.read(36)
+      };
+    }
+    offset += 4 + length;
+    if (offset > bytes.length) throw new Error(TRUNCATED);
+  }
+  if (!info) throw new Error("FLAC file has no stream info");
+  return { info, audioStart: offset };
+};
+
+/**
+ * Offset of the "fLaC" marker, past any ID3v2 tag in front of it, or -1.
+ */
+const findFlacStart = (bytes: Uint8Array): number => {
+  const offset = getId3TagSize(bytes);
+  const marker = bytes.subarray(offset, offset + 4);
+  return marker.length === 4 && String.fromCharCode(...marker) === 'fLaC' ? offset : -1;
+};
+
+/**
+ * Decodes a whole FLAC file at its own sample rate. Samples keep their
+ * full precision: Float32 holds 24 bits exactly.
+ */
+export const decodeFlac = (bytes: Uint8Array, onProgress?: (progress: number) => void): AudioData => {
+  const start = findFlacStart(bytes);
+  if (start < 0) throw new Error("Not a FLAC file");
+  const { info, audioStart } = readStreamInfo(bytes, start + 4);
+  const { numChannels } = info;
+
+  // The total may be unknown (0), in which case blocks are gathered and joined
+  const blocks: Float32Array[][] = [];
+  let channels = info.totalSamples > 0
+    ? Array.from({ length: numChannels }, () => new Float32Array(info.totalSamples))
+    : null;
+  let written = 0;
+  let work: Float64Array[] = [];
+  let offset = audioStart;
+  let frameCount = 0;
+
+  while (offset + 2 <= bytes.length && (!channels || written < channels[0].length)) {
+    const reader = createBitReader(bytes, offset);
+    if (reader.read(14) !== 0x3FFE) {
+      // Trailing tags or padding after the last frame
+      if (frameCount > 0) break;
+      throw new Error("FLAC frame not found");
+    }
+    reader.read(2); // Reserved, blocking strategy
+    const blockSizeCode = reader.read(4);
+    const sampleRateCode = reader.read(4);
+    const assignment = reader.read(4);
+    const sampleSizeCode = reader.read(3);
+    reader.read(1); // Reserved
+    skipCodedNumber(reader);
+
+    if (blockSizeCode === 0) throw new Error("Invalid FLAC block size");
+    const blockSize =
+      blockSizeCode === 1 ? 192 :
+      blockSizeCode <= 5 ? 576 << (blockSizeCode - 2) :
+      blockSizeCode === 6 ? reader.read(8) + 1 :
+      blockSizeCode === 7 ? reader.read(16) + 1 :
+      256 << (blockSizeCode - 8);
+    if (sampleRateCode === 12) reader.read(8);
+    else if (sampleRateCode === 13 || sampleRateCode === 14) reader.read(16);
+    reader.read(8); // Header CRC, covered by the frame CRC below
+
+    const bitsPerSample = sampleSizeCode === 0 ? info.bitsPerSample : SAMPLE_SIZES[sampleSizeCode];
+    if (!bitsPerSample) throw new Error("Invalid FLAC sample size");
+    const frameChannels = assignment < 8 ? assignment + 1 : 2;
+    if (assignment > CHANNELS_MID_SIDE || frameChannels !== numChannels) throw new Error("Invalid FLAC channel layout");
+
+    if (work.length === 0 || work[0].length < blockSize) {
+      work = Array.from({ length: numChannels }, () => new Float64Array(blockSize));
+    }
+    for (let c = 0; c < numChannels; c++) {
+      // The side channel carries one extra bit
+      const isSide =
+        (assignment === CHANNELS_LEFT_SIDE && c === 1) ||
+        (assignment === CHANNELS_RIGHT_SIDE && c === 0) ||
+        (assignment === CHANNELS_MID_SIDE && c === 1);
+      readSubframe(reader, work[c], blockSize, bitsPerSample + (isSide ? 1 : 0));
+    }
+
+    reader.alignToByte();
+    const frameEnd = reader.position();
+    const storedCrc = reader.read(16);
+    if (crc16(bytes, offset, frameEnd) !== storedCrc) throw new Error(`FLAC frame ${frameCount} is damaged`);
+
+    const [a, b] = work;
+    if (assignment === CHANNELS_LEFT_SIDE) {
+      for (let i = 0; i < blockSize; i++) b[i] = a[i] - b[i];
+    } else if (assignment === CHANNELS_RIGHT_SIDE) {
+      for (let i = 0; i < blockSize; i++) a[i] += b[i];
+    } else if (assignment === CHANNELS_MID_SIDE) {
+      for (let i = 0; i < blockSize; i++) {
+        const side = b[i];
+        const mid = a[i] * 2 + Math.abs(side % 2);
+        a[i] = (mid + side) / 2;
+        b[i] = (mid - side) / 2;
+      }
+    }
+
+    const scale = 1 / 2 ** (bitsPerSample - 1);
+    const count = channels ? Math.min(blockSize, channels[0].length - written) : blockSize;
+    const target = channels ?? Array.from({ length: numChannels }, () => new Float32Array(count));
+    const base = channels ? written : 0;
+    for (let c = 0; c < numChannels; c++) {
+      const source = work[c];
+      const dest = target[c];
+      for (let i = 0; i < count; i++) dest[base + i] = source[i] * scale;
+    }
+    if (!channels) blocks.push(target);
+    written += count;
+    frameCount++;
+    offset = frameEnd + 2;
+    if (frameCount % PROGRESS_INTERVAL === 0) onProgress?.(offset / bytes.length);
+  }
+
+  if (!channels) {
+    channels = Array.from({ length: numChannels }, () => new Float32Array(written));
+    let pos = 0;
+    for (const block of blocks) {
+      block.forEach((data, c) => channels![c].set(data, pos));
+      pos += block[0].length;
+    }
+  } else if (written < channels[0].length) {
+    // Cut short: keep what was there
+    channels = channels.map(data => data.slice(0, written));
+  }
+
+  return { sampleRate: info.sampleRate, channels };
+};
@@ -0,0 +1,191 @@
+import { AudioData, getLength } from './audioData';
+import { AudioSource } from './audioSource';
+import { createBiquad, getBiquadCoefficients } from './biquad';
+import { fft, hannWindow, nextPowerOfTwo } from './fft';
+
+/**
+ * Mains hum: a steady 50 or 60 Hz tone plus harmonics that reach well into
+ * the speech band. Speech comes and goes while hum does not, so in the
+ * quiet end of each bin's level across the file the hum harmonics stand
+ * out as sharp lines, and a comb of narrow notches on those lines removes
+ * them without touching the voice.
+ */
+
+export interface HumProfile {
+  fundamental: number;   // Hz, measured, e.g. 49.96
+  harmonics: number[];   // Hz, only the ones that were found
+}
+
+const MAINS_FREQUENCIES = [50, 60];
+// Highest harmonic considered; buzz above this is masked by speech
+const MAX_HUM_HZ = 1200;
+// Spectra taken across the file, and the share of them (quietest first)
+// that a bin's level is read from
+const ANALYSIS_FRAMES = 40;
+const QUIET_PERCENTILE = 0.25;
+// A harmonic counts when it stands this far above the spectrum around it
+const MIN_PROMINENCE_DB = 10;
+const NEIGHBOURHOOD_HZ = 20;
+// Mains frequency wanders a little from nominal
+const MAX_DRIFT = 0.01;
+// Fewer lines than this is more likely an instrument or a whistle
+const MIN_HARMONICS = 2;
+// Notch width: wide enough for the estimate's error, which grows per harmonic
+const NOTCH_BANDWIDTH_HZ = 3;
+const NOTCH_RELATIVE_BANDWIDTH = 0.004;
+const CHUNK_SIZE = 65536;
+
+/**
+ * Per bin, the power a quarter of the frames stay under: what is always there.
+ */
+const getQuietSpectrum = async (source: AudioSource, fftSize: number, signal?: AbortSignal): Promise<Float64Array> => {
+  const bins = fftSize / 2 + 1;
+  const window = hannWindow(fftSize);
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const frames = Math.max(1, Math.min(ANALYSIS_FRAMES, Math.floor(source.length / fftSize)));
+  const spectra = Array.from({ length: frames }, () => new Float32Array(bins));
+
+  for (let f = 0; f < frames; f++) {
+    signal?.throwIfAborted();
+    // Spread evenly, so a noisy stretch can't dominate
+    const start = Math.max(0, Math.floor(((f + 0.5) * source.length) / frames - fftSize / 2));
+    const channels = await source.read(start, fftSize);
+
+    re.fill(0);
+    im.fill(0);
+    for (const data of channels) {
+      for (let i = 0; i < data.length; i++) re[i] += data[i] * window[i] / channels.length;
+    }
+    fft(re, im);
+    for (let k = 0; k < bins; k++) spectra[f][k] = re[k] * re[k] + im[k] * im[k];
+  }
+
+  const power = new Float64Array(bins);
+  const levels = new Float32Array(frames);
+  const index = Math.floor((frames - 1) * QUIET_PERCENTILE);
+  for (let k = 0; k < bins; k++) {
+    for (let f = 0; f < frames; f++) levels[f] = spectra[f][k];
+    power[k] = levels.sort()[index];
+  }
+  return power;
+};
+
+const median = (values: number[]) => {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+/**
+ * How far the strongest line near `frequency` stands out, in dB, and where
+ * exactly it is (interpolated between bins).
+ */
+const measureLine = (power: Float64Array, frequency: number, binHz: number) => {
+  const centre = frequency / binHz;
+  const reach = Math.max(1, Math.ceil((frequency * MAX_DRIFT) / binHz));
+  let peak = Math.round(centre);
+  for (let k = Math.round(centre) - reach; k <= Math.round(centre) + reach; k++) {
+    if (power[k] > power[peak]) peak = k;
+  }
+
+  const around: number[] = [];
+  const span = Math.round(NEIGHBOURHOOD_HZ / binHz);
+  for (let k = peak - span; k <= peak + span; k++) {
+    if (Math.abs(k - peak) > reach + 2 && k > 0 && k < power.length) around.push(power[k]);
+  }
+
+  // Parabolic interpolation on the log spectrum
+  const [a, b, c] = [power[peak - 1], power[peak], power[peak + 1]].map(p => Math.log(p + 1e-30));
+  const denominator = a - 2 * b + c;
+  const offset = denominator < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denominator)) : 0;
+
+  return {
+    prominenceDb: 10 * Math.log10((power[peak] + 1e-30) / (median(around) + 1e-30)),
+    frequency: (peak + offset) * binHz
+  };
+};
+
+/**
+ * Looks for 50 and 60 Hz hum. Returns null when neither is there.
+ * Only a few frames spread across the source are read, so this is cheap
+ * even for long files.
+ */
+export const detectHum = async (source: AudioSource, signal?: AbortSignal): Promise<HumProfile | null> => {
+  const { sampleRate } = source;
+  // Half a second: lines a couple of Hz apart are resolved
+  const fftSize = nextPowerOfTwo(Math.round(sampleRate * 0.5));
+  if (source.length === 0) return null;
+
+  const power = await getQuietSpectrum(source, fftSize, signal);
+  const binHz = sampleRate / fftSize;
+  const maxHz = Math.min(MAX_HUM_HZ, sampleRate / 2 - NEIGHBOURHOOD_HZ);
+
+  let best: { found: { harmonic: number; frequency: number; prominenceDb: number }[]; score: number } | null = null;
+  for (const mains of MAINS_FREQUENCIES) {
+    const found = [];
+    for (let harmonic = 1; harmonic * mains <= maxHz; harmonic++) {
+      const line = measureLine(power, harmonic * mains, binHz);
+      if (line.prominenceDb >= MIN_PROMINENCE_DB) found.push({ harmonic, ...line });
+    }
+    const score = found.reduce((sum, line) => sum + line.prominenceDb, 0);
+    if (found.length >= MIN_HARMONICS && (!best || score > best.score)) best = { found, score };
+  }
+  if (!best) return null;
+
+  // Every line is a multiple of the true mains frequency; higher harmonics pin it down best
+  const weight = best.found.reduce((sum, line) => sum + line.harmonic, 0);
+  const fundamental = best.found.reduce((sum, line) => sum + line.frequency, 0) / weight;
+
+  return {
+    fundamental,
+    harmonics: best.found.map(line => line.harmonic * fundamental)
+  };
+};
+
+/**
+ * A notch comb on the hum's harmonics that processes consecutive chunks in
+ * place. Filter state carries over, so chunking does not change the result.
+ */
+export const createHumFilter = (
+  sampleRate: number,
+  numChannels: number,
+  hum: HumProfile
+): ((channels: Float32Array[]) => void) => {
+  const coefficients = hum.harmonics.map(frequency => {
+    const bandwidth = Math.max(NOTCH_BANDWIDTH_HZ, frequency * NOTCH_RELATIVE_BANDWIDTH);
+    return getBiquadCoefficients('notch', frequency, frequency / bandwidth, sampleRate);
+  });
+  const notches = Array.from({ length: numChannels }, () => coefficients.map(createBiquad));
+
+  return (channels: Float32Array[]) => {
+    for (let c = 0; c < numChannels; c++) {
+      const data = channels[c];
+      const comb = notches[c];
+      for (let i = 0; i < data.length; i++) {
+        let x = data[i];
+        for (let n = 0; n < comb.length; n++) x = comb[n](x);
+        data[i] = x;
+      }
+    }
+  };
+};
+
+/**
+ * Notches out `hum` from a whole file. Works in place.
+ */
+export const removeHum = (
+  audio: AudioData,
+  hum: HumProfile,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): AudioData => {
+  const length = getLength(audio);
+  const filter = createHumFilter(audio.sampleRate, audio.channels.length, hum);
+
+  for (let pos = 0; pos < length; pos += CHUNK_SIZE) {
+    signal?.throwIfAborted();
+    onProgress?.(pos / length);
+    filter(audio.channels.map(data => data.subarray(pos, pos + CHUNK_SIZE)));
+  }
+  return audio;
+};
@@ -0,0 +1,337 @@
+/**
+ * ID3v2.3 tags for MP3 files: the version every player and podcast app
+ * reads. Text frames are UTF-16 so titles in any script survive. Tags
+ * from uploads are read in v2.3 and v2.4.
+ */
+
+export interface CoverArt {
+  mimeType: string;   // e.g. 'image/jpeg'
+  data: Uint8Array;
+}
+
+export interface Id3Tags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  /**
+   * Written as the track number, which is where podcast apps look for it.
+   */
+  episode?: number | null;
+  comment?: string;
+  /**
+   * Release date, as free text. ID3v2.3 only keeps the year.
+   */
+  date?: string;
+  genre?: string;
+  cover?: CoverArt | null;
+}
+
+/**
+ * A chapter, with times in seconds. Podcast apps list these.
+ */
+export interface Id3Chapter {
+  start: number;
+  end: number;
+  title: string;
+}
+
+const TEXT_ENCODING_UTF16 = 1;
+const TEXT_ENCODING_LATIN1 = 0;
+const TEXT_ENCODING_UTF16BE = 2;
+const TEXT_ENCODING_UTF8 = 3;
+const PICTURE_TYPE_FRONT_COVER = 3;
+const NO_BYTE_OFFSET = 0xFFFFFFFF;
+
+const encodeUtf16 = (text: string): Uint8Array => {
+  // Byte order mark, then little-endian code units
+  const bytes = new Uint8Array(2 + text.length * 2);
+  bytes[0] = 0xFF;
+  bytes[1] = 0xFE;
+  for (let i = 0; i < text.length; i++) {
+    const unit = text.charCodeAt(i);
+    bytes[2 + i * 2] = unit & 0xFF;
+    bytes[3 + i * 2] = unit >> 8;
+  }
+  return bytes;
+};
+
+const encodeLatin1 = (text: string): Uint8Array =>
+  Uint8Array.from(text, c => c.charCodeAt(0) & 0xFF);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+const createFrame = (id: string, body: Uint8Array): Uint8Array => {
+  const header = new Uint8Array(10);
+  const view = new DataView(header.buffer);
+  header.set(encodeLatin1(id));
+  // v2.3 frame sizes are plain big-endian, unlike the tag size
+  view.setUint32(4, body.length);
+  return concat([header, body]);
+};
+
+const createTextFrame = (id: string, text: string): Uint8Array =>
+  createFrame(id, concat([Uint8Array.of(TEXT_ENCODING_UTF16), encodeUtf16(text)]));
+
+const createCommentFrame = (text: string): Uint8Array =>
+  createFrame('COMM', concat([
+    Uint8Array.of(TEXT_ENCODING_UTF16),
+    encodeLatin1('eng'),
+    encodeUtf16(''), Uint8Array.of(0, 0), // Empty description
+    encodeUtf16(text)
+  ]));
+
+const toMilliseconds = (seconds: number) => Math.max(0, Math.round(seconds * 1000));
+
+// ID3v2 Chapter Frame Addendum: CHAP frames hold the times, CTOC lists them in order
+const createChapterFrames = (chapters: Id3Chapter[]): Uint8Array[] => {
+  const ids = chapters.map((_, i) => `chp${i}`);
+  const frames = chapters.map((chapter, i) => {
+    const times = new Uint8Array(16);
+    const view = new DataView(times.buffer);
+    view.setUint32(0, toMilliseconds(chapter.start));
+    view.setUint32(4, toMilliseconds(chapter.end));
+    view.setUint32(8, NO_BYTE_OFFSET);
+    view.setUint32(12, NO_BYTE_OFFSET);
+    const title = chapter.title.trim() ? [createTextFrame('TIT2', chapter.title.trim())] : [];
+    return createFrame('CHAP', concat([encodeLatin1(ids[i]), Uint8Array.of(0), times, ...title]));
+  });
+  const toc = createFrame('CTOC', concat([
+    encodeLatin1('toc'), Uint8Array.of(0),
+    Uint8Array.of(0x03, ids.length), // Top level, ordered
+    ...ids.map(id => concat([encodeLatin1(id), Uint8Array.of(0)]))
+  ]));
+  return [toc, ...frames];
+};
+
+const createPictureFrame = (cover: CoverArt): Uint8Array =>
+  createFrame('APIC', concat([
+    Uint8Array.of(TEXT_ENCODING_LATIN1),
+    encodeLatin1(cover.mimeType), Uint8Array.of(0),
+    Uint8Array.of(PICTURE_TYPE_FRONT_COVER),
+    Uint8Array.of(0), // Empty description
+    cover.data
+  ]));
+
+/**
+ * True when there is anything to write.
+ */
+export const hasId3Tags = (tags: Id3Tags | null | undefined): tags is Id3Tags =>
+  !!tags && !!(
+    tags.title?.trim() || tags.artist?.trim() || tags.album?.trim() || tags.episode != null ||
+    tags.comment?.trim() || tags.date?.trim() || tags.genre?.trim() || tags.cover
+  );
+
+/**
+ * Length of the ID3v2 tag at the start of `bytes`, header and footer
+ * included, or 0 if there is none. Only the first 10 bytes are needed.
+ */
+export const getId3TagSize = (bytes: Uint8Array): number => {
+  if (bytes.length < 10 || String.fromCharCode(bytes[0], bytes[1], bytes[2]) !== 'ID3') return 0;
+  const size = ((bytes[6] & 0x7F) << 21) | ((bytes[7] & 0x7F) << 14) | ((bytes[8] & 0x7F) << 7) | (bytes[9] & 0x7F);
+  // v2.4 may end with a 10-byte footer
+  return 10 + size + (bytes[5] & 0x10 ? 10 : 0);
+};
+
+/**
+ * Builds a complete ID3v2.3 tag, to be placed at the very start of the file.
+ * `duration` (seconds) is written as the length, which players otherwise
+ * estimate from the bitrate.
+ */
+export const createId3Tag = (tags: Id3Tags, duration?: number, chapters: Id3Chapter[] = []): Uint8Array => {
+  const frames: Uint8Array[] = [];
+  const year = tags.date?.trim().match(/^\d{4}/)?.[0];
+  if (tags.title?.trim()) frames.push(createTextFrame('TIT2', tags.title.trim()));
+  if (tags.artist?.trim()) frames.push(createTextFrame('TPE1', tags.artist.trim()));
+  if (tags.album?.trim()) frames.push(createTextFrame('TALB', tags.album.trim()));
+  if (tags.episode != null) frames.push(createTextFrame('TRCK', String(tags.episode)));
+  if (year) frames.push(createTextFrame('TYER', year));
+  if (tags.genre?.trim()) frames.push(createTextFrame('TCON', tags.genre.trim()));
+  if (tags.comment?.trim()) frames.push(createCommentFrame(tags.comment.trim()));
+  if (duration !== undefined) frames.push(createTextFrame('TLEN', String(toMilliseconds(duration))));
+  if (chapters.length > 0) frames.push(...createChapterFrames(chapters));
+  if (tags.cover) frames.push(createPictureFrame(tags.cover));
+
+  const body = concat(frames);
+  const header = new Uint8Array(10);
+  header.set(encodeLatin1('ID3'));
+  header[3] = 3; // v2.3.0
+  // Tag size is synchsafe: 7 bits per byte
+  for (let i = 0; i < 4; i++) header[6 + i] = (body.length >> (7 * (3 - i))) & 0x7F;
+  return concat([header, body]);
+};
+
+/**
+ * What an ID3v2 tag holds that survives into the exports.
+ */
+export interface Id3Contents {
+  tags: Id3Tags;
+  chapters: Id3Chapter[];
+}
+
+const readSynchsafe = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] & 0x7F) << 21) | ((bytes[offset + 1] & 0x7F) << 14) | ((bytes[offset + 2] & 0x7F) << 7) | (bytes[offset + 3] & 0x7F);
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// Unsynchronisation puts a zero after every 0xFF; take them out again
+const removeUnsync = (bytes: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    out.push(bytes[i]);
+    if (bytes[i] === 0xFF && bytes[i + 1] === 0) i++;
+  }
+  return Uint8Array.from(out);
+};
+
+const TEXT_DECODERS: Record<number, string> = {
+  [TEXT_ENCODING_LATIN1]: 'latin1',
+  [TEXT_ENCODING_UTF16]: 'utf-16',
+  [TEXT_ENCODING_UTF16BE]: 'utf-16be',
+  [TEXT_ENCODING_UTF8]: 'utf-8'
+};
+
+// Terminated strings end in one zero byte, or two (aligned) in UTF-16
+const findTerminator = (bytes: Uint8Array, offset: number, encoding: number): number => {
+  const wide = encoding === TEXT_ENCODING_UTF16 || encoding === TEXT_ENCODING_UTF16BE;
+  for (let i = offset; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i;
+  }
+  return bytes.length;
+};
+
+const terminatorLength = (encoding: number) =>
+  encoding === TEXT_ENCODING_UTF16 || encoding === TEXT_ENCODING_UTF16BE ? 2 : 1;
+
+const decodeText = (bytes: Uint8Array, encoding: number): string => {
+  // v2.4 separates multiple values with terminators; the first is enough
+  const end = findTerminator(bytes, 0, encoding);
+  const bigEndian = encoding === TEXT_ENCODING_UTF16 && bytes[0] === 0xFE && bytes[1] === 0xFF;
+  const label = bigEndian ? 'utf-16be' : TEXT_DECODERS[encoding] ?? 'latin1';
+  return new TextDecoder(label).decode(bytes.subarray(0, end)).trim();
+};
+
+/**
+ * Calls `onFrame` for each frame in `bytes`, which is a tag body or the
+ * sub-frames of a chapter.
+ */
+const readFrames = (bytes: Uint8Array, version: number, tagUnsync: boolean, onFrame: (id: string, data: Uint8Array) => void) => {
+  let offset = 0;
+  while (offset + 10 <= bytes.length && bytes[offset] !== 0) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = version === 4 ? readSynchsafe(bytes, offset + 4) : readUint32(bytes, offset + 4);
+    const flags = bytes[offset + 9];
+    let data = bytes.subarray(offset + 10, Math.min(bytes.length, offset + 10 + size));
+    offset += 10 + size;
+
+    if (version === 4) {
+      // Compressed or encrypted frames are skipped
+      if (flags & 0x0C) continue;
+      if (tagUnsync || flags & 0x02) data = removeUnsync(data);
+      if (flags & 0x01) data = data.subarray(4); // Data length indicator
+    } else if (flags & 0xC0) {
+      continue;
+    }
+    if (data.length > 0) onFrame(id, data);
+  }
+};
+
+const readChapter = (data: Uint8Array, version: number): Id3Chapter | null => {
+  const idEnd = findTerminator(data, 0, TEXT_ENCODING_LATIN1);
+  if (idEnd + 17 > data.length) return null;
+  const chapter: Id3Chapter = {
+    start: readUint32(data, idEnd + 1) / 1000,
+    end: readUint32(data, idEnd + 5) / 1000,
+    title: ''
+  };
+  readFrames(data.subarray(idEnd + 17), version, false, (id, frame) => {
+    if (id === 'TIT2') chapter.title = decodeText(frame.subarray(1), frame[0]);
+  });
+  return chapter;
+};
+
+const readPicture = (data: Uint8Array): { type: number; cover: CoverArt } => {
+  const encoding = data[0];
+  const mimeEnd = findTerminator(data, 1, TEXT_ENCODING_LATIN1);
+  const mimeType = decodeText(data.subarray(1, mimeEnd), TEXT_ENCODING_LATIN1);
+  const type = data[mimeEnd + 1];
+  const descriptionEnd = findTerminator(data, mimeEnd + 2, encoding);
+  return {
+    type,
+    cover: {
+      // A few old taggers write just the subtype
+      mimeType: mimeType.includes('/') ? mimeType : `image/${mimeType.toLowerCase() || 'jpeg'}`,
+      data: data.slice(descriptionEnd + terminatorLength(encoding))
+    }
+  };
+};
+
+/**
+ * Reads the ID3v2 tag at the start of `bytes`, or returns null if there is
+ * none or it is v2.2, which predates the frames read here.
+ */
+export const readId3Tag = (bytes: Uint8Array): Id3Contents | null => {
+  const size = getId3TagSize(bytes);
+  const version = bytes[3];
+  if (size === 0 || (version !== 3 && version !== 4)) return null;
+
+  const flags = bytes[5];
+  let body = bytes.subarray(10, Math.min(bytes.length, 10 + size - (flags & 0x10 ? 10 : 0)));
+  if (version === 3 && flags & 0x80) body = removeUnsync(body);
+  if (flags & 0x40) {
+    // Extended header: v2.4 counts its own size field, v2.3 does not
+    body = body.subarray(version === 4 ? readSynchsafe(body, 0) : readUint32(body, 0) + 4);
+  }
+
+  const tags: Id3Tags = {};
+  const chapters: Id3Chapter[] = [];
+  let coverType = -1;
+  readFrames(body, version, version === 4 && !!(flags & 0x80), (id, data) => {
+    const text = () => decodeText(data.subarray(1), data[0]);
+    switch (id) {
+      case 'TIT2': tags.title = text(); break;
+      case 'TPE1': tags.artist = text(); break;
+      case 'TALB': tags.album = text(); break;
+      case 'TYER':
+      case 'TDRC': tags.date = text(); break;
+      // Numeric genres are written as "(12)", often followed by the name
+      case 'TCON': tags.genre = text().replace(/^\(\d+\)(?=.)/, ''); break;
+      case 'TRCK': {
+        const episode = parseInt(text(), 10);
+        if (Number.isFinite(episode)) tags.episode = episode;
+        break;
+      }
+      case 'COMM': {
+        if (tags.comment || data.length < 5) break;
+        const descriptionEnd = findTerminator(data, 4, data[0]);
+        tags.comment = decodeText(data.subarray(descriptionEnd + terminatorLength(data[0])), data[0]);
+        break;
+      }
+      case 'APIC': {
+        // Prefer the front cover over other pictures
+        const picture = readPicture(data);
+        if (coverType !== PICTURE_TYPE_FRONT_COVER && picture.cover.data.length > 0) {
+          tags.cover = picture.cover;
+          coverType = picture.type;
+        }
+        break;
+      }
+      case 'CHAP': {
+        const chapter = readChapter(data, version);
+        if (chapter) chapters.push(chapter);
+        break;
+      }
+    }
+  });
+
+  chapters.sort((a, b) => a.start - b.start);
+  return { tags, chapters };
+};
@@ -0,0 +1,149 @@
+import { getNoiseFloor } from './audioProcessing';
+import { AudioData, getLength } from './audioData';
+
+export type LevelMeasure = 'peak' | 'rms';
+
+/**
+ * Distribution of short-term levels across a file, plus a suggested
+ * silence threshold that separates the noise floor from speech.
+ */
+export interface LevelAnalysis {
+  measure: LevelMeasure;
+  /**
+   * Frame counts per dB bin. Bin `i` covers [minDb + i, minDb + i + 1).
+   */
+  histogram: Uint32Array;
+  minDb: number;
+  maxDb: number;
+  noiseFloorDb: number;
+  speechLevelDb: number;
+  suggestedThresholdDb: number;
+}
+
+const HISTOGRAM_MIN_DB = -90;
+const HISTOGRAM_MAX_DB = 0;
+const FRAME_SECONDS = 0.05;
+
+/**
+ * Otsu's method on a histogram: the bin that best splits it into two classes
+ * (here: background noise and speech) by maximising between-class variance.
+ */
+const otsuThreshold = (histogram: Uint32Array): number => {
+  let total = 0;
+  let sumAll = 0;
+  for (let i = 0; i < histogram.length; i++) {
+    total += histogram[i];
+    sumAll += i * histogram[i];
+  }
+
+  let weightLow = 0;
+  let sumLow = 0;
+  let bestVariance = -1;
+  let best = 0;
+
+  for (let i = 0; i < histogram.length; i++) {
+    weightLow += histogram[i];
+    if (weightLow === 0) continue;
+    const weightHigh = total - weightLow;
+    if (weightHigh === 0) break;
+
+    sumLow += i * histogram[i];
+    const meanLow = sumLow / weightLow;
+    const meanHigh = (sumAll - sumLow) / weightHigh;
+    const variance = weightLow * weightHigh * (meanLow - meanHigh) * (meanLow - meanHigh);
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = i + 1;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Returns the dB value below which `fraction` of the histogram lies.
+ */
+const histogramPercentile = (histogram: Uint32Array, fromBin: number, fraction: number): number => {
+  let total = 0;
+  for (let i = fromBin; i < histogram.length; i++) total += histogram[i];
+  if (total === 0) return fromBin;
+
+  const target = total * fraction;
+  let acc = 0;
+  for (let i = fromBin; i < histogram.length; i++) {
+    acc += histogram[i];
+    if (acc >= target) return i;
+  }
+  return histogram.length - 1;
+};
+
+/**
+ * Analyzes 50ms frames of the audio and suggests a silence threshold.
+ * Use `measure: 'peak'` when calibrating for the peak detector, since
+ * peaks sit well above RMS on the same material.
+ */
+export const analyzeLevels = (
+  audio: AudioData,
+  measure: LevelMeasure = 'rms'
+): LevelAnalysis => {
+  const channels = audio.channels;
+  const numChannels = channels.length;
+  const length = getLength(audio);
+  const frameSize = Math.max(1, Math.floor(audio.sampleRate * FRAME_SECONDS));
+  const histogram = new Uint32Array(HISTOGRAM_MAX_DB - HISTOGRAM_MIN_DB);
+
+  for (let start = 0; start < length; start += frameSize) {
+    const end = Math.min(start + frameSize, length);
+    let level = 0;
+
+    if (measure === 'peak') {
+      for (let c = 0; c < numChannels; c++) {
+        const data = channels[c];
+        for (let i = start; i < end; i++) {
+          const abs = Math.abs(data[i]);
+          if (abs > level) level = abs;
+        }
+      }
+    } else {
+      let sum = 0;
+      for (let c = 0; c < numChannels; c++) {
+        const data = channels[c];
+        for (let i = start; i < end; i++) sum += data[i] * data[i];
+      }
+      level = Math.sqrt(sum / ((end - start) * numChannels));
+    }
+
+    // Ignore absolute digital silence, same as getNoiseFloor
+    if (level > 0.000001) {
+      const db = 20 * Math.log10(level);
+      const bin = Math.max(0, Math.min(histogram.length - 1, Math.floor(db - HISTOGRAM_MIN_DB)));
+      histogram[bin]++;
+    }
+  }
+
+  // Dense noise floor scan (RMS). For peak calibration the floor is read
+  // from the peak histogram instead, using the same 10th percentile rule.
+  const noiseFloorDb = measure === 'rms'
+    ? getNoiseFloor(audio, FRAME_SECONDS)
+    : HISTOGRAM_MIN_DB + histogramPercentile(histogram, 0, 0.1);
+
+  const splitBin = otsuThreshold(histogram);
+  const speechLevelDb = HISTOGRAM_MIN_DB + histogramPercentile(histogram, splitBin, 0.5);
+
+  // Sit between the two clusters but never hug either one
+  let suggested = HISTOGRAM_MIN_DB + splitBin;
+  suggested = Math.max(noiseFloorDb + 4, Math.min(speechLevelDb - 6, suggested));
+  // Match the range the threshold slider offers
+  suggested = Math.round(Math.max(-60, Math.min(-10, suggested)));
+
+  return {
+    measure,
+    histogram,
+    minDb: HISTOGRAM_MIN_DB,
+    maxDb: HISTOGRAM_MAX_DB,
+    noiseFloorDb,
+    speechLevelDb,
+    suggestedThresholdDb: suggested
+  };
+};
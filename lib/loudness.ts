@@ -0,0 +1,359 @@
+import { AudioData, getLength } from './audioData';
+
+/**
+ * Loudness as defined by ITU-R BS.1770 / EBU R128: K-weighted, gated
+ * integrated loudness, loudness range (EBU Tech 3342) and true peak from
+ * 4x oversampling. Normalization applies one gain for the whole file and
+ * a lookahead limiter that keeps true peaks under a ceiling.
+ */
+
+export interface LoudnessStats {
+  /**
+   * Integrated loudness in LUFS. -Infinity when nothing passes the gates.
+   */
+  integrated: number;
+  /**
+   * Loudness range in LU.
+   */
+  range: number;
+  /**
+   * Highest true peak in dBTP.
+   */
+  truePeak: number;
+}
+
+export interface LoudnessTarget {
+  integrated: number; // LUFS
+  truePeak: number;   // dBTP ceiling
+}
+
+export interface LoudnessReport {
+  before: LoudnessStats;
+  after: LoudnessStats;
+  /**
+   * Total gain applied before limiting, in dB.
+   */
+  gainDb: number;
+}
+
+export type LoudnessPreset = 'podcast' | 'streaming' | 'broadcast';
+
+export const LOUDNESS_PRESETS: Record<LoudnessPreset, { label: string; target: LoudnessTarget }> = {
+  podcast: { label: 'Podcast', target: { integrated: -16, truePeak: -1 } },
+  streaming: { label: 'Streaming', target: { integrated: -14, truePeak: -1 } },
+  broadcast: { label: 'Broadcast (R128)', target: { integrated: -23, truePeak: -1 } },
+};
+
+const SUB_BLOCK_SECONDS = 0.1;
+const MOMENTARY_SUB_BLOCKS = 4;   // 400ms gating blocks, 75% overlap
+const SHORT_TERM_SUB_BLOCKS = 30; // 3s blocks for the loudness range
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const RANGE_RELATIVE_GATE_LU = -20;
+
+// Windowed-sinc taps either side of the interpolated point
+const TRUE_PEAK_HALF_TAPS = 6;
+const OVERSAMPLING = 4;
+// Samples per block when deciding where oversampling is needed
+const PEAK_BLOCK = 64;
+
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.1;
+
+const NORMALIZE_PASSES = 3;
+// Close enough to the target to stop correcting
+const LOUDNESS_TOLERANCE_LU = 0.2;
+
+const energyToLufs = (energy: number) => -0.691 + 10 * Math.log10(energy);
+
+const toDb = (value: number) => 20 * Math.log10(value);
+
+/**
+ * The two K-weighting biquads (high shelf, then high pass) for any sample
+ * rate, as [b0, b1, b2, a1, a2] each.
+ */
+const getKWeightingFilters = (sampleRate: number): number[][] => {
+  // Stage 1: +4dB shelf above ~1.7kHz modelling the head
+  let f0 = 1681.974450955533;
+  let q = 0.7071752369554196;
+  let k = Math.tan(Math.PI * f0 / sampleRate);
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf = [
+    (vh + vb * k / q + k * k) / a0,
+    2 * (k * k - vh) / a0,
+    (vh - vb * k / q + k * k) / a0,
+    2 * (k * k - 1) / a0,
+    (1 - k / q + k * k) / a0
+  ];
+
+  // Stage 2: RLB high pass at ~38Hz
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass = [1, -2, 1, 2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0];
+
+  return [shelf, highPass];
+};
+
+/**
+ * Mean square of the K-weighted signal per 100ms sub-block, summed over
+ * channels. A trailing partial sub-block is dropped.
+ */
+const getSubBlockEnergies = (audio: AudioData, signal?: AbortSignal): Float64Array => {
+  const length = getLength(audio);
+  const subBlock = Math.round(SUB_BLOCK_SECONDS * audio.sampleRate);
+  const count = Math.floor(length / subBlock);
+  const energies = new Float64Array(count);
+
+  const [[s0, s1, s2, s3, s4], [h0, h1, h2, h3, h4]] = getKWeightingFilters(audio.sampleRate);
+
+  for (const data of audio.channels) {
+    signal?.throwIfAborted();
+    // Direct form I state of both stages
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0, z1 = 0, z2 = 0;
+    for (let b = 0; b < count; b++) {
+      let sum = 0;
+      for (let i = b * subBlock; i < (b + 1) * subBlock; i++) {
+        const x = data[i];
+        const y = s0 * x + s1 * x1 + s2 * x2 - s3 * y1 - s4 * y2;
+        const z = h0 * y + h1 * y1 + h2 * y2 - h3 * z1 - h4 * z2;
+        x2 = x1; x1 = x;
+        y2 = y1; y1 = y;
+        z2 = z1; z1 = z;
+        sum += z * z;
+      }
+      energies[b] += sum / subBlock;
+    }
+  }
+  return energies;
+};
+
+/**
+ * Mean energy of every `size`-sub-block window, stepping one sub-block.
+ */
+const getBlockEnergies = (subBlocks: Float64Array, size: number): number[] => {
+  const blocks: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < subBlocks.length; i++) {
+    sum += subBlocks[i];
+    if (i >= size) sum -= subBlocks[i - size];
+    if (i >= size - 1) blocks.push(Math.max(0, sum) / size);
+  }
+  return blocks;
+};
+
+/**
+ * Blocks above the absolute gate and `relativeLu` below their mean.
+ */
+const gateBlocks = (blocks: number[], relativeLu: number): number[] => {
+  const absolute = blocks.filter(e => energyToLufs(e) > ABSOLUTE_GATE_LUFS);
+  if (absolute.length === 0) return [];
+  const mean = absolute.reduce((sum, e) => sum + e, 0) / absolute.length;
+  const relativeGate = energyToLufs(mean) + relativeLu;
+  return absolute.filter(e => energyToLufs(e) > relativeGate);
+};
+
+/**
+ * Interpolation taps for the 3 points between two samples (the 4th is the
+ * sample itself): a Hann-windowed sinc per fractional position.
+ */
+const getOversamplingTaps = (): Float64Array[] => {
+  const taps: Float64Array[] = [];
+  for (let p = 1; p < OVERSAMPLING; p++) {
+    const frac = p / OVERSAMPLING;
+    const phase = new Float64Array(2 * TRUE_PEAK_HALF_TAPS);
+    for (let j = 0; j < phase.length; j++) {
+      const t = j - TRUE_PEAK_HALF_TAPS + 1 - frac;
+      const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 + 0.5 * Math.cos(Math.PI * t / (TRUE_PEAK_HALF_TAPS + 1));
+      phase[j] = sinc * window;
+    }
+    taps.push(phase);
+  }
+  return taps;
+};
+
+/**
+ * Per-sample true peak across channels: the largest absolute value of
+ * the 4x oversampled signal between each sample and the next.
+ * Oversampling is the expensive part, so it is skipped where the nearby
+ * samples can't reach `floor`; those samples report their own level.
+ */
+export const getTruePeaks = (audio: AudioData, floor: number = 0, signal?: AbortSignal): Float32Array => {
+  const length = getLength(audio);
+  const peaks = new Float32Array(length);
+  const taps = getOversamplingTaps();
+  const first = 1 - TRUE_PEAK_HALF_TAPS;
+  // Largest factor interpolation can put on the loudest nearby sample
+  const overshoot = Math.max(...taps.map(phase => phase.reduce((sum, t) => sum + Math.abs(t), 0)));
+  const blockCount = Math.ceil(length / PEAK_BLOCK);
+
+  for (const data of audio.channels) {
+    signal?.throwIfAborted();
+    const blockMax = new Float32Array(blockCount);
+    for (let i = 0; i < length; i++) {
+      const v = Math.abs(data[i]);
+      if (v > blockMax[(i / PEAK_BLOCK) | 0]) blockMax[(i / PEAK_BLOCK) | 0] = v;
+    }
+
+    for (let b = 0; b < blockCount; b++) {
+      const from = b * PEAK_BLOCK;
+      const to = Math.min(length, from + PEAK_BLOCK);
+      // The taps never reach further than the neighbouring blocks
+      const nearby = Math.max(blockMax[b], b > 0 ? blockMax[b - 1] : 0, b + 1 < blockCount ? blockMax[b + 1] : 0);
+      const interpolate = nearby * overshoot >= floor;
+
+      for (let i = from; i < to; i++) {
+        let peak = Math.abs(data[i]);
+        if (interpolate) {
+          for (const phase of taps) {
+            let v = 0;
+            for (let j = 0; j < phase.length; j++) {
+              const n = i + first + j;
+              if (n >= 0 && n < length) v += data[n] * phase[j];
+            }
+            if (Math.abs(v) > peak) peak = Math.abs(v);
+          }
+        }
+        if (peak > peaks[i]) peaks[i] = peak;
+      }
+    }
+  }
+  return peaks;
+};
+
+/**
+ * Integrated loudness, loudness range and true peak of `audio`.
+ */
+export const measureLoudness = (audio: AudioData, signal?: AbortSignal): LoudnessStats => {
+  const subBlocks = getSubBlockEnergies(audio, signal);
+
+  const gated = gateBlocks(getBlockEnergies(subBlocks, MOMENTARY_SUB_BLOCKS), RELATIVE_GATE_LU);
+  const integrated = gated.length
+    ? energyToLufs(gated.reduce((sum, e) => sum + e, 0) / gated.length)
+    : -Infinity;
+
+  // Loudness range: spread between the 10th and 95th percentile of short-term loudness
+  const shortTerm = gateBlocks(getBlockEnergies(subBlocks, SHORT_TERM_SUB_BLOCKS), RANGE_RELATIVE_GATE_LU)
+    .map(energyToLufs)
+    .sort((a, b) => a - b);
+  const percentile = (p: number) => shortTerm[Math.min(shortTerm.length - 1, Math.round(p * (shortTerm.length - 1)))];
+  const range = shortTerm.length ? percentile(0.95) - percentile(0.1) : 0;
+
+  // Only the loudest stretches can hold the highest true peak
+  let samplePeak = 0;
+  for (const data of audio.channels) {
+    for (let i = 0; i < data.length; i++) if (Math.abs(data[i]) > samplePeak) samplePeak = Math.abs(data[i]);
+  }
+  const peaks = getTruePeaks(audio, samplePeak, signal);
+  let peak = 0;
+  for (let i = 0; i < peaks.length; i++) if (peaks[i] > peak) peak = peaks[i];
+
+  return { integrated, range, truePeak: toDb(peak) };
+};
+
+/**
+ * Per-sample gain that applies `gainDb` but keeps `truePeaks` scaled by it
+ * under `ceilingDb`. Gain reduction starts a few milliseconds ahead of
+ * each peak (min filter, then moving average) and recovers smoothly.
+ */
+export const computeLimiterGain = (
+  truePeaks: Float32Array,
+  gainDb: number,
+  ceilingDb: number,
+  sampleRate: number
+): Float32Array => {
+  const length = truePeaks.length;
+  const gain = Math.pow(10, gainDb / 20);
+  const ceiling = Math.pow(10, ceilingDb / 20);
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD_SECONDS * sampleRate));
+  const release = Math.exp(-1 / (LIMITER_RELEASE_SECONDS * sampleRate));
+  const padded = length + lookahead - 1;
+
+  // Gain each sample may have on its own
+  const wanted = (i: number) => i < length && truePeaks[i] * gain > ceiling ? ceiling / truePeaks[i] : gain;
+
+  // Minimum over the last `lookahead` samples, via a monotonic deque
+  const deque = new Int32Array(lookahead + 1);
+  const values = new Float64Array(lookahead + 1);
+  let head = 0;
+  let tail = 0;
+  const held = new Float32Array(padded);
+  for (let i = 0; i < padded; i++) {
+    const g = wanted(i);
+    while (tail > head && values[(tail - 1) % deque.length] >= g) tail--;
+    deque[tail % deque.length] = i;
+    values[tail % deque.length] = g;
+    tail++;
+    if (deque[head % deque.length] <= i - lookahead) head++;
+    held[i] = values[head % deque.length];
+  }
+
+  // Release: follow drops at once, recover exponentially (never above `held`)
+  let smoothed = gain;
+  for (let i = 0; i < padded; i++) {
+    smoothed = held[i] < smoothed ? held[i] : held[i] + (smoothed - held[i]) * release;
+    held[i] = smoothed;
+  }
+
+  // Averaging over the lookahead turns the step into a ramp that is
+  // complete by the time the peak arrives
+  const curve = new Float32Array(length);
+  let sum = 0;
+  for (let i = 0; i < padded; i++) {
+    sum += held[i];
+    if (i >= lookahead) sum -= held[i - lookahead];
+    const out = i - lookahead + 1;
+    if (out >= 0) curve[out] = sum / lookahead;
+  }
+  return curve;
+};
+
+/**
+ * Multiplies every channel by `curve`, in place.
+ */
+export const applyGainCurve = (audio: AudioData, curve: Float32Array) => {
+  for (const data of audio.channels) {
+    for (let i = 0; i < data.length; i++) data[i] *= curve[i];
+  }
+};
+
+/**
+ * Brings `audio` to the target integrated loudness with true peaks held
+ * under the target ceiling. Works in place. Heavy limiting lowers the
+ * loudness again, so the gain is corrected for up to two more passes.
+ * Silent audio is left alone. Also returns the overall gain curve, so
+ * other audio (the stems of a mix) can follow the same changes.
+ */
+export const normalizeLoudness = (
+  audio: AudioData,
+  target: LoudnessTarget,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): { report: LoudnessReport; curve: Float32Array } => {
+  const ceiling = Math.pow(10, target.truePeak / 20);
+  let stats = measureLoudness(audio, signal);
+  const before = stats;
+  let totalGainDb = 0;
+  const total = new Float32Array(getLength(audio)).fill(1);
+
+  for (let pass = 0; pass < NORMALIZE_PASSES && Number.isFinite(stats.integrated); pass++) {
+    onProgress?.((pass + 1) / (NORMALIZE_PASSES + 1));
+    const gainDb = target.integrated - stats.integrated;
+    if (pass > 0 && Math.abs(gainDb) < LOUDNESS_TOLERANCE_LU) break;
+
+    // Peaks that stay under the ceiling after the gain don't matter to the limiter
+    const peaks = getTruePeaks(audio, ceiling / Math.pow(10, gainDb / 20), signal);
+    const curve = computeLimiterGain(peaks, gainDb, target.truePeak, audio.sampleRate);
+    applyGainCurve(audio, curve);
+    for (let i = 0; i < total.length; i++) total[i] *= curve[i];
+    totalGainDb += gainDb;
+    stats = measureLoudness(audio, signal);
+  }
+
+  onProgress?.(1);
+  return { report: { before, after: stats, gainDb: totalGainDb }, curve: total };
+};
@@ -0,0 +1,82 @@
+/**
+ * Incremental MD5 (RFC 1321), for the audio signature FLAC keeps in its
+ * header. Not for anything security related.
+ */
+
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+const K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+
+export const createMd5 = () => {
+  const state = new Int32Array([0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476]);
+  const block = new Uint8Array(64);
+  const words = new Int32Array(16);
+  let blockFill = 0;
+  let totalBytes = 0;
+
+  const processBlock = () => {
+    for (let i = 0; i < 16; i++) {
+      words[i] = block[i * 4] | (block[i * 4 + 1] << 8) | (block[i * 4 + 2] << 16) | (block[i * 4 + 3] << 24);
+    }
+    let [a, b, c, d] = state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + K[i] + words[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+    }
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+  };
+
+  const update = (bytes: Uint8Array) => {
+    totalBytes += bytes.length;
+    for (let i = 0; i < bytes.length; ) {
+      const n = Math.min(bytes.length - i, 64 - blockFill);
+      block.set(bytes.subarray(i, i + n), blockFill);
+      blockFill += n;
+      i += n;
+      if (blockFill === 64) {
+        processBlock();
+        blockFill = 0;
+      }
+    }
+  };
+
+  const digest = (): Uint8Array => {
+    const bits = totalBytes * 8;
+    const padding = new Uint8Array((blockFill < 56 ? 56 : 120) - blockFill + 8);
+    padding[0] = 0x80;
+    // Length in bits, little-endian 64-bit
+    for (let i = 0; i < 8; i++) padding[padding.length - 8 + i] = Math.floor(bits / Math.pow(2, 8 * i)) & 0xFF;
+    update(padding);
+    const out = new DataView(new ArrayBuffer(16));
+    state.forEach((word, i) => out.setInt32(i * 4, word, true));
+    return new Uint8Array(out.buffer);
+  };
+
+  return { update, digest };
+};
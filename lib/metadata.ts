@@ -0,0 +1,363 @@
+import { CoverArt, getId3TagSize, Id3Chapter, Id3Contents, Id3Tags, readId3Tag } from './id3';
+import { TimeMap } from './timeMap';
+
+/**
+ * Tags, broadcast details and markers of the uploaded file, carried over
+ * into the exports. Each format keeps what it has room for: WAV all of it,
+ * MP3 tags and chapters, FLAC and Opus tags and chapter comments, M4A tags.
+ */
+
+/**
+ * A named point in the audio: a WAV cue, an ID3 chapter or a Vorbis
+ * CHAPTER comment.
+ */
+export interface Marker {
+  time: number; // Seconds
+  label: string;
+}
+
+/**
+ * The text fields of a BWF `bext` chunk.
+ */
+export interface BroadcastInfo {
+  description: string;
+  originator: string;
+  originatorReference: string;
+  originationDate: string; // yyyy-mm-dd
+  originationTime: string; // hh:mm:ss
+  /**
+   * One line per processing step the file has been through.
+   */
+  codingHistory: string;
+}
+
+export interface AudioMetadata extends Id3Tags {
+  broadcast?: BroadcastInfo | null;
+  /**
+   * Time of day of the first sample, in seconds after midnight. BWF and
+   * iXML store it in samples; keeping seconds survives resampling.
+   */
+  timeReference?: number | null;
+  /**
+   * The iXML document (location sound metadata), kept as is apart from
+   * the time and format fields, which are rewritten for each export.
+   */
+  ixml?: string | null;
+  markers?: Marker[];
+}
+
+const FLAC_BLOCK_VORBIS_COMMENT = 4;
+const FLAC_BLOCK_PICTURE = 6;
+const FLAC_BLOCK_INVALID = 127;
+// Chunks larger than this are audio or something else not worth reading
+const MAX_METADATA_CHUNK = 16 * 1024 * 1024;
+const INFO_FIELDS: Record<string, 'title' | 'artist' | 'album' | 'comment' | 'date' | 'genre'> = {
+  INAM: 'title',
+  IART: 'artist',
+  IPRD: 'album',
+  ICMT: 'comment',
+  ICRD: 'date',
+  IGNR: 'genre'
+};
+
+/**
+ * True when there is anything to carry over.
+ */
+export const hasMetadata = (metadata: AudioMetadata | null | undefined): metadata is AudioMetadata =>
+  !!metadata && !!(
+    metadata.title?.trim() || metadata.artist?.trim() || metadata.album?.trim() || metadata.episode != null ||
+    metadata.comment?.trim() || metadata.date?.trim() || metadata.genre?.trim() || metadata.cover ||
+    metadata.broadcast || metadata.timeReference != null || metadata.ixml || metadata.markers?.length
+  );
+
+const readBytes = async (file: Blob, start: number, end: number) =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const fourCC = (bytes: Uint8Array, offset = 0) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const readUint32LE = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+const readUint32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// RIFF text is nominally Latin-1, but most tools now write UTF-8
+const decodeString = (bytes: Uint8Array): string => {
+  const end = bytes.indexOf(0);
+  const text = end < 0 ? bytes : bytes.subarray(0, end);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(text).trim();
+  } catch {
+    return new TextDecoder('latin1').decode(text).trim();
+  }
+};
+
+const parseEpisode = (text: string): number | null => {
+  const episode = parseInt(text, 10);
+  return Number.isFinite(episode) ? episode : null;
+};
+
+const fromId3 = ({ tags, chapters }: Id3Contents): AudioMetadata => ({
+  ...tags,
+  markers: chapters.map(c => ({ time: c.start, label: c.title }))
+});
+
+// Vorbis chapter times are HH:MM:SS.mmm
+const formatChapterTime = (seconds: number): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+const parseChapterTime = (text: string): number | null => {
+  const match = text.trim().match(/^(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null;
+};
+
+const readVorbisComments = (bytes: Uint8Array): AudioMetadata => {
+  const metadata: AudioMetadata = {};
+  const chapters = new Map<string, Marker>();
+  const utf8 = new TextDecoder('utf-8');
+  let offset = 4 + readUint32LE(bytes, 0); // Vendor string
+  const count = readUint32LE(bytes, offset);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = readUint32LE(bytes, offset);
+    const comment = utf8.decode(bytes.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+    const split = comment.indexOf('=');
+    if (split < 0) continue;
+    const field = comment.slice(0, split).toUpperCase();
+    const value = comment.slice(split + 1).trim();
+
+    const chapter = field.match(/^CHAPTER(\d+)(NAME)?$/);
+    if (chapter) {
+      const marker = chapters.get(chapter[1]) ?? { time: -1, label: '' };
+      if (chapter[2]) marker.label = value;
+      else marker.time = parseChapterTime(value) ?? -1;
+      chapters.set(chapter[1], marker);
+      continue;
+    }
+    switch (field) {
+      case 'TITLE': metadata.title = value; break;
+      case 'ARTIST': metadata.artist = value; break;
+      case 'ALBUM': metadata.album = value; break;
+      case 'DATE': metadata.date = value; break;
+      case 'GENRE': metadata.genre = value; break;
+      case 'COMMENT':
+      case 'DESCRIPTION': metadata.comment ??= value; break;
+      case 'TRACKNUMBER': metadata.episode = parseEpisode(value); break;
+    }
+  }
+
+  const markers = [...chapters.values()].filter(m => m.time >= 0).sort((a, b) => a.time - b.time);
+  if (markers.length > 0) metadata.markers = markers;
+  return metadata;
+};
+
+// FLAC PICTURE block: big-endian lengths, like the rest of FLAC
+const readFlacPicture = (bytes: Uint8Array): CoverArt => {
+  const mimeLength = readUint32BE(bytes, 4);
+  const mimeType = new TextDecoder('latin1').decode(bytes.subarray(8, 8 + mimeLength));
+  const descriptionLength = readUint32BE(bytes, 8 + mimeLength);
+  const dataOffset = 12 + mimeLength + descriptionLength + 16; // Width, height, depth, palette size
+  const dataLength = readUint32BE(bytes, dataOffset);
+  return { mimeType, data: bytes.slice(dataOffset + 4, dataOffset + 4 + dataLength) };
+};
+
+const readFlacMetadata = async (file: Blob, offset: number): Promise<AudioMetadata> => {
+  const metadata: AudioMetadata = {};
+  for (let last = false; !last && offset + 4 <= file.size; ) {
+    const header = await readBytes(file, offset, offset + 4);
+    const type = header[0] & 0x7F;
+    const size = (header[1] << 16) | (header[2] << 8) | header[3];
+    if (type === FLAC_BLOCK_INVALID) break;
+    last = !!(header[0] & 0x80);
+
+    const body = offset + 4;
+    offset = body + size;
+    if (type === FLAC_BLOCK_VORBIS_COMMENT) {
+      Object.assign(metadata, readVorbisComments(await readBytes(file, body, offset)));
+    } else if (type === FLAC_BLOCK_PICTURE && !metadata.cover) {
+      metadata.cover = readFlacPicture(await readBytes(file, body, offset));
+    }
+  }
+  return metadata;
+};
+
+// Time references are 64-bit sample counts, split in two 32-bit halves
+const readIxmlTimeReference = (ixml: string): number | null => {
+  const low = ixml.match(/<BWF_TIME_REFERENCE_LOW>\s*(\d+)\s*</)?.[1];
+  const high = ixml.match(/<BWF_TIME_REFERENCE_HIGH>\s*(\d+)\s*</)?.[1];
+  return low === undefined ? null : Number(high ?? 0) * 0x100000000 + Number(low);
+};
+
+const readBroadcastInfo = (bytes: Uint8Array): { info: BroadcastInfo; timeReference: number } => ({
+  info: {
+    description: decodeString(bytes.subarray(0, 256)),
+    originator: decodeString(bytes.subarray(256, 288)),
+    originatorReference: decodeString(bytes.subarray(288, 320)),
+    originationDate: decodeString(bytes.subarray(320, 330)),
+    originationTime: decodeString(bytes.subarray(330, 338)),
+    codingHistory: decodeString(bytes.subarray(602))
+  },
+  timeReference: readUint32LE(bytes, 338) + readUint32LE(bytes, 342) * 0x100000000
+});
+
+// LIST chunks hold sub-chunks: INFO text fields, or adtl cue labels
+const readListChunk = (bytes: Uint8Array, onChunk: (id: string, body: Uint8Array) => void) => {
+  for (let offset = 4; offset + 8 <= bytes.length; ) {
+    const size = readUint32LE(bytes, offset + 4);
+    onChunk(fourCC(bytes, offset), bytes.subarray(offset + 8, offset + 8 + size));
+    offset += 8 + size + (size % 2);
+  }
+};
+
+/**
+ * Walks the chunks of a WAV file, reading only the small ones; the audio
+ * itself is skipped, so this is quick on long recordings.
+ */
+const readWavMetadata = async (file: Blob): Promise<AudioMetadata> => {
+  const metadata: AudioMetadata = {};
+  const cues = new Map<number, number>(); // Cue point ID -> sample offset
+  const labels = new Map<number, string>();
+  let id3: Id3Contents | null = null;
+  let sampleRate = 0;
+  let bextTimeReference: number | null = null;
+  let dataSize64: number | null = null;
+
+  for (let offset = 12; offset + 8 <= file.size; ) {
+    const header = await readBytes(file, offset, offset + 8);
+    const id = fourCC(header);
+    let size = readUint32LE(header, 4);
+    // RF64 and BW64 keep the real data size in ds64
+    if (id === 'data' && size === 0xFFFFFFFF && dataSize64 !== null) size = dataSize64;
+    const body = offset + 8;
+    offset = body + size + (size % 2);
+    if (id === 'data' || size > MAX_METADATA_CHUNK) continue;
+
+    switch (id) {
+      case 'ds64': {
+        const bytes = await readBytes(file, body, body + 16);
+        dataSize64 = readUint32LE(bytes, 8) + readUint32LE(bytes, 12) * 0x100000000;
+        break;
+      }
+      case 'fmt ':
+        sampleRate = readUint32LE(await readBytes(file, body, body + 8), 4);
+        break;
+      case 'LIST': {
+        const bytes = await readBytes(file, body, body + size);
+        const type = fourCC(bytes);
+        readListChunk(bytes, (field, value) => {
+          if (type === 'INFO' && INFO_FIELDS[field]) metadata[INFO_FIELDS[field]] = decodeString(value);
+          else if (type === 'INFO' && (field === 'ITRK' || field === 'IPRT')) metadata.episode = parseEpisode(decodeString(value));
+          else if (type === 'adtl' && field === 'labl') labels.set(readUint32LE(value, 0), decodeString(value.subarray(4)));
+        });
+        break;
+      }
+      case 'bext': {
+        const bytes = await readBytes(file, body, body + size);
+        if (bytes.length < 348) break;
+        const { info, timeReference } = readBroadcastInfo(bytes);
+        metadata.broadcast = info;
+        bextTimeReference = timeReference;
+        break;
+      }
+      case 'iXML':
+        metadata.ixml = decodeString(await readBytes(file, body, body + size)) || null;
+        break;
+      case 'cue ': {
+        const bytes = await readBytes(file, body, body + size);
+        const count = Math.min(readUint32LE(bytes, 0), Math.floor((bytes.length - 4) / 24));
+        for (let i = 0; i < count; i++) cues.set(readUint32LE(bytes, 4 + i * 24), readUint32LE(bytes, 4 + i * 24 + 20));
+        break;
+      }
+      case 'id3 ':
+      case 'ID3 ':
+        id3 = readId3Tag(await readBytes(file, body, body + size));
+        break;
+    }
+  }
+
+  if (sampleRate > 0) {
+    const reference = bextTimeReference ?? (metadata.ixml ? readIxmlTimeReference(metadata.ixml) : null);
+    if (reference !== null) metadata.timeReference = reference / sampleRate;
+    if (cues.size > 0) {
+      metadata.markers = [...cues]
+        .sort((a, b) => a[1] - b[1])
+        .map(([cueId, position]) => ({ time: position / sampleRate, label: labels.get(cueId) ?? '' }));
+    }
+  }
+
+  // RIFF fields win over an ID3 chunk, which some tools add alongside
+  const tags: AudioMetadata = id3 ? fromId3(id3) : {};
+  return { ...tags, ...metadata, markers: metadata.markers ?? tags.markers };
+};
+
+/**
+ * Reads the metadata of an uploaded file: RIFF INFO, BWF `bext`, iXML and
+ * cue markers from WAV; ID3v2 from MP3 (or anything else it heads);
+ * Vorbis comments and the picture from FLAC. Other formats give nothing.
+ */
+export const readMetadata = async (file: Blob): Promise<AudioMetadata> => {
+  const head = await readBytes(file, 0, 12);
+  if (['RIFF', 'RF64', 'BW64'].includes(fourCC(head)) && fourCC(head, 8) === 'WAVE') {
+    return readWavMetadata(file);
+  }
+
+  const id3Size = getId3TagSize(head);
+  const id3 = id3Size > 0 ? readId3Tag(await readBytes(file, 0, id3Size)) : null;
+  const tags = id3 ? fromId3(id3) : {};
+  if (fourCC(await readBytes(file, id3Size, id3Size + 4)) === 'fLaC') {
+    const flac = await readFlacMetadata(file, id3Size + 4);
+    return { ...tags, ...flac };
+  }
+  return tags;
+};
+
+/**
+ * Moves the timed parts of `metadata` onto the processed timeline: markers
+ * follow their audio (those in removed stretches land on the splice), and
+ * the time reference becomes that of the first sample kept.
+ */
+export const retimeMetadata = (metadata: AudioMetadata, timeMap: TimeMap | null): AudioMetadata => {
+  if (!timeMap) return metadata;
+  return {
+    ...metadata,
+    timeReference: metadata.timeReference != null ? metadata.timeReference + timeMap.toOriginal(0) : metadata.timeReference,
+    markers: metadata.markers
+      ?.map(m => ({ ...m, time: timeMap.toProcessed(m.time) }))
+      .filter(m => m.time < timeMap.processedDuration)
+  };
+};
+
+/**
+ * Markers as chapters running to the next marker, the last to `duration`.
+ */
+export const getChapters = (markers: Marker[] = [], duration: number): Id3Chapter[] =>
+  markers.map((m, i) => ({
+    start: m.time,
+    end: Math.max(m.time, markers[i + 1]?.time ?? duration),
+    title: m.label
+  }));
+
+/**
+ * Vorbis comments (FLAC, Opus) for `metadata`, markers as CHAPTER fields.
+ */
+export const getVorbisComments = (metadata: AudioMetadata): [string, string][] => {
+  const comments: [string, string][] = [];
+  if (metadata.title?.trim()) comments.push(['TITLE', metadata.title.trim()]);
+  if (metadata.artist?.trim()) comments.push(['ARTIST', metadata.artist.trim()]);
+  if (metadata.album?.trim()) comments.push(['ALBUM', metadata.album.trim()]);
+  if (metadata.episode != null) comments.push(['TRACKNUMBER', String(metadata.episode)]);
+  if (metadata.date?.trim()) comments.push(['DATE', metadata.date.trim()]);
+  if (metadata.genre?.trim()) comments.push(['GENRE', metadata.genre.trim()]);
+  if (metadata.comment?.trim()) comments.push(['COMMENT', metadata.comment.trim()]);
+  (metadata.markers ?? []).forEach((m, i) => {
+    const key = `CHAPTER${String(i + 1).padStart(3, '0')}`;
+    comments.push([key, formatChapterTime(m.time)]);
+    if (m.label.trim()) comments.push([`${key}NAME`, m.label.trim()]);
+  });
+  return comments;
+};
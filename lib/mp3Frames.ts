@@ -0,0 +1,127 @@
+/**
+ * MPEG audio Layer III framing: just enough to split an encoder's output
+ * into frames, and to write the Xing header that VBR files need for
+ * players to show the right duration and seek.
+ */
+
+export interface Mp3FrameHeader {
+  /**
+   * 3 for MPEG-1, 2 for MPEG-2, 0 for MPEG-2.5 (the header's own coding).
+   */
+  version: number;
+  bitrateIndex: number;
+  sampleRate: number;
+  channelMode: number;   // 3 is mono
+  /**
+   * Whole frame length in bytes, header included.
+   */
+  size: number;
+  samplesPerFrame: number;
+}
+
+const MPEG1 = 3;
+const MONO = 3;
+const BITRATES_MPEG1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const BITRATES_MPEG2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const SAMPLE_RATES_MPEG1 = [44100, 48000, 32000];
+
+/**
+ * Reads the 4-byte frame header at `offset`. Null if there is no Layer III
+ * frame there.
+ */
+export const parseMp3FrameHeader = (bytes: Uint8Array, offset = 0): Mp3FrameHeader | null => {
+  if (offset + 4 > bytes.length) return null;
+  const [b0, b1, b2, b3] = bytes.subarray(offset, offset + 4);
+  if (b0 !== 0xFF || (b1 & 0xE0) !== 0xE0) return null;
+
+  const version = (b1 >> 3) & 3;
+  const layer = (b1 >> 1) & 3;
+  const bitrateIndex = b2 >> 4;
+  const rateIndex = (b2 >> 2) & 3;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const isMpeg1 = version === MPEG1;
+  const kbps = (isMpeg1 ? BITRATES_MPEG1 : BITRATES_MPEG2)[bitrateIndex];
+  const sampleRate = SAMPLE_RATES_MPEG1[rateIndex] / (isMpeg1 ? 1 : version === 2 ? 2 : 4);
+  const padding = (b2 >> 1) & 1;
+
+  return {
+    version,
+    bitrateIndex,
+    sampleRate,
+    channelMode: b3 >> 6,
+    size: Math.floor(((isMpeg1 ? 144000 : 72000) * kbps) / sampleRate) + padding,
+    samplesPerFrame: isMpeg1 ? 1152 : 576
+  };
+};
+
+/**
+ * Splits a byte stream into whole frames. Feed it consecutive output;
+ * bytes of a frame that is not complete yet are kept for the next call.
+ */
+export const createMp3FrameReader = () => {
+  let pending = new Uint8Array(0);
+
+  return (bytes: Uint8Array): Uint8Array[] => {
+    const data = new Uint8Array(pending.length + bytes.length);
+    data.set(pending);
+    data.set(bytes, pending.length);
+
+    const frames: Uint8Array[] = [];
+    let offset = 0;
+    while (offset < data.length) {
+      const header = parseMp3FrameHeader(data, offset);
+      if (!header) {
+        if (data.length - offset < 4) break;
+        // Not a frame boundary; skip ahead to the next sync
+        offset++;
+        continue;
+      }
+      if (offset + header.size > data.length) break;
+      frames.push(data.slice(offset, offset + header.size));
+      offset += header.size;
+    }
+    pending = data.slice(offset);
+    return frames;
+  };
+};
+
+/**
+ * A silent frame carrying the Xing VBR header: frame count, byte count and
+ * a seek table. `template` is any frame of the stream, for its format;
+ * `frameSizes` lists the audio frames that follow, in order.
+ */
+export const createXingFrame = (template: Uint8Array, frameSizes: number[]): Uint8Array => {
+  const header = parseMp3FrameHeader(template);
+  if (!header) throw new Error("Not an MP3 frame");
+
+  // Same format without padding, so the size is known
+  const size = header.size - ((template[2] >> 1) & 1);
+  const frame = new Uint8Array(size);
+  frame.set(template.subarray(0, 4));
+  frame[2] &= ~0x02;
+  const view = new DataView(frame.buffer);
+
+  // The tag sits where the side info of a real frame would be
+  const isMono = header.channelMode === MONO;
+  const sideInfo = header.version === MPEG1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+  let offset = 4 + sideInfo;
+  if (offset + 120 > size) throw new Error("Bitrate too low for a Xing header");
+
+  const totalBytes = size + frameSizes.reduce((sum, s) => sum + s, 0);
+  frame.set([0x58, 0x69, 0x6E, 0x67], offset); // "Xing"
+  view.setUint32(offset + 4, 0x07); // Frames, bytes and TOC present
+  view.setUint32(offset + 8, frameSizes.length);
+  view.setUint32(offset + 12, totalBytes);
+  offset += 16;
+
+  // TOC: where each percent of the duration starts, in 1/256ths of the file
+  let frameIndex = 0;
+  let position = size;
+  for (let i = 0; i < 100; i++) {
+    const target = Math.floor((i / 100) * frameSizes.length);
+    while (frameIndex < target) position += frameSizes[frameIndex++];
+    frame[offset + i] = Math.min(255, Math.floor((position / totalBytes) * 256));
+  }
+  return frame;
+};
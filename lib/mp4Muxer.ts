@@ -0,0 +1,197 @@
+import { Id3Tags } from './id3';
+
+/**
+ * Minimal MP4 (M4A) writer for one AAC audio track. Samples are collected
+ * as they are encoded; `finish` lays out the file with the index (moov)
+ * ahead of the audio (mdat), so playback can start before the download ends.
+ */
+
+const OBJECT_TYPE_AAC = 0x40;
+const STREAM_TYPE_AUDIO = 0x05;
+const TAG_ES_DESCRIPTOR = 0x03;
+const TAG_DECODER_CONFIG = 0x04;
+const TAG_DECODER_SPECIFIC_INFO = 0x05;
+const TAG_SL_CONFIG = 0x06;
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+const AAC_LC = 2;
+// iTunes item list data types
+const DATA_UTF8 = 1;
+const DATA_JPEG = 13;
+const DATA_PNG = 14;
+// Unity transform, as every audio-only file carries it
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+const u8 = (...values: number[]) => Uint8Array.from(values);
+const u16 = (value: number) => u8(value >> 8, value & 0xFF);
+const u32 = (value: number) => u8(value >>> 24, (value >> 16) & 0xFF, (value >> 8) & 0xFF, value & 0xFF);
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+const utf8 = (text: string) => new TextEncoder().encode(text);
+const zeros = (n: number) => new Uint8Array(n);
+
+const box = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concat(payload);
+  return concat([u32(8 + body.length), ascii(type), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...payload: Uint8Array[]) =>
+  box(type, u8(version, (flags >> 16) & 0xFF, (flags >> 8) & 0xFF, flags & 0xFF), ...payload);
+
+// MPEG-4 descriptor: tag, then the length in 7-bit groups
+const descriptor = (tag: number, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concat(payload);
+  const length: number[] = [body.length & 0x7F];
+  for (let rest = body.length >> 7; rest > 0; rest >>= 7) length.unshift(0x80 | (rest & 0x7F));
+  return concat([u8(tag, ...length), body]);
+};
+
+// Item list value: a 'data' box whose flags say what the payload is
+const item = (type: string, dataType: number, ...payload: Uint8Array[]) =>
+  box(type, fullBox('data', 0, dataType, u32(0), ...payload));
+
+/**
+ * iTunes-style tags (udta/meta/ilst), which is what players read in M4A.
+ */
+const createUserData = (tags: Id3Tags): Uint8Array | null => {
+  const items: Uint8Array[] = [];
+  const text = (type: string, value: string | undefined) => {
+    if (value?.trim()) items.push(item(type, DATA_UTF8, utf8(value.trim())));
+  };
+  text('\u00A9nam', tags.title);
+  text('\u00A9ART', tags.artist);
+  text('\u00A9alb', tags.album);
+  text('\u00A9day', tags.date);
+  text('\u00A9gen', tags.genre);
+  text('\u00A9cmt', tags.comment);
+  // Track number and total, each 16 bits, with padding around them
+  if (tags.episode != null) items.push(item('trkn', 0, u16(0), u16(tags.episode), u16(0), u16(0)));
+  if (tags.cover) items.push(item('covr', tags.cover.mimeType === 'image/png' ? DATA_PNG : DATA_JPEG, tags.cover.data));
+  if (items.length === 0) return null;
+
+  return box('udta', fullBox('meta', 0, 0,
+    fullBox('hdlr', 0, 0, u32(0), ascii('mdir'), ascii('appl'), zeros(8), u8(0)),
+    box('ilst', ...items)
+  ));
+};
+
+/**
+ * AudioSpecificConfig for AAC-LC, for encoders that don't provide one.
+ */
+export const createAacConfig = (sampleRate: number, numChannels: number): Uint8Array => {
+  const index = AAC_SAMPLE_RATES.indexOf(sampleRate);
+  if (index < 0) throw new Error(`AAC does not support ${sampleRate} Hz`);
+  return u8((AAC_LC << 3) | (index >> 1), ((index & 1) << 7) | (numChannels << 3));
+};
+
+export const createMp4Muxer = (sampleRate: number, numChannels: number, tags: Id3Tags | null = null) => {
+  const userData = tags ? createUserData(tags) : null;
+  const samples: Uint8Array[] = [];
+  const durations: number[] = [];
+  let decoderConfig: Uint8Array | null = null;
+
+  const buildMoov = (dataOffset: number, dataSize: number): Uint8Array => {
+    const duration = durations.reduce((sum, d) => sum + d, 0);
+    const seconds = duration / sampleRate;
+    const bitrate = seconds > 0 ? Math.round((dataSize * 8) / seconds) : 0;
+
+    // Run-length coded sample durations
+    const runs: [number, number][] = [];
+    for (const d of durations) {
+      const last = runs[runs.length - 1];
+      if (last && last[1] === d) last[0]++;
+      else runs.push([1, d]);
+    }
+
+    const esds = fullBox('esds', 0, 0, descriptor(
+      TAG_ES_DESCRIPTOR, u16(1), u8(0),
+      descriptor(
+        TAG_DECODER_CONFIG,
+        u8(OBJECT_TYPE_AAC, (STREAM_TYPE_AUDIO << 2) | 1),
+        zeros(3), // Buffer size
+        u32(bitrate), // Max bitrate
+        u32(bitrate), // Average bitrate
+        descriptor(TAG_DECODER_SPECIFIC_INFO, decoderConfig ?? createAacConfig(sampleRate, numChannels))
+      ),
+      descriptor(TAG_SL_CONFIG, u8(2))
+    ));
+
+    const mp4a = box('mp4a',
+      zeros(6), u16(1), // Data reference index
+      zeros(8),
+      u16(numChannels), u16(16), zeros(4),
+      u32(Math.min(0xFFFF, sampleRate) * 0x10000),
+      esds
+    );
+
+    const stbl = box('stbl',
+      fullBox('stsd', 0, 0, u32(1), mp4a),
+      fullBox('stts', 0, 0, u32(runs.length), ...runs.flatMap(([count, delta]) => [u32(count), u32(delta)])),
+      // Every sample in one chunk
+      fullBox('stsc', 0, 0, u32(1), u32(1), u32(samples.length), u32(1)),
+      fullBox('stsz', 0, 0, u32(0), u32(samples.length), ...samples.map(s => u32(s.length))),
+      fullBox('stco', 0, 0, u32(1), u32(dataOffset))
+    );
+
+    const mdia = box('mdia',
+      fullBox('mdhd', 0, 0, u32(0), u32(0), u32(sampleRate), u32(duration), u16(0x55C4) /* 'und' */, u16(0)),
+      fullBox('hdlr', 0, 0, u32(0), ascii('soun'), zeros(12), ascii('SoundHandler'), u8(0)),
+      box('minf',
+        fullBox('smhd', 0, 0, u16(0), u16(0)),
+        box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+        stbl
+      )
+    );
+
+    return box('moov',
+      fullBox('mvhd', 0, 0,
+        u32(0), u32(0), u32(sampleRate), u32(duration),
+        u32(0x00010000), u16(0x0100), zeros(10),
+        ...MATRIX.map(u32), zeros(24),
+        u32(2) // Next track ID
+      ),
+      box('trak',
+        fullBox('tkhd', 0, 3, // Enabled, in movie
+          u32(0), u32(0), u32(1), zeros(4), u32(duration),
+          zeros(8), u16(0), u16(0), u16(0x0100), zeros(2),
+          ...MATRIX.map(u32), u32(0), u32(0)
+        ),
+        mdia
+      ),
+      ...(userData ? [userData] : [])
+    );
+  };
+
+  return {
+    /**
+     * The AudioSpecificConfig from the encoder, if it gives one.
+     */
+    setDecoderConfig: (config: Uint8Array) => {
+      decoderConfig = config;
+    },
+    /**
+     * One encoded access unit, `duration` in samples.
+     */
+    addSample: (data: Uint8Array, duration: number) => {
+      samples.push(data);
+      durations.push(duration);
+    },
+    finish: (): Blob => {
+      const ftyp = box('ftyp', ascii('M4A '), u32(0), ascii('M4A '), ascii('mp42'), ascii('isom'));
+      const dataSize = samples.reduce((sum, s) => sum + s.length, 0);
+      // The chunk offset doesn't change the size of moov, so measure it once
+      const moovSize = buildMoov(0, dataSize).length;
+      const moov = buildMoov(ftyp.length + moovSize + 8, dataSize);
+      const mdatHeader = concat([u32(8 + dataSize), ascii('mdat')]);
+      return new Blob([ftyp, moov, mdatHeader, ...samples] as BlobPart[], { type: 'audio/mp4' });
+    }
+  };
+};
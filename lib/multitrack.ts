@@ -0,0 +1,182 @@
+import { AudioData, createAudioData, getLength } from './audioData';
+import {
+  detectSilenceFlags,
+  flagsToRegions,
+  renderRegions,
+  AudioRegion,
+  SilenceOptions
+} from './audioProcessing';
+import { DetectionResult } from './silenceDetection';
+import { createMemorySource } from './audioSource';
+import { applyBreaths, detectBreaths } from './breathDetection';
+import { TimeMap } from './timeMap';
+import { applyGainCurve, normalizeLoudness, LoudnessReport, LoudnessTarget } from './loudness';
+
+/**
+ * Multi-mic sessions: each track is analysed on its own, but every track
+ * gets the same cuts so the exported stems stay in sync.
+ */
+
+/**
+ * When a stretch of the session counts as silence.
+ * 'all': every track is silent, so nobody is cut off mid-sentence.
+ * 'majority': more than half of the tracks are silent.
+ * 'primary': the first track alone decides; the others follow its cuts.
+ */
+export type MultitrackRule = 'all' | 'majority' | 'primary';
+
+export interface MultitrackResult {
+  tracks: AudioData[];
+  regions: AudioRegion[];
+  timeMap: TimeMap;
+}
+
+const getSessionLength = (tracks: AudioData[]) => Math.max(0, ...tracks.map(getLength));
+
+/**
+ * All channels of all tracks as one signal, shorter tracks padded with
+ * silence to the session length.
+ */
+const stackTracks = (tracks: AudioData[]): AudioData => {
+  const length = getSessionLength(tracks);
+  const channels = tracks.flatMap(t => t.channels.map(data => {
+    if (data.length === length) return data;
+    const padded = new Float32Array(length);
+    padded.set(data);
+    return padded;
+  }));
+  return { sampleRate: tracks[0].sampleRate, channels };
+};
+
+const checkTracks = (tracks: AudioData[]) => {
+  if (tracks.length === 0) throw new Error("A multitrack session needs at least one track");
+  if (tracks.some(t => t.sampleRate !== tracks[0].sampleRate)) {
+    throw new Error("All tracks must have the same sample rate");
+  }
+};
+
+/**
+ * Merges per-track silence flags into one set for the session.
+ * Tracks that end early count as silent past their end.
+ */
+export const combineSilenceFlags = (detections: DetectionResult[], rule: MultitrackRule): Uint8Array => {
+  const numFrames = Math.max(0, ...detections.map(d => d.flags.length));
+  const needed = rule === 'all' ? detections.length : Math.floor(detections.length / 2) + 1;
+  const combined = new Uint8Array(numFrames);
+
+  for (let f = 0; f < numFrames; f++) {
+    let silent = 0;
+    for (const d of detections) {
+      if (f >= d.flags.length || d.flags[f] === 1) silent++;
+    }
+    combined[f] = silent >= needed ? 1 : 0;
+  }
+  return combined;
+};
+
+/**
+ * Detects silence on every track and combines the results by `rule` into
+ * one region list covering the longest track.
+ */
+export const detectMultitrackRegions = async (
+  tracks: AudioData[],
+  options: SilenceOptions,
+  rule: MultitrackRule,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<AudioRegion[]> => {
+  checkTracks(tracks);
+  const { padding = 0.05, breathMode = 'off' } = options;
+  const analysed = rule === 'primary' ? tracks.slice(0, 1) : tracks;
+  const share = breathMode === 'off' ? 1 : 0.8;
+
+  const detections: DetectionResult[] = [];
+  for (let i = 0; i < analysed.length; i++) {
+    const onTrackProgress = onProgress && ((p: number) => onProgress(share * (i + p) / analysed.length));
+    detections.push(await detectSilenceFlags(analysed[i], options, onTrackProgress, signal));
+  }
+
+  const flags = combineSilenceFlags(detections, rule);
+  const sampleRate = tracks[0].sampleRate;
+  const regions = flagsToRegions({ flags, hopSize: detections[0].hopSize }, getSessionLength(tracks), Math.floor(padding * sampleRate));
+  if (breathMode === 'off') return regions;
+
+  // Breaths are found on the mix: while someone else talks it isn't a breath gap
+  const source = createMemorySource(stackTracks(tracks));
+  const breaths = await detectBreaths(source, regions, onProgress && (p => onProgress(share + p * (1 - share))), signal);
+  return applyBreaths(regions, breaths, breathMode);
+};
+
+/**
+ * Applies one region list to every track. The tracks are spliced as a
+ * single multichannel signal, so crossfades and zero-crossing snapping
+ * (on the mix of all tracks) land on the same samples everywhere.
+ */
+export const renderMultitrackRegions = async (
+  tracks: AudioData[],
+  regions: AudioRegion[],
+  options: SilenceOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<MultitrackResult> => {
+  checkTracks(tracks);
+  const result = await renderRegions(stackTracks(tracks), regions, options, onProgress, signal);
+
+  let next = 0;
+  const rendered = tracks.map(t => {
+    const trackChannels = result.audio.channels.slice(next, next + t.channels.length);
+    next += t.channels.length;
+    return { sampleRate: t.sampleRate, channels: trackChannels };
+  });
+
+  return { tracks: rendered, regions: result.regions, timeMap: result.timeMap };
+};
+
+/**
+ * Detects and cuts silence across all tracks.
+ */
+export const removeSilenceMultitrack = async (
+  tracks: AudioData[],
+  options: SilenceOptions,
+  rule: MultitrackRule,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<MultitrackResult> => {
+  const regions = await detectMultitrackRegions(tracks, options, rule, onProgress && (p => onProgress(p * 0.5)), signal);
+  return await renderMultitrackRegions(tracks, regions, options, onProgress && (p => onProgress(0.5 + p * 0.5)), signal);
+};
+
+/**
+ * Sums the tracks into one preview mix. Mono tracks feed every output
+ * channel; wider tracks wrap around the output channels.
+ */
+export const mixTracks = (tracks: AudioData[]): AudioData => {
+  checkTracks(tracks);
+  const numChannels = Math.max(...tracks.map(t => t.channels.length));
+  const mix = createAudioData(numChannels, getSessionLength(tracks), tracks[0].sampleRate);
+
+  for (const t of tracks) {
+    for (let c = 0; c < numChannels; c++) {
+      const input = t.channels[c % t.channels.length];
+      const output = mix.channels[c];
+      for (let i = 0; i < input.length; i++) output[i] += input[i];
+    }
+  }
+  return mix;
+};
+
+/**
+ * Normalizes the session by its mix: the mix is brought to `target` and
+ * every track gets the same gain curve, so the balance between the mics
+ * is kept and the mix stays under the true-peak ceiling. Works in place.
+ */
+export const normalizeMultitrackLoudness = (
+  tracks: AudioData[],
+  target: LoudnessTarget,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): { tracks: AudioData[]; report: LoudnessReport } => {
+  const { report, curve } = normalizeLoudness(mixTracks(tracks), target, onProgress, signal);
+  for (const t of tracks) applyGainCurve(t, curve);
+  return { tracks, report };
+};
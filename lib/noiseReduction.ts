@@ -0,0 +1,205 @@
+import { AudioData, getLength } from './audioData';
+import { getNoiseFloor } from './audioProcessing';
+import { fft, hannWindow, nextPowerOfTwo } from './fft';
+
+/**
+ * Spectral noise reduction: the average spectrum of the background noise
+ * is learned once, then subtracted from every STFT frame of the audio.
+ */
+
+/**
+ * Average noise power per FFT bin, learned by `learnNoiseProfile`.
+ */
+export interface NoiseProfile {
+  sampleRate: number;
+  fftSize: number;
+  power: Float32Array; // fftSize / 2 + 1 bins
+}
+
+export interface NoiseReductionOptions {
+  profile: NoiseProfile;
+  /**
+   * How far noise-only bins are lowered, in dB. Speech bins are lowered less.
+   */
+  reductionDb: number;
+  /**
+   * 0–1. Smooths the gains across time and frequency, trading a little
+   * reduction for less "musical noise" (warbling tones left between bins).
+   */
+  smoothing: number;
+}
+
+// Frames within this many dB of the noise floor count as noise
+const NOISE_MARGIN_DB = 6;
+// Below this many noise frames the quietest share of the file is used instead
+const MIN_NOISE_FRAMES = 8;
+const FALLBACK_SHARE = 0.1;
+// Over-subtraction: noise varies from frame to frame, so subtracting
+// only its average would leave much of it behind
+const OVER_SUBTRACTION = 2;
+
+/**
+ * About 20 ms, long enough to resolve hum harmonics, short enough not to smear speech.
+ */
+const getFftSize = (sampleRate: number) => nextPowerOfTwo(Math.round(sampleRate * 0.02));
+
+/**
+ * Learns the noise spectrum of `audio`. With a `range` (in samples) the
+ * whole range is taken as noise; otherwise the frames near the noise floor
+ * that `getNoiseFloor` measures are used, so no selection is needed.
+ */
+export const learnNoiseProfile = (
+  audio: AudioData,
+  range: { start: number; end: number } | null = null,
+  signal?: AbortSignal
+): NoiseProfile => {
+  const { sampleRate } = audio;
+  const fftSize = getFftSize(sampleRate);
+  const hop = fftSize / 2;
+  const length = getLength(audio);
+
+  const start = range ? Math.max(0, Math.floor(range.start)) : 0;
+  const end = range ? Math.min(length, Math.floor(range.end)) : length;
+  if (end - start < fftSize) {
+    throw new Error("The noise sample is too short, select at least a few hundred milliseconds");
+  }
+
+  // Mono mix, so one profile serves every channel
+  const mono = new Float32Array(end - start);
+  for (const data of audio.channels) {
+    for (let i = start; i < end; i++) mono[i - start] += data[i] / audio.channels.length;
+  }
+
+  let frames: number[] = [];
+  for (let pos = 0; pos + fftSize <= mono.length; pos += hop) frames.push(pos);
+
+  if (!range) {
+    const levels = frames.map(pos => {
+      let sum = 0;
+      for (let i = pos; i < pos + fftSize; i++) sum += mono[i] * mono[i];
+      return 10 * Math.log10(sum / fftSize + 1e-12);
+    });
+    const limit = getNoiseFloor(audio, 1, signal) + NOISE_MARGIN_DB;
+    const quiet = frames.filter((_, f) => levels[f] <= limit && levels[f] > -100);
+
+    if (quiet.length >= MIN_NOISE_FRAMES) {
+      frames = quiet;
+    } else {
+      const order = frames.map((_, f) => f).sort((a, b) => levels[a] - levels[b]);
+      const count = Math.max(1, Math.floor(frames.length * FALLBACK_SHARE));
+      frames = order.slice(0, count).map(f => frames[f]);
+    }
+  }
+
+  const bins = fftSize / 2 + 1;
+  const power = new Float64Array(bins);
+  const window = hannWindow(fftSize);
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+
+  for (const pos of frames) {
+    signal?.throwIfAborted();
+    for (let i = 0; i < fftSize; i++) {
+      re[i] = mono[pos + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < bins; k++) power[k] += re[k] * re[k] + im[k] * im[k];
+  }
+
+  return { sampleRate, fftSize, power: Float32Array.from(power, p => p / frames.length) };
+};
+
+/**
+ * Removes the profiled noise from every channel by spectral subtraction.
+ * Returns new audio; the input is left alone.
+ */
+export const reduceNoise = (
+  audio: AudioData,
+  options: NoiseReductionOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): AudioData => {
+  const { profile, reductionDb, smoothing } = options;
+  if (profile.sampleRate !== audio.sampleRate) {
+    throw new Error("The noise profile was learned at a different sample rate");
+  }
+
+  const { fftSize } = profile;
+  const hop = fftSize / 4;
+  const bins = fftSize / 2 + 1;
+  const length = getLength(audio);
+  const window = hannWindow(fftSize);
+  // A Hann window applied twice at 75% overlap sums to 1.5
+  const overlapGain = 1.5;
+
+  const floorGain = Math.pow(10, -Math.max(0, reductionDb) / 20);
+  const timeSmoothing = Math.min(1, Math.max(0, smoothing)) * 0.8;
+  const freqRadius = Math.round(Math.min(1, Math.max(0, smoothing)) * 3);
+  const noise = profile.power.map(p => p * OVER_SUBTRACTION);
+
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const rawGain = new Float32Array(bins);
+  const gain = new Float32Array(bins);
+  const numFrames = Math.ceil((length + fftSize - hop) / hop);
+
+  const channels = audio.channels.map((input, c) => {
+    const output = new Float32Array(length);
+    gain.fill(1);
+
+    for (let f = 0; f < numFrames; f++) {
+      if (f % 256 === 0) {
+        signal?.throwIfAborted();
+        onProgress?.((c + f / numFrames) / audio.channels.length);
+      }
+
+      // Frames start before the audio so every sample is covered equally
+      const pos = f * hop - (fftSize - hop);
+      for (let i = 0; i < fftSize; i++) {
+        const idx = pos + i;
+        re[i] = idx >= 0 && idx < length ? input[idx] * window[i] : 0;
+        im[i] = 0;
+      }
+      fft(re, im);
+
+      for (let k = 0; k < bins; k++) {
+        const power = re[k] * re[k] + im[k] * im[k];
+        rawGain[k] = power > 0 ? Math.sqrt(Math.max(0, 1 - noise[k] / power)) : 0;
+      }
+
+      for (let k = 0; k < bins; k++) {
+        let g = rawGain[k];
+        if (freqRadius > 0) {
+          let sum = 0;
+          let count = 0;
+          for (let j = Math.max(0, k - freqRadius); j <= Math.min(bins - 1, k + freqRadius); j++) {
+            sum += rawGain[j];
+            count++;
+          }
+          g = sum / count;
+        }
+        g = timeSmoothing * gain[k] + (1 - timeSmoothing) * g;
+        gain[k] = g;
+
+        const applied = Math.max(floorGain, g);
+        re[k] *= applied;
+        im[k] *= applied;
+        // Keep the spectrum conjugate-symmetric so the output stays real
+        if (k > 0 && k < bins - 1) {
+          re[fftSize - k] = re[k];
+          im[fftSize - k] = -im[k];
+        }
+      }
+
+      fft(re, im, true);
+      for (let i = 0; i < fftSize; i++) {
+        const idx = pos + i;
+        if (idx >= 0 && idx < length) output[idx] += (re[i] * window[i]) / overlapGain;
+      }
+    }
+    return output;
+  });
+
+  return { sampleRate: audio.sampleRate, channels };
+};
@@ -0,0 +1,179 @@
+/**
+ * Ogg Opus file writer (RFC 7845). Packets are collected as they are
+ * encoded; `finish` pages them behind the OpusHead and OpusTags headers.
+ */
+
+const OPUS_RATE = 48000;
+// Encoder lookahead libopus reports at 48kHz, for encoders that don't say
+const DEFAULT_PRE_SKIP = 312;
+// Close a page once it holds about a second of audio
+const PAGE_DURATION = OPUS_RATE;
+const MAX_SEGMENTS = 255;
+
+const FLAG_FIRST = 0x02;
+const FLAG_LAST = 0x04;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04C11DB7 : crc << 1;
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+// Ogg's CRC32: unreflected, zero initial value
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = (crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xFF];
+  return crc >>> 0;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+const isOpusHead = (bytes: Uint8Array | null): bytes is Uint8Array =>
+  !!bytes && bytes.length >= 19 && String.fromCharCode(...bytes.subarray(0, 8)) === 'OpusHead';
+
+/**
+ * Samples at 48kHz in one Opus packet, from its TOC byte (RFC 6716 3.1).
+ */
+export const getOpusPacketSamples = (packet: Uint8Array): number => {
+  if (packet.length === 0) return 0;
+  const config = packet[0] >> 3;
+  const frameSize =
+    config < 12 ? [480, 960, 1920, 2880][config & 3] :
+    config < 16 ? [480, 960][config & 1] :
+    [120, 240, 480, 960][config & 3];
+  const code = packet[0] & 3;
+  const frames = code === 0 ? 1 : code < 3 ? 2 : (packet[1] ?? 0) & 0x3F;
+  return frames * frameSize;
+};
+
+const createOpusHead = (numChannels: number, inputRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii('OpusHead'));
+  head[8] = 1; // Version
+  head[9] = numChannels;
+  view.setUint16(10, DEFAULT_PRE_SKIP, true);
+  view.setUint32(12, inputRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  head[18] = 0; // Mono or stereo, no mapping table
+  return head;
+};
+
+// Vorbis comment layout: little-endian lengths, each string prefixed by its own
+const createOpusTags = (vendor: string, comments: [string, string][]): Uint8Array => {
+  const strings = [vendor, ...comments.map(([field, value]) => `${field}=${value}`)].map(utf8);
+  const tags = new Uint8Array(8 + 4 + strings.reduce((sum, s) => sum + 4 + s.length, 0));
+  const view = new DataView(tags.buffer);
+  tags.set(ascii('OpusTags'));
+  let offset = 8;
+  strings.forEach((s, i) => {
+    view.setUint32(offset, s.length, true);
+    tags.set(s, offset + 4);
+    offset += 4 + s.length;
+    if (i === 0) {
+      view.setUint32(offset, comments.length, true);
+      offset += 4;
+    }
+  });
+  return tags;
+};
+
+/**
+ * `inputRate` is the rate of the source, which players may show; Opus
+ * itself always runs at 48kHz. `comments` are Vorbis comments, e.g.
+ * ['TITLE', 'Episode 12'].
+ */
+export const createOggOpusMuxer = (
+  numChannels: number,
+  inputRate: number,
+  comments: [string, string][] = [],
+  vendor = 'SilenceCut Studio'
+) => {
+  const serial = (Math.random() * 0x100000000) >>> 0;
+  const packets: Uint8Array[] = [];
+  let header: Uint8Array | null = null;
+
+  const createPage = (segments: Uint8Array[], flags: number, granule: number, sequence: number): Uint8Array => {
+    const lacing: number[] = [];
+    for (const s of segments) {
+      for (let left = s.length; ; left -= 255) {
+        lacing.push(Math.min(255, left));
+        if (left < 255) break;
+      }
+    }
+    const bodyLength = segments.reduce((sum, s) => sum + s.length, 0);
+    const page = new Uint8Array(27 + lacing.length + bodyLength);
+    const view = new DataView(page.buffer);
+    page.set(ascii('OggS'));
+    page[5] = flags;
+    view.setUint32(6, granule % 0x100000000, true);
+    view.setUint32(10, Math.floor(granule / 0x100000000), true);
+    view.setUint32(14, serial, true);
+    view.setUint32(18, sequence, true);
+    page[26] = lacing.length;
+    page.set(lacing, 27);
+    let offset = 27 + lacing.length;
+    for (const s of segments) {
+      page.set(s, offset);
+      offset += s.length;
+    }
+    view.setUint32(22, crc32(page), true);
+    return page;
+  };
+
+  return {
+    /**
+     * The OpusHead from the encoder, if it gives one; its pre-skip is used.
+     */
+    setDecoderConfig: (config: Uint8Array) => {
+      if (isOpusHead(config)) header = config;
+    },
+    addPacket: (packet: Uint8Array) => {
+      packets.push(packet);
+    },
+    /**
+     * `totalSamples` is the real length at 48kHz, which trims the padding
+     * of the last packet.
+     */
+    finish: (totalSamples: number): Blob => {
+      const head = header ?? createOpusHead(numChannels, inputRate);
+      const preSkip = new DataView(head.buffer, head.byteOffset).getUint16(10, true);
+      const pages: Uint8Array[] = [
+        createPage([head], FLAG_FIRST, 0, 0),
+        createPage([createOpusTags(vendor, comments)], 0, 0, 1)
+      ];
+
+      let page: Uint8Array[] = [];
+      let segments = 0;
+      let pageStart = 0;
+      let granule = 0;
+      for (let i = 0; i < packets.length; i++) {
+        const packet = packets[i];
+        page.push(packet);
+        segments += Math.floor(packet.length / 255) + 1;
+        granule += getOpusPacketSamples(packet);
+
+        const isLast = i === packets.length - 1;
+        const next = packets[i + 1];
+        const full = !isLast && segments + Math.floor(next.length / 255) + 1 > MAX_SEGMENTS;
+        if (isLast || full || granule - pageStart >= PAGE_DURATION) {
+          // Granules count decoded samples, pre-skip included; the last one trims the padding
+          const end = isLast ? Math.min(granule, preSkip + totalSamples) : granule;
+          pages.push(createPage(page, isLast ? FLAG_LAST : 0, end, pages.length));
+          page = [];
+          segments = 0;
+          pageStart = granule;
+        }
+      }
+      // Nothing was encoded: the stream still needs to end
+      if (packets.length === 0) pages.push(createPage([], FLAG_LAST, 0, pages.length));
+
+      return new Blob(pages as BlobPart[], { type: 'audio/ogg; codecs=opus' });
+    }
+  };
+};
@@ -0,0 +1,386 @@
+import {
+  removeSilence,
+  renderRegions,
+  applyAdaptiveGate,
+  createAudioEncoder,
+  createNoiseGate,
+  detectRegionsStreaming,
+  getAdaptiveGateThreshold,
+  getEnhanceChain,
+  encodeAudio,
+  getNoiseFloorStreaming,
+  planRender,
+  renderStream,
+  AudioRegion,
+  EnhanceOptions,
+  ProcessResult,
+  SilenceOptions,
+  AudioEncodeOptions,
+  AudioFormat,
+  StreamEncoder
+} from './audioProcessing';
+import { analyzeLevels, LevelAnalysis, LevelMeasure } from './levelAnalysis';
+import { AudioData, getLength, getTransferables } from './audioData';
+import { TimeMapSegment } from './timeMap';
+import { AudioMetadata, retimeMetadata } from './metadata';
+import { createMemorySource, openWavSource } from './audioSource';
+import { decodeAudioFile } from './audioDecoders';
+import { resampleAudio } from './resample';
+import { attenuateRanges, getBreathRanges } from './breathDetection';
+import { alignTracks, AlignOptions, TrackAlignment } from './alignment';
+import {
+  mixTracks,
+  normalizeMultitrackLoudness,
+  removeSilenceMultitrack,
+  renderMultitrackRegions,
+  MultitrackResult,
+  MultitrackRule
+} from './multitrack';
+import { normalizeLoudness, LoudnessReport, LoudnessTarget } from './loudness';
+import { applyDeEsser, createDeEsser } from './deEsser';
+import { createHumFilter, detectHum, removeHum, HumProfile } from './humRemoval';
+import { DeEsserSettings } from './enhancePresets';
+import { learnNoiseProfile, reduceNoise, NoiseProfile, NoiseReductionOptions } from './noiseReduction';
+
+/**
+ * Jobs the processing worker understands. Audio arrives as transferred
+ * channel data; the worker owns it from then on.
+ * There is no cancel message: the worker is busy in tight loops and would
+ * not see one, so the client cancels by terminating the worker.
+ */
+export type WorkerRequest =
+  | { type: 'decode'; file: Blob }
+  | { type: 'resample'; audio: AudioData; sampleRate: number }
+  | { type: 'removeSilence'; audio: AudioData; options: SilenceOptions }
+  | { type: 'renderRegions'; audio: AudioData; regions: AudioRegion[]; options: SilenceOptions }
+  | { type: 'applyAdaptiveGate'; audio: AudioData; options: EnhanceOptions }
+  | { type: 'detectHum'; audio: AudioData }
+  | { type: 'removeHum'; audio: AudioData }
+  | { type: 'learnNoiseProfile'; audio: AudioData; range: { start: number; end: number } | null }
+  | { type: 'reduceNoise'; audio: AudioData; options: NoiseReductionOptions }
+  | { type: 'deEss'; audio: AudioData; settings: DeEsserSettings }
+  | { type: 'normalizeLoudness'; audio: AudioData; target: LoudnessTarget }
+  | { type: 'encode'; audio: AudioData; format: AudioFormat; options: AudioEncodeOptions }
+  | { type: 'analyzeLevels'; audio: AudioData; measure: LevelMeasure }
+  | { type: 'removeSilenceMultitrack'; tracks: AudioData[]; options: SilenceOptions; rule: MultitrackRule }
+  | { type: 'renderMultitrackRegions'; tracks: AudioData[]; regions: AudioRegion[]; options: SilenceOptions }
+  | { type: 'mixTracks'; tracks: AudioData[] }
+  | { type: 'alignTracks'; tracks: AudioData[]; options: AlignOptions }
+  | { type: 'normalizeMultitrackLoudness'; tracks: AudioData[]; target: LoudnessTarget }
+  | { type: 'streamOpen'; file: Blob; options: StreamOptions }
+  | { type: 'streamNext' }
+  | { type: 'streamWrite'; audio: AudioData }
+  | { type: 'streamFinish' };
+
+/**
+ * Settings for processing a WAV file in chunks, straight from disk.
+ */
+export interface StreamOptions {
+  silence: SilenceOptions;
+  /**
+   * Regions to render instead of running detection, e.g. after a format change.
+   * Null detects; an empty list keeps everything.
+   */
+  regions: AudioRegion[] | null;
+  /**
+   * Adaptive gate settings, or null to skip the gate. Hum removal and the
+   * chain's dynamic de-esser, if any, run here too.
+   */
+  gate: EnhanceOptions | null;
+  /**
+   * Noise floor from an earlier pass. Measured from the source if null.
+   */
+  noiseFloorDb: number | null;
+  format: AudioFormat;
+  encoding: AudioEncodeOptions;
+  /**
+   * Metadata of the source, on its own timeline. It replaces
+   * `encoding.metadata` once the cut is planned.
+   */
+  metadata: AudioMetadata | null;
+}
+
+/**
+ * What `streamOpen` worked out before any audio is rendered.
+ */
+export interface StreamInfo {
+  regions: AudioRegion[];
+  segments: TimeMapSegment[];
+  originalLength: number;
+  sampleRate: number;
+  numberOfChannels: number;
+  noiseFloorDb: number | null;
+}
+
+/**
+ * A ProcessResult that survives structured cloning. TimeMap lookups are
+ * functions, so only the segments cross the boundary.
+ */
+export interface SerializedProcessResult {
+  audio: AudioData;
+  regions: AudioRegion[];
+  segments: TimeMapSegment[];
+  originalLength: number;
+}
+
+/**
+ * A MultitrackResult that survives structured cloning.
+ */
+export interface SerializedMultitrackResult {
+  tracks: AudioData[];
+  regions: AudioRegion[];
+  segments: TimeMapSegment[];
+  originalLength: number;
+}
+
+export interface WorkerResults {
+  decode: AudioData | null;
+  resample: AudioData;
+  removeSilence: SerializedProcessResult;
+  renderRegions: SerializedProcessResult;
+  applyAdaptiveGate: AudioData;
+  detectHum: HumProfile | null;
+  removeHum: { audio: AudioData; hum: HumProfile | null };
+  learnNoiseProfile: NoiseProfile;
+  reduceNoise: AudioData;
+  deEss: AudioData;
+  normalizeLoudness: { audio: AudioData; report: LoudnessReport };
+  encode: Blob;
+  analyzeLevels: LevelAnalysis;
+  removeSilenceMultitrack: SerializedMultitrackResult;
+  renderMultitrackRegions: SerializedMultitrackResult;
+  mixTracks: AudioData;
+  alignTracks: { tracks: AudioData[]; alignments: TrackAlignment[] };
+  normalizeMultitrackLoudness: { tracks: AudioData[]; report: LoudnessReport };
+  streamOpen: StreamInfo;
+  streamNext: AudioData | null;
+  streamWrite: null;
+  streamFinish: Blob;
+}
+
+export type WorkerMessage = WorkerRequest & { id: number };
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: WorkerResults[keyof WorkerResults] }
+  | { id: number; type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+/**
+ * The chunked job in progress. Rendered chunks go out via `streamNext` and
+ * come back through `streamWrite` once the main thread has enhanced them;
+ * the filter, gate and de-esser state and the encoder carry over from one chunk to the next.
+ */
+interface StreamSession {
+  blocks: AsyncGenerator<AudioData>;
+  humFilter: ((channels: Float32Array[]) => void) | null;
+  gate: ((channels: Float32Array[]) => void) | null;
+  deEsser: ((channels: Float32Array[]) => void) | null;
+  encoder: StreamEncoder;
+  // Breaths to lower, in output samples, and where the next block starts
+  breathRanges: [number, number][];
+  breathReductionDb: number;
+  position: number;
+}
+
+let session: StreamSession | null = null;
+
+const openStream = async (
+  file: Blob,
+  options: StreamOptions,
+  onProgress: (progress: number) => void
+): Promise<StreamInfo> => {
+  session = null;
+  const source = await openWavSource(file);
+  const { sampleRate, numberOfChannels, length } = source;
+
+  const regions = options.regions ?? await detectRegionsStreaming(source, options.silence, onProgress);
+  const planned = regions.length > 0 ? regions : [{ start: 0, end: length, isSilence: false }];
+
+  let noiseFloorDb = options.noiseFloorDb;
+  if (options.gate && noiseFloorDb === null) {
+    noiseFloorDb = await getNoiseFloorStreaming(source);
+  }
+
+  const timeMap = await planRender(source, planned, options.silence);
+  const processedLength = Math.round(timeMap.processedDuration * sampleRate);
+  const { crossfadeDuration = 0.01, breathMode = 'off', breathReductionDb = 12 } = options.silence;
+  const deEsser = options.gate && getEnhanceChain(options.gate).deEsser;
+  const hum = options.gate?.removeHum ? await detectHum(source) : null;
+
+  session = {
+    blocks: renderStream(source, timeMap.segments, Math.floor(crossfadeDuration * sampleRate)),
+    humFilter: hum ? createHumFilter(sampleRate, numberOfChannels, hum) : null,
+    gate: options.gate && noiseFloorDb !== null
+      ? createNoiseGate(sampleRate, numberOfChannels, getAdaptiveGateThreshold(noiseFloorDb, options.gate), !!options.gate.aggressiveGate)
+      : null,
+    deEsser: deEsser ? createDeEsser(sampleRate, numberOfChannels, deEsser) : null,
+    encoder: createAudioEncoder(options.format, sampleRate, numberOfChannels, processedLength, {
+      ...options.encoding,
+      metadata: options.metadata && retimeMetadata(options.metadata, timeMap)
+    }),
+    breathRanges: breathMode === 'attenuate' ? getBreathRanges(planned, timeMap) : [],
+    breathReductionDb,
+    position: 0
+  };
+
+  return {
+    regions: planned,
+    segments: timeMap.segments,
+    originalLength: length,
+    sampleRate,
+    numberOfChannels,
+    noiseFloorDb
+  };
+};
+
+const getSession = (): StreamSession => {
+  if (!session) throw new Error("No stream is open");
+  return session;
+};
+
+const serializeResult = (result: ProcessResult, originalLength: number): SerializedProcessResult => ({
+  audio: result.audio,
+  regions: result.regions,
+  segments: result.timeMap.segments,
+  originalLength
+});
+
+const serializeMultitrackResult = (result: MultitrackResult, originalLength: number): SerializedMultitrackResult => ({
+  tracks: result.tracks,
+  regions: result.regions,
+  segments: result.timeMap.segments,
+  originalLength
+});
+
+const getSessionLength = (tracks: AudioData[]) => Math.max(0, ...tracks.map(getLength));
+
+const runRequest = async (
+  request: WorkerRequest,
+  onProgress: (progress: number) => void
+): Promise<{ result: WorkerResults[keyof WorkerResults]; transfer: Transferable[] }> => {
+  switch (request.type) {
+    case 'decode': {
+      const result = await decodeAudioFile(request.file, onProgress);
+      return { result, transfer: result ? getTransferables(result) : [] };
+    }
+    case 'resample': {
+      const result = resampleAudio(request.audio, request.sampleRate);
+      return { result, transfer: getTransferables(result) };
+    }
+    case 'removeSilence': {
+      const result = await removeSilence(request.audio, request.options, onProgress);
+      return { result: serializeResult(result, getLength(request.audio)), transfer: getTransferables(result.audio) };
+    }
+    case 'renderRegions': {
+      const result = await renderRegions(request.audio, request.regions, request.options, onProgress);
+      return { result: serializeResult(result, getLength(request.audio)), transfer: getTransferables(result.audio) };
+    }
+    case 'applyAdaptiveGate': {
+      const result = applyAdaptiveGate(request.audio, request.options, onProgress);
+      return { result, transfer: getTransferables(result) };
+    }
+    case 'detectHum': {
+      const result = await detectHum(createMemorySource(request.audio));
+      return { result, transfer: [] };
+    }
+    case 'removeHum': {
+      const hum = await detectHum(createMemorySource(request.audio));
+      if (hum) removeHum(request.audio, hum, onProgress);
+      return { result: { audio: request.audio, hum }, transfer: getTransferables(request.audio) };
+    }
+    case 'learnNoiseProfile': {
+      const result = learnNoiseProfile(request.audio, request.range);
+      return { result, transfer: [result.power.buffer as ArrayBuffer] };
+    }
+    case 'reduceNoise': {
+      const result = reduceNoise(request.audio, request.options, onProgress);
+      return { result, transfer: getTransferables(result) };
+    }
+    case 'deEss': {
+      const result = applyDeEsser(request.audio, request.settings, onProgress);
+      return { result, transfer: getTransferables(result) };
+    }
+    case 'normalizeLoudness': {
+      const { report } = normalizeLoudness(request.audio, request.target, onProgress);
+      return { result: { audio: request.audio, report }, transfer: getTransferables(request.audio) };
+    }
+    case 'encode': {
+      const result = await encodeAudio(request.audio, request.format, request.options, onProgress);
+      return { result, transfer: [] };
+    }
+    case 'analyzeLevels': {
+      const result = analyzeLevels(request.audio, request.measure);
+      return { result, transfer: [result.histogram.buffer as ArrayBuffer] };
+    }
+    case 'removeSilenceMultitrack': {
+      const result = await removeSilenceMultitrack(request.tracks, request.options, request.rule, onProgress);
+      return {
+        result: serializeMultitrackResult(result, getSessionLength(request.tracks)),
+        transfer: result.tracks.flatMap(getTransferables)
+      };
+    }
+    case 'renderMultitrackRegions': {
+      const result = await renderMultitrackRegions(request.tracks, request.regions, request.options, onProgress);
+      return {
+        result: serializeMultitrackResult(result, getSessionLength(request.tracks)),
+        transfer: result.tracks.flatMap(getTransferables)
+      };
+    }
+    case 'mixTracks': {
+      const result = mixTracks(request.tracks);
+      return { result, transfer: getTransferables(result) };
+    }
+    case 'alignTracks': {
+      const result = alignTracks(request.tracks, request.options, onProgress);
+      return { result, transfer: result.tracks.flatMap(getTransferables) };
+    }
+    case 'normalizeMultitrackLoudness': {
+      const result = normalizeMultitrackLoudness(request.tracks, request.target, onProgress);
+      return { result, transfer: result.tracks.flatMap(getTransferables) };
+    }
+    case 'streamOpen': {
+      const result = await openStream(request.file, request.options, onProgress);
+      return { result, transfer: [] };
+    }
+    case 'streamNext': {
+      const current = getSession();
+      const next = await current.blocks.next();
+      if (next.done) return { result: null, transfer: [] };
+      // Blocks are fresh copies, so they can be worked on in place
+      const block = next.value;
+      attenuateRanges(block.channels, current.position, current.breathRanges, current.breathReductionDb, block.sampleRate);
+      current.position += getLength(block);
+      current.humFilter?.(block.channels);
+      current.gate?.(block.channels);
+      current.deEsser?.(block.channels);
+      return { result: block, transfer: getTransferables(block) };
+    }
+    case 'streamWrite': {
+      await getSession().encoder.write(request.audio.channels);
+      return { result: null, transfer: [] };
+    }
+    case 'streamFinish': {
+      const result = await getSession().encoder.finish();
+      session = null;
+      return { result, transfer: [] };
+    }
+  }
+};
+
+ctx.onmessage = async (e: MessageEvent<WorkerMessage>) => {
+  const { id } = e.data;
+  const onProgress = (progress: number) => {
+    ctx.postMessage({ id, type: 'progress', progress } satisfies WorkerResponse);
+  };
+
+  try {
+    const { result, transfer } = await runRequest(e.data, onProgress);
+    ctx.postMessage({ id, type: 'result', result } satisfies WorkerResponse, transfer);
+  } catch (err) {
+    console.error(err);
+    const message = err instanceof Error ? err.message : String(err);
+    ctx.postMessage({ id, type: 'error', message } satisfies WorkerResponse);
+  }
+};
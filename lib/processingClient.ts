@@ -0,0 +1,423 @@
+import { decodeWithBrowser, enhanceAudio, getEnhanceChain, AudioEncodeOptions, AudioFormat, AudioRegion, EnhanceOptions, SilenceOptions } from './audioProcessing';
+import { LevelAnalysis, LevelMeasure } from './levelAnalysis';
+import { createTimeMap, TimeMap } from './timeMap';
+import { AudioData, fromAudioBuffer, getLength, getTransferables, toAudioBuffer } from './audioData';
+import { MultitrackRule } from './multitrack';
+import { AlignOptions, TrackAlignment } from './alignment';
+import { LoudnessReport, LoudnessTarget } from './loudness';
+import { NoiseProfile } from './noiseReduction';
+import { HumProfile } from './humRemoval';
+import type {
+  SerializedMultitrackResult,
+  SerializedProcessResult,
+  StreamInfo,
+  StreamOptions,
+  WorkerMessage,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerResults
+} from './processing.worker';
+
+/**
+ * Main-thread side of the processing worker. Callers hand in AudioBuffers
+ * and get AudioBuffers back; the sample crunching happens in the worker.
+ */
+
+export interface ProcessedAudio {
+  buffer: AudioBuffer;
+  regions: AudioRegion[];
+  timeMap: TimeMap;
+}
+
+interface PendingJob {
+  resolve: (result: WorkerResults[keyof WorkerResults]) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingJob>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./processing.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const msg = e.data;
+    const job = pending.get(msg.id);
+    if (!job) return;
+
+    if (msg.type === 'progress') {
+      job.onProgress?.(msg.progress);
+      return;
+    }
+
+    pending.delete(msg.id);
+    if (msg.type === 'result') {
+      job.resolve(msg.result);
+    } else {
+      job.reject(new Error(msg.message));
+    }
+  };
+
+  // A crashed worker takes every queued job with it. Start fresh next time.
+  worker.onerror = (e) => {
+    e.preventDefault();
+    stopWorker(new Error(e.message || "Processing worker failed"));
+  };
+
+  return worker;
+};
+
+/**
+ * Terminates the worker and fails every job still running in it.
+ */
+const stopWorker = (reason: Error) => {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(job => job.reject(reason));
+  pending.clear();
+};
+
+const getRequestTransferables = (request: WorkerRequest): Transferable[] => {
+  if ('audio' in request) return getTransferables(request.audio);
+  if ('tracks' in request) return request.tracks.flatMap(getTransferables);
+  return [];
+};
+
+/**
+ * Posts a job with its audio (if any) transferred and resolves with the worker's result.
+ * Aborting terminates the worker, so any other job in flight fails too.
+ */
+const runJob = <T extends WorkerRequest>(
+  request: T,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<WorkerResults[T['type']]> => {
+  const id = nextId++;
+  const message: WorkerMessage = { ...request, id };
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => stopWorker(signal!.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    pending.set(id, {
+      // The worker answers each id with the result for its request type
+      resolve: result => { cleanup(); resolve(result as WorkerResults[T['type']]); },
+      reject: error => { cleanup(); reject(error); },
+      onProgress
+    });
+    getWorker().postMessage(message, getRequestTransferables(request));
+  });
+};
+
+const deserializeResult = (result: SerializedProcessResult): ProcessedAudio => ({
+  buffer: toAudioBuffer(result.audio),
+  regions: result.regions,
+  timeMap: createTimeMap(result.segments, result.audio.sampleRate, result.originalLength)
+});
+
+/**
+ * Decodes a file in the worker when it is WAV, AIFF or FLAC, keeping its
+ * sample rate. Other formats go to the browser's decoder. `sampleRate`
+ * converts the result, e.g. to match the other tracks of a session.
+ */
+export const decodeInWorker = async (
+  file: File,
+  sampleRate: number | null = null,
+  signal?: AbortSignal
+): Promise<AudioBuffer> => {
+  const audio = await runJob({ type: 'decode', file }, undefined, signal);
+  const buffer = audio ? toAudioBuffer(audio) : await decodeWithBrowser(file, signal);
+  if (sampleRate === null || buffer.sampleRate === sampleRate) return buffer;
+  return toAudioBuffer(await runJob({ type: 'resample', audio: fromAudioBuffer(buffer), sampleRate }, undefined, signal));
+};
+
+/**
+ * `removeSilence` in the worker.
+ */
+export const removeSilenceInWorker = async (
+  buffer: AudioBuffer,
+  options: SilenceOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ProcessedAudio> => {
+  const result = await runJob({ type: 'removeSilence', audio: fromAudioBuffer(buffer), options }, onProgress, signal);
+  return deserializeResult(result);
+};
+
+/**
+ * `renderRegions` in the worker.
+ */
+export const renderRegionsInWorker = async (
+  buffer: AudioBuffer,
+  regions: AudioRegion[],
+  options: SilenceOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ProcessedAudio> => {
+  const result = await runJob({ type: 'renderRegions', audio: fromAudioBuffer(buffer), regions, options }, onProgress, signal);
+  return deserializeResult(result);
+};
+
+export interface ProcessedTracks {
+  buffers: AudioBuffer[];
+  regions: AudioRegion[];
+  timeMap: TimeMap;
+}
+
+const deserializeMultitrackResult = (result: SerializedMultitrackResult): ProcessedTracks => ({
+  buffers: result.tracks.map(toAudioBuffer),
+  regions: result.regions,
+  timeMap: createTimeMap(result.segments, result.tracks[0].sampleRate, result.originalLength)
+});
+
+/**
+ * `removeSilenceMultitrack` in the worker.
+ */
+export const removeSilenceMultitrackInWorker = async (
+  buffers: AudioBuffer[],
+  options: SilenceOptions,
+  rule: MultitrackRule,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ProcessedTracks> => {
+  const result = await runJob(
+    { type: 'removeSilenceMultitrack', tracks: buffers.map(fromAudioBuffer), options, rule },
+    onProgress,
+    signal
+  );
+  return deserializeMultitrackResult(result);
+};
+
+/**
+ * `renderMultitrackRegions` in the worker.
+ */
+export const renderMultitrackRegionsInWorker = async (
+  buffers: AudioBuffer[],
+  regions: AudioRegion[],
+  options: SilenceOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ProcessedTracks> => {
+  const result = await runJob(
+    { type: 'renderMultitrackRegions', tracks: buffers.map(fromAudioBuffer), regions, options },
+    onProgress,
+    signal
+  );
+  return deserializeMultitrackResult(result);
+};
+
+/**
+ * `mixTracks` in the worker.
+ */
+export const mixTracksInWorker = async (buffers: AudioBuffer[], signal?: AbortSignal): Promise<AudioBuffer> => {
+  const mix = await runJob({ type: 'mixTracks', tracks: buffers.map(fromAudioBuffer) }, undefined, signal);
+  return toAudioBuffer(mix);
+};
+
+/**
+ * `alignTracks` in the worker: every track moved onto the first track's timeline.
+ */
+export const alignTracksInWorker = async (
+  buffers: AudioBuffer[],
+  options: AlignOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<{ buffers: AudioBuffer[]; alignments: TrackAlignment[] }> => {
+  const result = await runJob({ type: 'alignTracks', tracks: buffers.map(fromAudioBuffer), options }, onProgress, signal);
+  return { buffers: result.tracks.map(toAudioBuffer), alignments: result.alignments };
+};
+
+/**
+ * `normalizeMultitrackLoudness` in the worker.
+ */
+export const normalizeTracksInWorker = async (
+  buffers: AudioBuffer[],
+  target: LoudnessTarget,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<{ buffers: AudioBuffer[]; loudness: LoudnessReport }> => {
+  const result = await runJob(
+    { type: 'normalizeMultitrackLoudness', tracks: buffers.map(fromAudioBuffer), target },
+    onProgress,
+    signal
+  );
+  return { buffers: result.tracks.map(toAudioBuffer), loudness: result.report };
+};
+
+export interface EnhancedAudio {
+  buffer: AudioBuffer;
+  /**
+   * Null when loudness normalization is off.
+   */
+  loudness: LoudnessReport | null;
+}
+
+/**
+ * `learnNoiseProfile` in the worker. `range` is in samples of `buffer`;
+ * null finds the noise automatically.
+ */
+export const learnNoiseProfileInWorker = async (
+  buffer: AudioBuffer,
+  range: { start: number; end: number } | null,
+  signal?: AbortSignal
+): Promise<NoiseProfile> => {
+  return await runJob({ type: 'learnNoiseProfile', audio: fromAudioBuffer(buffer), range }, undefined, signal);
+};
+
+/**
+ * `detectHum` in the worker.
+ */
+export const detectHumInWorker = async (buffer: AudioBuffer, signal?: AbortSignal): Promise<HumProfile | null> => {
+  return await runJob({ type: 'detectHum', audio: fromAudioBuffer(buffer) }, undefined, signal);
+};
+
+/**
+ * Full enhancement: hum removal, noise reduction, the adaptive gate, the
+ * dynamic de-esser and loudness normalization run in the worker, the
+ * filter chain needs an OfflineAudioContext and runs here.
+ */
+export const enhanceInWorker = async (
+  buffer: AudioBuffer,
+  options: EnhanceOptions = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<EnhancedAudio> => {
+  const { loudness = null, noiseReduction = null, removeHum = false } = options;
+  const { deEsser } = getEnhanceChain(options);
+  const chainShare = loudness ? 0.8 : 1;
+  // Noise reduction is the slowest step by far when it runs
+  const noiseShare = noiseReduction ? 0.6 * chainShare : 0;
+  const steps = 2 + (deEsser ? 1 : 0) + (removeHum ? 1 : 0);
+  const stepShare = (chainShare - noiseShare) / steps;
+  // Progress of the steps that run, one after another
+  let done = 0;
+  const stage = (share: number) => {
+    const offset = done;
+    done += share;
+    return onProgress && ((p: number) => onProgress(offset + p * share));
+  };
+
+  let audio = fromAudioBuffer(buffer);
+  if (removeHum) {
+    audio = (await runJob({ type: 'removeHum', audio }, stage(stepShare), signal)).audio;
+  }
+  if (noiseReduction) {
+    audio = await runJob({ type: 'reduceNoise', audio, options: noiseReduction }, stage(noiseShare), signal);
+  }
+  audio = await runJob({ type: 'applyAdaptiveGate', audio, options }, stage(stepShare), signal);
+  if (deEsser) {
+    audio = await runJob({ type: 'deEss', audio, settings: deEsser }, stage(stepShare), signal);
+  }
+  const filtered = await enhanceAudio(toAudioBuffer(audio), options, stage(stepShare), signal);
+  if (!loudness) return { buffer: filtered, loudness: null };
+
+  const result = await runJob(
+    { type: 'normalizeLoudness', audio: fromAudioBuffer(filtered), target: loudness },
+    onProgress && (p => onProgress(chainShare + p * (1 - chainShare))),
+    signal
+  );
+  return { buffer: toAudioBuffer(result.audio), loudness: result.report };
+};
+
+/**
+ * Encodes a buffer to an audio export format in the worker.
+ */
+export const encodeInWorker = async (
+  buffer: AudioBuffer,
+  format: AudioFormat,
+  options: AudioEncodeOptions = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  return await runJob({ type: 'encode', audio: fromAudioBuffer(buffer), format, options }, onProgress, signal);
+};
+
+/**
+ * `analyzeLevels` in the worker.
+ */
+export const analyzeLevelsInWorker = async (
+  buffer: AudioBuffer,
+  measure: LevelMeasure,
+  signal?: AbortSignal
+): Promise<LevelAnalysis> => {
+  return await runJob({ type: 'analyzeLevels', audio: fromAudioBuffer(buffer), measure }, undefined, signal);
+};
+
+export interface StreamedAudio {
+  blob: Blob;
+  regions: AudioRegion[];
+  timeMap: TimeMap;
+  /**
+   * Measured by the gate, so a re-render with other settings can skip it.
+   */
+  noiseFloorDb: number | null;
+}
+
+// Audio run through the filter chain ahead of each chunk, then dropped,
+// so filter and compressor state has settled by the chunk boundary
+const ENHANCE_PRE_ROLL_SECONDS = 0.5;
+
+/**
+ * Processes a WAV file chunk by chunk, reading it straight from disk, for
+ * recordings too long to hold in memory. Detection, cutting, gating and
+ * encoding happen in the worker; each chunk comes back here for the filter
+ * chain when `enhance` is set.
+ */
+export const processStreamInWorker = async (
+  file: Blob,
+  options: StreamOptions,
+  enhance: EnhanceOptions | null,
+  onDetectProgress?: (progress: number) => void,
+  onRenderProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<StreamedAudio> => {
+  const info: StreamInfo = await runJob({ type: 'streamOpen', file, options }, onDetectProgress, signal);
+  const timeMap = createTimeMap(info.segments, info.sampleRate, info.originalLength);
+  const totalLength = Math.max(1, Math.round(timeMap.processedDuration * info.sampleRate));
+  const preRollLength = Math.floor(ENHANCE_PRE_ROLL_SECONDS * info.sampleRate);
+
+  let preRoll: Float32Array[] = [];
+  let written = 0;
+
+  while (true) {
+    onRenderProgress?.(written / totalLength);
+    const chunk: AudioData | null = await runJob({ type: 'streamNext' }, undefined, signal);
+    if (!chunk) break;
+    const length = getLength(chunk);
+
+    let output = chunk;
+    if (enhance) {
+      const skip = preRoll[0]?.length ?? 0;
+      const input = chunk.channels.map((data, c) => {
+        const joined = new Float32Array(skip + length);
+        if (skip) joined.set(preRoll[c]);
+        joined.set(data, skip);
+        return joined;
+      });
+      preRoll = input.map(data => data.slice(Math.max(0, data.length - preRollLength)));
+
+      const enhanced = await enhanceAudio(toAudioBuffer({ sampleRate: chunk.sampleRate, channels: input }), enhance, undefined, signal);
+      output = {
+        sampleRate: chunk.sampleRate,
+        channels: Array.from({ length: enhanced.numberOfChannels }, (_, c) => enhanced.getChannelData(c).slice(skip, skip + length))
+      };
+    }
+
+    await runJob({ type: 'streamWrite', audio: output }, undefined, signal);
+    written += length;
+  }
+
+  const blob = await runJob({ type: 'streamFinish' }, undefined, signal);
+  onRenderProgress?.(1);
+  return { blob, regions: info.regions, timeMap, noiseFloorDb: info.noiseFloorDb };
+};
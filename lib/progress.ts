@@ -0,0 +1,81 @@
+export type ProcessingStage = 'decode' | 'align' | 'detect' | 'enhance' | 'encode';
+
+/**
+ * Rough share of total work per stage, measured on speech recordings.
+ * Only the stages a run actually includes are counted.
+ */
+export const STAGE_WEIGHTS: Record<ProcessingStage, number> = {
+  decode: 0.1,
+  align: 0.1,
+  detect: 0.45,
+  enhance: 0.3,
+  encode: 0.15,
+};
+
+export interface ProgressUpdate {
+  stage: ProcessingStage;
+  /**
+   * 0 to 1 across all stages of the run.
+   */
+  overall: number;
+  /**
+   * Estimated seconds left, or null until there is enough to go on.
+   */
+  etaSeconds: number | null;
+}
+
+export interface ProgressTracker {
+  /**
+   * Reports progress (0 to 1) within one stage. Returns the callback so it
+   * can be handed straight to functions taking `onProgress`.
+   */
+  stage: (stage: ProcessingStage) => (progress: number) => void;
+}
+
+const MIN_ETA_ELAPSED_MS = 500;
+const MIN_ETA_PROGRESS = 0.02;
+
+/**
+ * Combines per-stage progress into one weighted figure with an ETA.
+ * Progress never moves backwards, even if a stage reports out of order.
+ */
+export const createProgressTracker = (
+  stages: ProcessingStage[],
+  onUpdate: (update: ProgressUpdate) => void,
+  now: () => number = () => performance.now()
+): ProgressTracker => {
+  const total = stages.reduce((sum, s) => sum + STAGE_WEIGHTS[s], 0) || 1;
+  const startedAt = now();
+  let overall = 0;
+
+  const stage = (name: ProcessingStage) => {
+    const index = stages.indexOf(name);
+    if (index === -1) throw new Error(`Stage "${name}" is not part of this run`);
+
+    const before = stages.slice(0, index).reduce((sum, s) => sum + STAGE_WEIGHTS[s], 0);
+    const weight = STAGE_WEIGHTS[name];
+
+    const report = (progress: number) => {
+      const p = Math.max(0, Math.min(1, progress));
+      overall = Math.max(overall, (before + weight * p) / total);
+
+      const elapsed = now() - startedAt;
+      const etaSeconds = elapsed >= MIN_ETA_ELAPSED_MS && overall >= MIN_ETA_PROGRESS
+        ? (elapsed / overall) * (1 - overall) / 1000
+        : null;
+
+      onUpdate({ stage: name, overall, etaSeconds });
+    };
+
+    report(0);
+    return report;
+  };
+
+  return { stage };
+};
+
+/**
+ * True for the error an aborted signal throws (or rejects with).
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
@@ -0,0 +1,116 @@
+import { AudioRegion } from './audioProcessing';
+
+/**
+ * Pure helpers for manual region edits. Every function returns a new,
+ * normalized region list (ordered, contiguous, no empty regions) and
+ * never mutates its input.
+ */
+
+const sameKind = (a: AudioRegion, b: AudioRegion) =>
+  a.isSilence === b.isSilence && !!a.manual === !!b.manual && !!a.breath === !!b.breath;
+
+/**
+ * Drops empty regions and merges neighbours of the same kind.
+ */
+export const normalizeRegions = (regions: AudioRegion[]): AudioRegion[] => {
+  const out: AudioRegion[] = [];
+  for (const r of regions) {
+    if (r.end <= r.start) continue;
+    const last = out[out.length - 1];
+    if (last && sameKind(last, r) && last.end === r.start) {
+      last.end = r.end;
+    } else {
+      out.push({ ...r });
+    }
+  }
+  return out;
+};
+
+/**
+ * Index of the region containing `sample`, or -1.
+ */
+export const findRegionAt = (regions: AudioRegion[], sample: number): number => {
+  return regions.findIndex(r => sample >= r.start && sample < r.end);
+};
+
+/**
+ * Index `i` of the boundary between regions[i] and regions[i + 1] that lies
+ * within `tolerance` samples of `sample`, or -1.
+ */
+export const findBoundaryNear = (regions: AudioRegion[], sample: number, tolerance: number): number => {
+  let best = -1;
+  let bestDistance = tolerance;
+  for (let i = 0; i < regions.length - 1; i++) {
+    const d = Math.abs(regions[i].end - sample);
+    if (d <= bestDistance) {
+      best = i;
+      bestDistance = d;
+    }
+  }
+  return best;
+};
+
+/**
+ * Click on a region: detected silence becomes a manual keep, and manual
+ * regions revert to what detection would have done with them.
+ * Plain speech is left alone (paint a cut instead).
+ */
+export const toggleRegion = (regions: AudioRegion[], index: number): AudioRegion[] => {
+  const r = regions[index];
+  if (!r) return regions;
+
+  let next: AudioRegion;
+  if (r.isSilence && !r.manual) {
+    next = { ...r, isSilence: false, manual: true };
+  } else if (!r.isSilence && r.manual) {
+    next = { start: r.start, end: r.end, isSilence: true, ...(r.breath && { breath: true }) };
+  } else if (r.isSilence && r.manual) {
+    next = { start: r.start, end: r.end, isSilence: false };
+  } else {
+    return regions;
+  }
+
+  return normalizeRegions(regions.map((x, i) => i === index ? next : x));
+};
+
+/**
+ * Moves the boundary between regions[index] and regions[index + 1].
+ * Neither side is allowed to shrink below one sample.
+ */
+export const moveBoundary = (regions: AudioRegion[], index: number, position: number): AudioRegion[] => {
+  const left = regions[index];
+  const right = regions[index + 1];
+  if (!left || !right) return regions;
+
+  const pos = Math.round(Math.max(left.start + 1, Math.min(right.end - 1, position)));
+  return regions.map((r, i) => {
+    if (i === index) return { ...r, end: pos };
+    if (i === index + 1) return { ...r, start: pos };
+    return r;
+  });
+};
+
+/**
+ * Marks [start, end) as a manual cut, splitting whatever it overlaps.
+ */
+export const paintCut = (regions: AudioRegion[], start: number, end: number): AudioRegion[] => {
+  if (regions.length === 0) return regions;
+  const total = regions[regions.length - 1].end;
+  const a = Math.max(0, Math.round(Math.min(start, end)));
+  const b = Math.min(total, Math.round(Math.max(start, end)));
+  if (b <= a) return regions;
+
+  const out: AudioRegion[] = [];
+  for (const r of regions) {
+    if (r.end <= a || r.start >= b) {
+      out.push(r);
+      continue;
+    }
+    if (r.start < a) out.push({ ...r, end: a });
+    if (r.end > b) out.push({ ...r, start: b });
+  }
+
+  out.push({ start: a, end: b, isSilence: true, manual: true });
+  out.sort((x, y) => x.start - y.start);
+  return normalizeRegions(out);
+};
@@ -0,0 +1,133 @@
+import { AudioData } from './audioData';
+
+/**
+ * Band-limited sample rate conversion with a Kaiser-windowed sinc. The
+ * filter cuts just below the lower of the two Nyquist frequencies, so
+ * downsampling does not alias and upsampling does not image.
+ */
+
+// Zero crossings of the sinc on each side: steeper cutoff, more work
+const ZERO_CROSSINGS = 16;
+// Kernel table resolution per zero crossing; lookups interpolate between entries
+const TABLE_RESOLUTION = 512;
+const KAISER_BETA = 8.6;
+// Cutoff as a share of the lower Nyquist frequency
+const CUTOFF = 0.95;
+
+/**
+ * Number of output samples for `length` input samples: one for every
+ * output instant that falls inside the input.
+ */
+export const getResampledLength = (length: number, fromRate: number, toRate: number): number =>
+  Math.floor((length * toRate + fromRate - 1) / fromRate);
+
+// Zeroth-order modified Bessel function, for the Kaiser window
+const besselI0 = (x: number) => {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 32; k++) {
+    term *= (x / (2 * k)) ** 2;
+    sum += term;
+  }
+  return sum;
+};
+
+const createKernelTable = (): Float32Array => {
+  const size = ZERO_CROSSINGS * TABLE_RESOLUTION + 2;
+  const table = new Float32Array(size);
+  const norm = besselI0(KAISER_BETA);
+  for (let i = 0; i < size; i++) {
+    const t = i / TABLE_RESOLUTION;
+    const r = t / ZERO_CROSSINGS;
+    const window = r < 1 ? besselI0(KAISER_BETA * Math.sqrt(1 - r * r)) / norm : 0;
+    table[i] = (t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t)) * window;
+  }
+  return table;
+};
+
+/**
+ * A resampler for consecutive chunks. `process` returns what can be
+ * computed so far; `flush` returns the rest once the input has ended.
+ * Together they yield `getResampledLength` samples per channel.
+ */
+export const createResampler = (fromRate: number, toRate: number, numChannels: number) => {
+  const table = createKernelTable();
+  const cutoff = CUTOFF * Math.min(1, toRate / fromRate);
+  // Kernel reach in input samples on either side of an output instant
+  const reach = Math.ceil(ZERO_CROSSINGS / cutoff);
+
+  // Input not yet consumed, starting at absolute input index `bufferStart`
+  let buffers = Array.from({ length: numChannels }, () => new Float32Array(0));
+  let bufferStart = 0;
+  let received = 0;
+  let produced = 0;
+
+  const append = (channels: Float32Array[]) => {
+    buffers = buffers.map((old, c) => {
+      const next = new Float32Array(old.length + channels[c].length);
+      next.set(old);
+      next.set(channels[c], old.length);
+      return next;
+    });
+  };
+
+  const sampleAt = (data: Float32Array, position: number) => {
+    const centre = Math.floor(position);
+    let sum = 0;
+    for (let k = centre - reach + 1; k <= centre + reach; k++) {
+      const i = k - bufferStart;
+      if (i < 0 || i >= data.length) continue;
+      const t = Math.abs(position - k) * cutoff * TABLE_RESOLUTION;
+      const j = Math.floor(t);
+      if (j >= table.length - 1) continue;
+      const h = table[j] + (table[j + 1] - table[j]) * (t - j);
+      sum += data[i] * h;
+    }
+    return sum * cutoff;
+  };
+
+  // Output instants whose kernel lies within the first `available` input samples
+  const render = (available: number, limit: number): Float32Array[] => {
+    const start = produced;
+    const most = Math.max(0, Math.min(limit, getResampledLength(available, fromRate, toRate)) - start);
+    const outputs = buffers.map(() => new Float32Array(most));
+    while (produced - start < most) {
+      const position = (produced * fromRate) / toRate;
+      if (Math.floor(position) + reach >= available) break;
+      for (let c = 0; c < numChannels; c++) outputs[c][produced - start] = sampleAt(buffers[c], position);
+      produced++;
+    }
+
+    // Drop input no later output will reach
+    const keepFrom = Math.max(bufferStart, Math.floor((produced * fromRate) / toRate) - reach);
+    buffers = buffers.map(data => data.slice(keepFrom - bufferStart));
+    bufferStart = keepFrom;
+    return outputs.map(values => values.subarray(0, produced - start));
+  };
+
+  return {
+    process: (channels: Float32Array[]): Float32Array[] => {
+      append(channels);
+      received += channels[0]?.length ?? 0;
+      return render(received, Infinity);
+    },
+    flush: (): Float32Array[] => render(Infinity, getResampledLength(received, fromRate, toRate))
+  };
+};
+
+/**
+ * Resamples audio that is already in memory.
+ */
+export const resampleAudio = (audio: AudioData, toRate: number): AudioData => {
+  if (audio.sampleRate === toRate) return audio;
+  const resampler = createResampler(audio.sampleRate, toRate, audio.channels.length);
+  const head = resampler.process(audio.channels);
+  const tail = resampler.flush();
+  const channels = head.map((data, c) => {
+    const out = new Float32Array(data.length + tail[c].length);
+    out.set(data);
+    out.set(tail[c], data.length);
+    return out;
+  });
+  return { sampleRate: toRate, channels };
+};
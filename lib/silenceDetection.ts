@@ -0,0 +1,350 @@
+import { fft, hannWindow, nextPowerOfTwo } from './fft';
+import { AudioSource } from './audioSource';
+
+export type DetectorMode = 'peak' | 'rms' | 'hysteresis' | 'vad';
+
+/**
+ * Configuration shared by all silence detectors.
+ */
+export interface DetectorOptions {
+  /**
+   * Level in dB below which audio counts as silence.
+   */
+  thresholdDb: number;
+  /**
+   * Analysis hop in samples. Each hop gets one silence decision.
+   */
+  hopSize: number;
+  /**
+   * Seconds to keep treating audio as speech after it last crossed the threshold.
+   * Bridges short dips between words.
+   */
+  holdTime: number;
+  /**
+   * Hysteresis mode only: how far (in dB) the level must fall below the
+   * threshold before an open (speech) state closes again.
+   */
+  hysteresisDb: number;
+}
+
+/**
+ * A silence detector turns audio into one flag per hop (1 = silence).
+ */
+export interface SilenceDetector {
+  label: string;
+  detect: (
+    channels: Float32Array[],
+    sampleRate: number,
+    options: DetectorOptions,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ) => Promise<Uint8Array>;
+}
+
+export interface DetectionResult {
+  flags: Uint8Array;
+  hopSize: number;
+}
+
+const yieldToMain = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const dbToLinear = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Computes the RMS level of each hop over a window of `windowSize` samples
+ * centred on the hop, across all channels.
+ */
+const computeRmsFrames = async (
+  channels: Float32Array[],
+  hopSize: number,
+  windowSize: number,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Float32Array> => {
+  const length = channels[0].length;
+  const numFrames = Math.ceil(length / hopSize);
+  const levels = new Float32Array(numFrames);
+  const offset = Math.floor((windowSize - hopSize) / 2);
+
+  for (let f = 0; f < numFrames; f++) {
+    const start = Math.max(0, f * hopSize - offset);
+    const end = Math.min(length, start + windowSize);
+    let sum = 0;
+
+    for (let c = 0; c < channels.length; c++) {
+      const data = channels[c];
+      for (let i = start; i < end; i++) {
+        sum += data[i] * data[i];
+      }
+    }
+
+    const count = (end - start) * channels.length;
+    levels[f] = count > 0 ? Math.sqrt(sum / count) : 0;
+
+    if (f % 5000 === 0) {
+      signal?.throwIfAborted();
+      onProgress?.(f / numFrames);
+      await yieldToMain();
+    }
+  }
+
+  return levels;
+};
+
+/**
+ * Original behaviour: a hop is silent if no sample on any channel exceeds the threshold.
+ */
+const peakDetector: SilenceDetector = {
+  label: 'Peak',
+  detect: async (channels, _sampleRate, options, onProgress, signal) => {
+    const length = channels[0].length;
+    const { hopSize } = options;
+    const threshold = dbToLinear(options.thresholdDb);
+    const numFrames = Math.ceil(length / hopSize);
+    const flags = new Uint8Array(numFrames);
+
+    for (let b = 0; b < numFrames; b++) {
+      const start = b * hopSize;
+      const end = Math.min(start + hopSize, length);
+      let maxAmp = 0;
+
+      for (let c = 0; c < channels.length; c++) {
+        const data = channels[c];
+        for (let i = start; i < end; i++) {
+          const abs = Math.abs(data[i]);
+          if (abs > maxAmp) maxAmp = abs;
+          if (maxAmp > threshold) break;
+        }
+        if (maxAmp > threshold) break;
+      }
+
+      if (maxAmp < threshold) flags[b] = 1;
+
+      if (b % 5000 === 0) {
+        signal?.throwIfAborted();
+        onProgress?.(b / numFrames);
+        await yieldToMain();
+      }
+    }
+
+    return flags;
+  }
+};
+
+/**
+ * Short-term loudness: RMS over a ~50ms window. Single clicks barely move it.
+ */
+const rmsDetector: SilenceDetector = {
+  label: 'RMS',
+  detect: async (channels, sampleRate, options, onProgress, signal) => {
+    const windowSize = Math.max(options.hopSize, Math.floor(sampleRate * 0.05));
+    const levels = await computeRmsFrames(channels, options.hopSize, windowSize, onProgress, signal);
+    const threshold = dbToLinear(options.thresholdDb);
+
+    const flags = new Uint8Array(levels.length);
+    for (let f = 0; f < levels.length; f++) {
+      if (levels[f] < threshold) flags[f] = 1;
+    }
+    return flags;
+  }
+};
+
+/**
+ * Dual-threshold RMS: speech opens above the threshold and only closes once
+ * the level drops `hysteresisDb` below it, so a noisy floor hovering around
+ * the threshold does not flicker.
+ */
+const hysteresisDetector: SilenceDetector = {
+  label: 'Hysteresis',
+  detect: async (channels, sampleRate, options, onProgress, signal) => {
+    const windowSize = Math.max(options.hopSize, Math.floor(sampleRate * 0.05));
+    const levels = await computeRmsFrames(channels, options.hopSize, windowSize, onProgress, signal);
+    const flags = new Uint8Array(levels.length);
+    runHysteresis(levels, flags, options, false);
+    return flags;
+  }
+};
+
+/**
+ * The hysteresis state machine. Writes one flag per level and returns
+ * whether speech is still open afterwards, so a following chunk can resume.
+ */
+const runHysteresis = (levels: Float32Array, flags: Uint8Array, options: DetectorOptions, open: boolean): boolean => {
+  const openThreshold = dbToLinear(options.thresholdDb);
+  const closeThreshold = dbToLinear(options.thresholdDb - Math.abs(options.hysteresisDb));
+
+  for (let f = 0; f < levels.length; f++) {
+    if (open) {
+      if (levels[f] < closeThreshold) open = false;
+    } else if (levels[f] >= openThreshold) {
+      open = true;
+    }
+    flags[f] = open ? 0 : 1;
+  }
+  return open;
+};
+
+/**
+ * Spectral voice-activity detector. A frame counts as voice when the
+ * speech band (300-3400 Hz) is above the threshold, holds most of the
+ * energy, and is tonal rather than noise-like (low spectral flatness).
+ */
+const vadDetector: SilenceDetector = {
+  label: 'Voice (VAD)',
+  detect: async (channels, sampleRate, options, onProgress, signal) => {
+    const length = channels[0].length;
+    const { hopSize } = options;
+    const frameSize = nextPowerOfTwo(Math.max(hopSize, Math.floor(sampleRate * 0.032)));
+    const window = hannWindow(frameSize);
+    let windowPower = 0;
+    for (let i = 0; i < frameSize; i++) windowPower += window[i] * window[i];
+
+    const binHz = sampleRate / frameSize;
+    const lowBin = Math.max(1, Math.floor(300 / binHz));
+    const highBin = Math.min(frameSize / 2 - 1, Math.ceil(3400 / binHz));
+    const minBin = Math.max(1, Math.floor(80 / binHz));
+    const threshold = Math.pow(10, options.thresholdDb / 10);
+
+    const numFrames = Math.ceil(length / hopSize);
+    const flags = new Uint8Array(numFrames);
+    const re = new Float64Array(frameSize);
+    const im = new Float64Array(frameSize);
+    const offset = Math.floor((frameSize - hopSize) / 2);
+
+    for (let f = 0; f < numFrames; f++) {
+      const start = f * hopSize - offset;
+      for (let i = 0; i < frameSize; i++) {
+        const idx = start + i;
+        let sample = 0;
+        if (idx >= 0 && idx < length) {
+          for (let c = 0; c < channels.length; c++) sample += channels[c][idx];
+          sample /= channels.length;
+        }
+        re[i] = sample * window[i];
+        im[i] = 0;
+      }
+
+      fft(re, im);
+
+      let bandPower = 0;
+      let totalPower = 0;
+      let logSum = 0;
+      for (let k = minBin; k < frameSize / 2; k++) {
+        const p = re[k] * re[k] + im[k] * im[k];
+        totalPower += p;
+        if (k >= lowBin && k <= highBin) {
+          bandPower += p;
+          logSum += Math.log(p + 1e-20);
+        }
+      }
+
+      // Parseval: one-sided bin power back to mean-square amplitude
+      const bandMeanSquare = (2 * bandPower) / (frameSize * windowPower);
+      const bandBins = highBin - lowBin + 1;
+      const flatness = bandPower > 0 ? Math.exp(logSum / bandBins) / (bandPower / bandBins) : 1;
+      const speechRatio = totalPower > 0 ? bandPower / totalPower : 0;
+
+      const isVoice = bandMeanSquare > threshold && speechRatio > 0.35 && flatness < 0.5;
+      if (!isVoice) flags[f] = 1;
+
+      if (f % 500 === 0) {
+        signal?.throwIfAborted();
+        onProgress?.(f / numFrames);
+        await yieldToMain();
+      }
+    }
+
+    return flags;
+  }
+};
+
+export const DETECTORS: Record<DetectorMode, SilenceDetector> = {
+  peak: peakDetector,
+  rms: rmsDetector,
+  hysteresis: hysteresisDetector,
+  vad: vadDetector,
+};
+
+/**
+ * Runs the chosen detector and applies the hold time.
+ */
+export const detectSilence = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  mode: DetectorMode,
+  options: DetectorOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<DetectionResult> => {
+  const hopSize = Math.max(1, Math.floor(options.hopSize));
+  const flags = await DETECTORS[mode].detect(channels, sampleRate, { ...options, hopSize }, onProgress, signal);
+  applyHold(flags, Math.ceil((options.holdTime * sampleRate) / hopSize));
+  return { flags, hopSize };
+};
+
+/**
+ * Hold: keep speech open for a while after it was last detected.
+ */
+const applyHold = (flags: Uint8Array, holdFrames: number) => {
+  if (holdFrames <= 0) return;
+  let remaining = 0;
+  for (let f = 0; f < flags.length; f++) {
+    if (flags[f] === 0) {
+      remaining = holdFrames;
+    } else if (remaining > 0) {
+      flags[f] = 0;
+      remaining--;
+    }
+  }
+};
+
+/**
+ * `detectSilence` over a source read window by window. Each window is read
+ * with enough context on both sides for the widest analysis frame, and the
+ * hysteresis state is carried from one window to the next, so the flags
+ * match a single pass over the whole file.
+ */
+export const detectSilenceStreaming = async (
+  source: AudioSource,
+  mode: DetectorMode,
+  options: DetectorOptions,
+  chunkSize: number,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<DetectionResult> => {
+  const { sampleRate, length } = source;
+  const hopSize = Math.max(1, Math.floor(options.hopSize));
+  const chunkOptions = { ...options, hopSize };
+  const numFrames = Math.ceil(length / hopSize);
+  const flags = new Uint8Array(numFrames);
+  const framesPerChunk = Math.max(1, Math.floor(chunkSize / hopSize));
+
+  // Same window sizes as the detectors; context is kept hop aligned so
+  // frame boundaries fall where a single pass would put them
+  const rmsWindow = Math.max(hopSize, Math.floor(sampleRate * 0.05));
+  const vadFrame = nextPowerOfTwo(Math.max(hopSize, Math.floor(sampleRate * 0.032)));
+  const context = Math.ceil(Math.max(rmsWindow, vadFrame) / hopSize) * hopSize;
+
+  let open = false;
+  for (let f0 = 0; f0 < numFrames; f0 += framesPerChunk) {
+    signal?.throwIfAborted();
+    const f1 = Math.min(numFrames, f0 + framesPerChunk);
+    const readStart = Math.max(0, f0 * hopSize - context);
+    const readEnd = Math.min(length, f1 * hopSize + context);
+    const channels = await source.read(readStart, readEnd - readStart);
+    const skip = (f0 * hopSize - readStart) / hopSize;
+
+    if (mode === 'hysteresis') {
+      const levels = await computeRmsFrames(channels, hopSize, rmsWindow);
+      open = runHysteresis(levels.subarray(skip, skip + f1 - f0), flags.subarray(f0, f1), chunkOptions, open);
+    } else {
+      const chunkFlags = await DETECTORS[mode].detect(channels, sampleRate, chunkOptions);
+      flags.set(chunkFlags.subarray(skip, skip + f1 - f0), f0);
+    }
+
+    onProgress?.(f1 / numFrames);
+  }
+
+  applyHold(flags, Math.ceil((options.holdTime * sampleRate) / hopSize));
+  return { flags, hopSize };
+};
@@ -0,0 +1,159 @@
+/**
+ * A contiguous run of source audio that survives into the processed output.
+ */
+export interface TimeMapSegment {
+  srcStart: number; // sample index in the original buffer
+  srcEnd: number;   // sample index in the original buffer (exclusive)
+  dstStart: number; // sample index in the processed buffer
+  /**
+   * Room tone inserted to lengthen a pause. The src range says where the
+   * tone was copied from; it is not a position on the original timeline.
+   */
+  fill?: boolean;
+}
+
+/**
+ * Translates positions between the original and processed timelines.
+ * All lookups take and return seconds.
+ */
+export interface TimeMap {
+  sampleRate: number;
+  segments: TimeMapSegment[];
+  originalDuration: number;
+  processedDuration: number;
+  /**
+   * Processed-timeline positions (in seconds) where two non-adjacent
+   * pieces of source audio were joined.
+   */
+  splicePoints: number[];
+  /**
+   * Maps an original time to the processed timeline.
+   * Times that fall inside removed audio snap to the following splice.
+   */
+  toProcessed: (originalTime: number) => number;
+  /**
+   * Maps a processed time back to where it came from in the original.
+   */
+  toOriginal: (processedTime: number) => number;
+}
+
+/**
+ * Builds a TimeMap from an ordered list of kept segments.
+ * Segments that are contiguous in both timelines are merged.
+ */
+export const createTimeMap = (
+  rawSegments: TimeMapSegment[],
+  sampleRate: number,
+  originalLength: number
+): TimeMap => {
+  const segments: TimeMapSegment[] = [];
+
+  for (const s of rawSegments) {
+    if (s.srcEnd <= s.srcStart) continue;
+
+    const last = segments[segments.length - 1];
+    if (
+      last &&
+      !last.fill &&
+      !s.fill &&
+      last.srcEnd === s.srcStart &&
+      last.dstStart + (last.srcEnd - last.srcStart) === s.dstStart
+    ) {
+      last.srcEnd = s.srcEnd;
+    } else {
+      segments.push({ ...s });
+    }
+  }
+
+  const last = segments[segments.length - 1];
+  const processedLength = last ? last.dstStart + (last.srcEnd - last.srcStart) : 0;
+
+  // Every segment boundary after the first one is a splice
+  const splicePoints = segments.slice(1).map(s => s.dstStart / sampleRate);
+
+  // Only real source segments are ordered on the original timeline
+  const sourceSegments = segments.filter(s => !s.fill);
+
+  // Binary search helpers. Both return the index of the last segment whose
+  // start is <= the given sample position, or -1 if there is none.
+  const findBySrc = (pos: number) => {
+    let lo = 0;
+    let hi = sourceSegments.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (sourceSegments[mid].srcStart <= pos) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  };
+
+  const findByDst = (pos: number) => {
+    let lo = 0;
+    let hi = segments.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (segments[mid].dstStart <= pos) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  };
+
+  const toProcessed = (originalTime: number) => {
+    if (sourceSegments.length === 0) return 0;
+    const pos = Math.max(0, Math.round(originalTime * sampleRate));
+    const idx = findBySrc(pos);
+    if (idx === -1) return 0;
+
+    const seg = sourceSegments[idx];
+    if (pos < seg.srcEnd) {
+      return (seg.dstStart + (pos - seg.srcStart)) / sampleRate;
+    }
+    // Inside a removed gap: land on the splice where playback resumes
+    return (seg.dstStart + (seg.srcEnd - seg.srcStart)) / sampleRate;
+  };
+
+  const toOriginal = (processedTime: number) => {
+    if (segments.length === 0) return 0;
+    const pos = Math.max(0, Math.round(processedTime * sampleRate));
+    const idx = Math.max(0, findByDst(pos));
+
+    const seg = segments[idx];
+    if (seg.fill) {
+      // Inserted room tone has no original position: report the pause it lengthens
+      for (let i = idx - 1; i >= 0; i--) {
+        if (!segments[i].fill) return segments[i].srcEnd / sampleRate;
+      }
+      const next = segments.slice(idx + 1).find(s => !s.fill);
+      return next ? next.srcStart / sampleRate : 0;
+    }
+    const offset = Math.min(pos - seg.dstStart, seg.srcEnd - seg.srcStart);
+    return (seg.srcStart + offset) / sampleRate;
+  };
+
+  return {
+    sampleRate,
+    segments,
+    originalDuration: originalLength / sampleRate,
+    processedDuration: processedLength / sampleRate,
+    splicePoints,
+    toProcessed,
+    toOriginal
+  };
+};
+
+/**
+ * A TimeMap for audio that was not cut at all.
+ */
+export const createIdentityTimeMap = (length: number, sampleRate: number): TimeMap => {
+  return createTimeMap([{ srcStart: 0, srcEnd: length, dstStart: 0 }], sampleRate, length);
+};
@@ -0,0 +1,145 @@
+import { createId3Tag, hasId3Tags } from './id3';
+import { AudioMetadata, BroadcastInfo } from './metadata';
+
+/**
+ * Metadata chunks for exported WAV files: LIST/INFO and an ID3 chunk for
+ * the tags, BWF `bext`, iXML, and cue points with their labels.
+ */
+
+const BEXT_VERSION = 1;
+const BEXT_FIXED_SIZE = 602;
+const APP_NAME = 'SilenceCut Studio';
+
+/**
+ * What the file holds, for the fields that describe it.
+ */
+export interface WavFormat {
+  sampleRate: number;
+  bitDepth: number;
+  numChannels: number;
+}
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+};
+
+// Chunks are padded to an even length; the size leaves the pad byte out
+const chunk = (id: string, body: Uint8Array): Uint8Array =>
+  concat([utf8(id), uint32(body.length), body, new Uint8Array(body.length % 2)]);
+
+// Fixed-width text field, cut to fit and zero padded
+const field = (text: string, width: number) => {
+  const bytes = new Uint8Array(width);
+  bytes.set(utf8(text).subarray(0, width));
+  return bytes;
+};
+
+const createInfoList = (metadata: AudioMetadata): Uint8Array | null => {
+  const fields: [string, string | undefined][] = [
+    ['INAM', metadata.title],
+    ['IART', metadata.artist],
+    ['IPRD', metadata.album],
+    ['ITRK', metadata.episode != null ? String(metadata.episode) : undefined],
+    ['ICRD', metadata.date],
+    ['IGNR', metadata.genre],
+    ['ICMT', metadata.comment]
+  ];
+  const chunks = fields
+    .filter((f): f is [string, string] => !!f[1]?.trim())
+    .map(([id, text]) => chunk(id, concat([utf8(text.trim()), new Uint8Array(1)])));
+  return chunks.length > 0 ? chunk('LIST', concat([utf8('INFO'), ...chunks])) : null;
+};
+
+const describeFormat = ({ sampleRate, bitDepth, numChannels }: WavFormat) => {
+  const mode = numChannels === 1 ? ',M=mono' : numChannels === 2 ? ',M=stereo' : '';
+  return `A=PCM,F=${sampleRate},W=${bitDepth}${mode},T=${APP_NAME}\r\n`;
+};
+
+const createBext = (info: BroadcastInfo, timeReference: number, format: WavFormat): Uint8Array => {
+  // The coding history gains a line for this export
+  const history = info.codingHistory.trim() ? `${info.codingHistory.replace(/\s*$/, '')}\r\n` : '';
+  const historyBytes = utf8(history + describeFormat(format));
+  const body = new Uint8Array(BEXT_FIXED_SIZE + historyBytes.length);
+  const view = new DataView(body.buffer);
+  body.set(field(info.description, 256), 0);
+  body.set(field(info.originator, 32), 256);
+  body.set(field(info.originatorReference, 32), 288);
+  body.set(field(info.originationDate, 10), 320);
+  body.set(field(info.originationTime, 8), 330);
+  view.setUint32(338, timeReference % 0x100000000, true);
+  view.setUint32(342, Math.floor(timeReference / 0x100000000), true);
+  view.setUint16(346, BEXT_VERSION, true);
+  // UMID and loudness stay zero: they described the source, not this file
+  body.set(historyBytes, BEXT_FIXED_SIZE);
+  return chunk('bext', body);
+};
+
+const setXmlValue = (xml: string, tag: string, value: number) =>
+  xml.replace(new RegExp(`(<${tag}>)[^<]*(</${tag}>)`, 'g'), `$1${value}$2`);
+
+// The time and format fields change with the cut and the export settings
+const updateIxml = (ixml: string, timeReference: number | null, format: WavFormat): string => {
+  let xml = ixml;
+  if (timeReference !== null) {
+    const low = timeReference % 0x100000000;
+    const high = Math.floor(timeReference / 0x100000000);
+    xml = setXmlValue(xml, 'BWF_TIME_REFERENCE_LOW', low);
+    xml = setXmlValue(xml, 'BWF_TIME_REFERENCE_HIGH', high);
+    xml = setXmlValue(xml, 'TIMESTAMP_SAMPLES_SINCE_MIDNIGHT_LO', low);
+    xml = setXmlValue(xml, 'TIMESTAMP_SAMPLES_SINCE_MIDNIGHT_HI', high);
+    xml = setXmlValue(xml, 'TIMESTAMP_SAMPLE_RATE', format.sampleRate);
+  }
+  xml = setXmlValue(xml, 'FILE_SAMPLE_RATE', format.sampleRate);
+  return setXmlValue(xml, 'AUDIO_BIT_DEPTH', format.bitDepth);
+};
+
+const createCues = (metadata: AudioMetadata, sampleRate: number): Uint8Array[] => {
+  const markers = metadata.markers ?? [];
+  if (markers.length === 0) return [];
+
+  const points = markers.map((m, i) => {
+    const position = Math.max(0, Math.round(m.time * sampleRate));
+    // ID, play order position, chunk ID, chunk start, block start, sample offset
+    return concat([uint32(i + 1), uint32(position), utf8('data'), uint32(0), uint32(0), uint32(position)]);
+  });
+  const labels = markers
+    .map((m, i) => (m.label.trim() ? chunk('labl', concat([uint32(i + 1), utf8(m.label.trim()), new Uint8Array(1)])) : null))
+    .filter((c): c is Uint8Array => c !== null);
+
+  return [
+    chunk('cue ', concat([uint32(points.length), ...points])),
+    ...(labels.length > 0 ? [chunk('LIST', concat([utf8('adtl'), ...labels]))] : [])
+  ];
+};
+
+/**
+ * All metadata chunks for a WAV file in `format`, ready to go between
+ * `fmt ` and `data`. Markers and the time reference must already be on
+ * the exported timeline.
+ */
+export const createWavMetadataChunks = (metadata: AudioMetadata, format: WavFormat): Uint8Array => {
+  const timeReference = metadata.timeReference != null ? Math.max(0, Math.round(metadata.timeReference * format.sampleRate)) : null;
+  const chunks: Uint8Array[] = [];
+  const info = createInfoList(metadata);
+  if (info) chunks.push(info);
+  if (metadata.broadcast) chunks.push(createBext(metadata.broadcast, timeReference ?? 0, format));
+  if (metadata.ixml) chunks.push(chunk('iXML', utf8(updateIxml(metadata.ixml, timeReference, format))));
+  chunks.push(...createCues(metadata, format.sampleRate));
+  // Tag editors and most players read ID3 in WAV too, with Unicode and cover art
+  if (hasId3Tags(metadata)) chunks.push(chunk('id3 ', createId3Tag(metadata)));
+  return concat(chunks);
+};
@@ -0,0 +1,163 @@
+/**
+ * AAC and Opus encoding through the browser's own codecs (WebCodecs), muxed
+ * into M4A and Ogg files here. Which codecs exist depends on the browser and
+ * platform, so callers check support first and offer something else.
+ */
+
+import { createResampler } from './resample';
+import { createMp4Muxer } from './mp4Muxer';
+import { createOggOpusMuxer } from './oggMuxer';
+import { AudioMetadata, getVorbisComments } from './metadata';
+
+export type WebCodecsFormat = 'm4a' | 'opus';
+
+const CODEC_NAMES: Record<WebCodecsFormat, string> = {
+  m4a: 'AAC',
+  opus: 'Opus'
+};
+
+const AAC_FRAME_SIZE = 1024;
+const AAC_SAMPLE_RATES = [44100, 48000];
+const OPUS_RATE = 48000;
+// Chunks queued in the encoder before `write` waits for it to catch up
+const MAX_QUEUE = 32;
+
+/**
+ * The rate audio is encoded at: Opus always runs at 48kHz, and browser AAC
+ * encoders only reliably take 44.1 or 48kHz.
+ */
+const getCodecSampleRate = (format: WebCodecsFormat, sampleRate: number): number =>
+  format === 'm4a' && AAC_SAMPLE_RATES.includes(sampleRate) ? sampleRate : OPUS_RATE;
+
+const getEncoderConfig = (
+  format: WebCodecsFormat,
+  sampleRate: number,
+  numChannels: number,
+  bitrate: number
+): AudioEncoderConfig => ({
+  codec: format === 'm4a' ? 'mp4a.40.2' : 'opus',
+  sampleRate: getCodecSampleRate(format, sampleRate),
+  numberOfChannels: numChannels,
+  // Both codecs default to raw packets, with the setup in the decoder config
+  bitrate: bitrate * 1000
+});
+
+/**
+ * What to tell the user when the browser has no encoder for `format`.
+ */
+export const getUnsupportedCodecMessage = (format: WebCodecsFormat) =>
+  `${CODEC_NAMES[format]} encoding is not supported by this browser. Export as MP3 or WAV instead, or try a recent Chrome or Edge.`;
+
+/**
+ * True if the browser can encode `format` with these settings.
+ */
+export const isWebCodecsFormatSupported = async (
+  format: WebCodecsFormat,
+  sampleRate = OPUS_RATE,
+  numChannels = 2,
+  bitrate = 96
+): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(getEncoderConfig(format, sampleRate, numChannels, bitrate));
+    return !!supported;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Streaming encoder for one of the WebCodecs formats. `bitrate` is in kbps.
+ * Throws a message fit for the user when the browser can't encode `format`.
+ * Tags from `metadata` go in the M4A item list or the Opus comments.
+ */
+export const createWebCodecsWriter = (
+  format: WebCodecsFormat,
+  sampleRate: number,
+  numChannels: number,
+  bitrate: number,
+  metadata: AudioMetadata | null = null
+) => {
+  const config = getEncoderConfig(format, sampleRate, numChannels, bitrate);
+  const codecRate = config.sampleRate;
+  const resampler = codecRate !== sampleRate ? createResampler(sampleRate, codecRate, numChannels) : null;
+  const mp4 = format === 'm4a' ? createMp4Muxer(codecRate, numChannels, metadata) : null;
+  const ogg = format === 'opus' ? createOggOpusMuxer(numChannels, sampleRate, metadata ? getVorbisComments(metadata) : []) : null;
+
+  let encoder: AudioEncoder | null = null;
+  let failure: Error | null = null;
+  let framesWritten = 0;
+
+  const copyBytes = (source: AllowSharedBufferSource): Uint8Array =>
+    ArrayBuffer.isView(source)
+      ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+      : new Uint8Array(source).slice();
+
+  // The configuration is checked once, on the first chunk
+  const open = async (): Promise<AudioEncoder> => {
+    if (encoder) return encoder;
+    if (!(await isWebCodecsFormatSupported(format, sampleRate, numChannels, bitrate))) {
+      throw new Error(getUnsupportedCodecMessage(format));
+    }
+    encoder = new AudioEncoder({
+      output: (chunk, metadata) => {
+        const description = metadata?.decoderConfig?.description;
+        if (description) {
+          const bytes = copyBytes(description);
+          mp4?.setDecoderConfig(bytes);
+          ogg?.setDecoderConfig(bytes);
+        }
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        mp4?.addSample(data, AAC_FRAME_SIZE);
+        ogg?.addPacket(data);
+      },
+      error: e => {
+        failure = new Error(`${CODEC_NAMES[format]} encoding failed: ${e.message}`);
+      }
+    });
+    encoder.configure(config);
+    return encoder;
+  };
+
+  const encode = async (channels: Float32Array[]) => {
+    const frames = channels[0]?.length ?? 0;
+    if (frames === 0) return;
+    const active = await open();
+    while (active.encodeQueueSize > MAX_QUEUE && !failure) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    if (failure) throw failure;
+
+    const planar = new Float32Array(frames * numChannels);
+    channels.forEach((data, c) => planar.set(data, c * frames));
+    const audio = new AudioData({
+      format: 'f32-planar',
+      sampleRate: codecRate,
+      numberOfFrames: frames,
+      numberOfChannels: numChannels,
+      timestamp: Math.round((framesWritten / codecRate) * 1e6),
+      data: planar
+    });
+    framesWritten += frames;
+    active.encode(audio);
+    audio.close();
+  };
+
+  return {
+    write: (channels: Float32Array[]) => encode(resampler ? resampler.process(channels) : channels),
+    finish: async (): Promise<Blob> => {
+      if (resampler) await encode(resampler.flush());
+      const active = await open();
+      try {
+        await active.flush();
+      } catch (e) {
+        throw failure ?? e;
+      } finally {
+        if (active.state !== 'closed') active.close();
+      }
+      if (failure) throw failure;
+      return mp4 ? mp4.finish() : ogg!.finish(framesWritten);
+    }
+  };
+};